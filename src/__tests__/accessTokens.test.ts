@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import type http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { authenticate, loadTokenFile } from "../accessTokens";
+
+const request = (url: string, authorization?: string) =>
+  ({ url, headers: { authorization } } as http.IncomingMessage);
+
+test("loads tokens from a file and rejects bad permissions", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghw-tokens-"));
+  try {
+    const file = path.join(dir, "tokens.json");
+    fs.writeFileSync(file, JSON.stringify({ a: "read", b: "control" }));
+    assert.deepEqual(
+      loadTokenFile(file),
+      new Map([
+        ["a", "read"],
+        ["b", "control"],
+      ])
+    );
+    fs.writeFileSync(file, JSON.stringify({ a: "admin" }));
+    assert.throws(() => loadTokenFile(file), /must be one of read, control/);
+    fs.writeFileSync(file, JSON.stringify(["a"]));
+    assert.throws(() => loadTokenFile(file), /must map tokens to permissions/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("authenticates bearer headers and token query parameters", () => {
+  const tokens = new Map([
+    ["reader", "read" as const],
+    ["admin", "control" as const],
+  ]);
+  assert.equal(authenticate(tokens, request("/", "Bearer admin")), "control");
+  assert.equal(authenticate(tokens, request("/?token=reader")), "read");
+  assert.equal(authenticate(tokens, request("/", "Bearer nope")), undefined);
+  assert.equal(authenticate(tokens, request("/", "Basic admin")), undefined);
+  // a header, even a bad one, wins over the query
+  assert.equal(
+    authenticate(tokens, request("/?token=admin", "Bearer nope")),
+    undefined
+  );
+  assert.equal(authenticate(tokens, request("/")), undefined);
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { test } from "node:test";
+import { ActuatorStateTracker } from "../actuatorStateTracker";
+import type { BusManager } from "../busManager";
+import { DatabaseHandler } from "../database/database";
+import type { ActuatorState } from "../types";
+
+const setup = (database = new DatabaseHandler({ path: ":memory:" })) => {
+  const bus = new EventEmitter();
+  const tracker = new ActuatorStateTracker(
+    database,
+    bus as unknown as BusManager
+  );
+  const events: ActuatorState[] = [];
+  tracker.on("state", (state: ActuatorState) => events.push(state));
+  return { database, bus, tracker, events };
+};
+
+const simplify = (states: ActuatorState[]) =>
+  states.map(({ actuator, node, value, source }) => ({
+    actuator,
+    node,
+    value,
+    source,
+  }));
+
+test("records acknowledged overrides, preferring the state the node reports", () => {
+  const { bus, tracker, events } = setup();
+  bus.emit(
+    "reply",
+    { cmd: "manual_override", actuator: "fan", value: true, node: "node-1" },
+    { ok: true }
+  );
+  bus.emit(
+    "reply",
+    { cmd: "manual_override", actuator: "pump", value: true, node: "node-1" },
+    { ok: true, state: false }
+  );
+  bus.emit(
+    "reply",
+    { cmd: "manual_override", actuator: "light", value: true },
+    { ok: false, error: "relay stuck" }
+  );
+
+  assert.deepEqual(simplify(tracker.getStates()), [
+    { actuator: "fan", node: "node-1", value: true, source: "command" },
+    { actuator: "pump", node: "node-1", value: false, source: "command" },
+  ]);
+  assert.equal(events.length, 2);
+});
+
+test("takes state reports as single values or maps and skips repeats", () => {
+  const { tracker, events } = setup();
+  tracker.handleRemotePayload({ from: "node-2", actuator: "fan", state: 40 });
+  tracker.handleRemotePayload({
+    from: "node-2",
+    actuators: { fan: 40, climate: true, kettle: true },
+  });
+  tracker.handleRemotePayload({ node: "node-3", state: { fan: false } });
+
+  assert.deepEqual(simplify(events), [
+    { actuator: "fan", node: "node-2", value: 40, source: "report" },
+    { actuator: "climate", node: "node-2", value: true, source: "report" },
+    { actuator: "fan", node: "node-3", value: false, source: "report" },
+  ]);
+});
+
+test("reads state reports carried by other command replies", () => {
+  const { bus, tracker } = setup();
+  bus.emit("reply", { cmd: "status", node: "node-4" }, [
+    { actuators: { light: true } },
+  ]);
+  assert.deepEqual(simplify(tracker.getStates()), [
+    { actuator: "light", node: "node-4", value: true, source: "report" },
+  ]);
+});
+
+test("persists states and restores the latest ones for new clients", () => {
+  const { database, tracker } = setup();
+  tracker.handleRemotePayload({ from: "node-1", actuator: "fan", value: true });
+  tracker.handleRemotePayload({
+    from: "node-1",
+    actuator: "fan",
+    value: false,
+  });
+
+  const restored = setup(database).tracker;
+  assert.deepEqual(simplify(restored.getStates()), [
+    { actuator: "fan", node: "node-1", value: false, source: "report" },
+  ]);
+  const history = database.queryActuatorHistory({
+    actuator: "fan",
+    from: 0,
+    to: Date.now() + 1000,
+    limit: 10,
+  });
+  assert.deepEqual(
+    history.map((state) => state.value),
+    [false, true]
+  );
+  database.close();
+});
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { afterEach, test } from "node:test";
+import { AutomationController } from "../automationController";
+import type { BusManager } from "../busManager";
+import type { SensorHandler } from "../sensorHandler";
+import type {
+  AutomationRule,
+  AutomationState,
+  Command,
+  SensorReading,
+} from "../types";
+
+const FAN_RULE: AutomationRule = {
+  actuator: "fan",
+  sensorType: "air_temperature",
+  excludeSensorIds: ["cpuTemp"],
+  direction: "above",
+  onAt: 28,
+  offAt: 25,
+  minSwitchIntervalMs: 0,
+};
+
+let controller: AutomationController | undefined;
+
+afterEach(() => controller?.stop());
+
+const setup = (rules: AutomationRule[] = [FAN_RULE]) => {
+  const sensors = new EventEmitter();
+  const sent: Command[] = [];
+  const bus = {
+    request: async (packet: Command) => {
+      sent.push(packet);
+      return { ok: true };
+    },
+  };
+  controller = new AutomationController(
+    sensors as unknown as SensorHandler,
+    bus as unknown as BusManager,
+    { rules }
+  );
+  controller.start();
+  const modes: AutomationState[] = [];
+  controller.on("mode", (state: AutomationState) => modes.push(state));
+  const read = async (value: number, id = "air") => {
+    const reading: SensorReading = {
+      id,
+      type: "air_temperature",
+      value,
+      timestamp: new Date().toISOString(),
+    };
+    sensors.emit("reading", reading);
+    // let the bus request settle
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+  return { controller, sent, modes, read };
+};
+
+const switches = (sent: Command[]) => sent.map((packet) => packet.value);
+
+test("switches with hysteresis between onAt and offAt", async () => {
+  const { controller, sent, read } = setup();
+  controller.setAuto("fan", true);
+
+  await read(27);
+  await read(29);
+  await read(27);
+  await read(26);
+  await read(25);
+  await read(27);
+  assert.deepEqual(switches(sent), [true, false]);
+  assert.equal(controller.getState("fan").output, false);
+  assert.equal(controller.getState("fan").lastValue, 27);
+  // the CPU sensor shares the type but is not the greenhouse air
+  await read(90, "cpuTemp");
+  assert.deepEqual(switches(sent), [true, false]);
+});
+
+test("pauses for a manual override and resumes once it expires", async () => {
+  const { controller, sent, modes, read } = setup();
+  controller.setAuto("fan", true);
+  await read(29);
+  assert.deepEqual(switches(sent), [true]);
+
+  controller.registerManualOverride("fan", false, 30);
+  assert.equal(controller.getState("fan").mode, "override");
+  await read(30);
+  assert.deepEqual(switches(sent), [true]);
+
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal(controller.getState("fan").mode, "auto");
+  // the reading from during the override is acted on once it ends
+  assert.deepEqual(switches(sent), [true, true]);
+  assert.deepEqual(
+    modes.map((state) => state.mode),
+    ["auto", "override", "auto"]
+  );
+});
+
+test("announces mode changes and refuses actuators without a rule", async () => {
+  const { controller, modes } = setup();
+  controller.setAuto("fan", true);
+  controller.setAuto("fan", false);
+  assert.throws(() => controller.setAuto("pump", true), /No automation rule/);
+  // overrides of manual actuators only record the output
+  controller.registerManualOverride("fan", true);
+  assert.deepEqual(
+    modes.map((state) => [state.actuator, state.mode]),
+    [
+      ["fan", "auto"],
+      ["fan", "manual"],
+    ]
+  );
+  assert.equal(controller.getState("fan").output, true);
+});
+
+test("drops actuators whose rule went away back to manual", async () => {
+  const { controller, modes } = setup();
+  controller.setAuto("fan", true);
+  controller.setRules([{ ...FAN_RULE, actuator: "pump" }]);
+  assert.equal(controller.getState("fan").mode, "manual");
+  assert.equal(modes.at(-1)?.mode, "manual");
+  assert.equal(controller.hasRule("pump"), true);
+});
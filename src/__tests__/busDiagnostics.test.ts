@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BusDiagnostics } from "../busDiagnostics";
+
+const status = { id: "001", cmd: "status", node: "n1", payload: {} };
+
+test("counts exchanges per command and per node with latency buckets", () => {
+  const diagnostics = new BusDiagnostics();
+  diagnostics.recordSent(status, 3);
+  diagnostics.recordReply(status, 40);
+  diagnostics.recordSent({ ...status, id: "002", node: undefined }, 0);
+  diagnostics.recordReply({ ...status, id: "002", node: undefined }, 9000);
+
+  const { commands, nodes } = diagnostics.snapshot();
+  assert.equal(commands.status.sent, 2);
+  assert.equal(commands.status.replies, 2);
+  assert.equal(commands.status.latency.maxMs, 9000);
+  assert.equal(
+    commands.status.latency.buckets.find((b) => b.le === 50)?.count,
+    1
+  );
+  assert.equal(
+    commands.status.latency.buckets.find((b) => b.le === "+Inf")?.count,
+    1
+  );
+  assert.equal(nodes.n1.replies, 1);
+  assert.equal(nodes["*"].replies, 1);
+});
+
+test("tells late replies from unknown ones", () => {
+  const diagnostics = new BusDiagnostics();
+  diagnostics.recordSent(status, 0);
+  diagnostics.recordTimeout(status, 1, "Request timed out after 100ms");
+
+  assert.equal(diagnostics.recordUnmatchedReply("001", { ok: true }), true);
+  assert.equal(diagnostics.recordUnmatchedReply("999", { ok: true }), false);
+
+  const snapshot = diagnostics.snapshot();
+  assert.equal(snapshot.commands.status.timeouts, 1);
+  assert.equal(snapshot.commands.status.lateReplies, 1);
+  assert.equal(snapshot.unknownReplies, 1);
+  assert.deepEqual(
+    snapshot.recentFailures.map((f) => [f.kind, f.id, f.cmd]),
+    [
+      ["timeout", "001", "status"],
+      ["late_reply", "001", "status"],
+      ["unknown_reply", "999", undefined],
+    ]
+  );
+});
+
+test("forgets timed out ids after the late reply window", async () => {
+  const diagnostics = new BusDiagnostics(20, 0);
+  diagnostics.recordTimeout(status, 1, "timed out");
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assert.equal(diagnostics.recordUnmatchedReply("001", {}), false);
+});
+
+test("keeps only the most recent failures and starts over on reset", () => {
+  const diagnostics = new BusDiagnostics(2);
+  for (const id of ["1", "2", "3"]) {
+    diagnostics.recordError({ ...status, id }, 1, "port closed");
+  }
+  diagnostics.recordNodeMismatch(status, { from: "n2" }, "n2");
+  assert.deepEqual(
+    diagnostics.snapshot().recentFailures.map((f) => [f.kind, f.id]),
+    [
+      ["error", "3"],
+      ["node_mismatch", "001"],
+    ]
+  );
+
+  diagnostics.reset();
+  const snapshot = diagnostics.snapshot();
+  assert.deepEqual(snapshot.commands, {});
+  assert.deepEqual(snapshot.recentFailures, []);
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BusManager } from "../busManager";
+import {
+  LoopbackResponder,
+  LoopbackTransport,
+} from "../transports/loopbackTransport";
+
+const setup = async (responder?: LoopbackResponder) => {
+  const transport = new LoopbackTransport({ responder });
+  const bus = new BusManager(transport, { interRequestDelayMs: 0 });
+  await bus.init();
+  await transport.init();
+  return { transport, bus };
+};
+
+const echo: LoopbackResponder = (command) => ({
+  replyTo: command.id,
+  cmd: command.cmd,
+});
+
+test("resolves a request with the reply that names its id", async () => {
+  const { transport, bus } = await setup(echo);
+  const replies: unknown[] = [];
+  bus.on("reply", (_packet, reply) => replies.push(reply));
+
+  const reply = await bus.request({ cmd: "ping" }, 100);
+  assert.deepEqual(reply, { replyTo: transport.sent[0].id, cmd: "ping" });
+  assert.equal(replies[0], reply);
+  assert.equal(bus.isReply(reply), true);
+  assert.equal(bus.isReply({ replyTo: "x" }), false);
+});
+
+test("ignores an unsolicited report that only carries an id", async () => {
+  const { transport, bus } = await setup();
+  const pending = bus.request({ cmd: "ping", id: "007" }, 30);
+  await new Promise((resolve) => setImmediate(resolve));
+  transport.inject({ replyTo: "007" });
+  await pending;
+
+  const report = { id: "007", temperature: 21 };
+  transport.inject(report);
+  assert.equal(bus.isReply(report), false);
+});
+
+test("retries a timed out request under the same id", async () => {
+  let attempts = 0;
+  const { transport, bus } = await setup((command) =>
+    ++attempts < 2 ? undefined : { replyTo: command.id }
+  );
+  const reply = await bus.request(
+    { cmd: "status" },
+    { timeoutMs: 20, retries: 2, retryDelayMs: 5 }
+  );
+  assert.equal(transport.sent.length, 2);
+  assert.equal(transport.sent[0].id, transport.sent[1].id);
+  assert.deepEqual(reply, { replyTo: transport.sent[0].id });
+  assert.equal(bus.getStats().retries, 1);
+});
+
+test("accepts a slow reply that arrives while the retry waits", async () => {
+  const { transport, bus } = await setup();
+  const pending = bus.request(
+    { cmd: "status", id: "042" },
+    { timeoutMs: 10, retries: 1, retryDelayMs: 200 }
+  );
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  transport.inject({ replyTo: "042", ok: true });
+
+  assert.deepEqual(await pending, { replyTo: "042", ok: true });
+  assert.equal(transport.sent.length, 1);
+});
+
+test("fails once the retries are used up", async () => {
+  const { transport, bus } = await setup();
+  await assert.rejects(
+    bus.request(
+      { cmd: "status" },
+      { timeoutMs: 10, retries: 1, retryDelayMs: 0 }
+    ),
+    /timed out after 10ms/
+  );
+  assert.equal(transport.sent.length, 2);
+});
+
+test("sends high priority requests first", async () => {
+  const { transport, bus } = await setup(echo);
+  const first = bus.request({ cmd: "first" }, 100);
+  const low = bus.request({ cmd: "low" }, { timeoutMs: 100, priority: "low" });
+  const high = bus.request({ cmd: "high" }, { priority: "high" });
+  await Promise.all([first, low, high]);
+  assert.deepEqual(
+    transport.sent.map((command) => command.cmd),
+    ["first", "high", "low"]
+  );
+});
+
+test("ignores a reply from another node than the one addressed", async () => {
+  const { transport, bus } = await setup();
+  const pending = bus.request({ cmd: "ping", id: "001", node: "a" }, 30);
+  await new Promise((resolve) => setImmediate(resolve));
+  transport.inject({ replyTo: "001", from: "b" });
+  await assert.rejects(pending, /timed out/);
+  assert.equal(bus.getStats().nodeMismatches, 1);
+});
+
+test("collects every reply to a broadcast", async () => {
+  const { bus } = await setup((command) => [
+    { replyTo: command.id, from: "a" },
+    { replyTo: command.id, from: "b" },
+  ]);
+  const replies = await bus.broadcast({ cmd: "who" }, 30);
+  assert.deepEqual(
+    replies.map((reply: any) => reply.from),
+    ["a", "b"]
+  );
+});
+
+test("holds the bus for an exclusive exchange", async () => {
+  const { transport, bus } = await setup(echo);
+  let release!: () => void;
+  const exchange = bus.exclusive(
+    "modbus",
+    () => new Promise<string>((resolve) => (release = () => resolve("done")))
+  );
+  const request = bus.request({ cmd: "ping" }, 100);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.equal(transport.sent.length, 0);
+
+  release();
+  assert.equal(await exchange, "done");
+  await request;
+  assert.equal(transport.sent.length, 1);
+});
+
+test("rejects requests when the queue is full", async () => {
+  const transport = new LoopbackTransport();
+  const bus = new BusManager(transport, { maxQueueSize: 1 });
+  await bus.init();
+  await transport.init();
+  const inFlight = bus.request({ cmd: "a" }, 20).catch(() => undefined);
+  const queued = bus.request({ cmd: "b" }, 20).catch(() => undefined);
+  await assert.rejects(bus.request({ cmd: "c" }, 20), /queue is full/);
+  await Promise.all([inFlight, queued]);
+});
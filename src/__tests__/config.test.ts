@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { defaultConfig, loadConfig, resolveConfig } from "../config";
+
+const problemsOf = (raw: unknown, env: NodeJS.ProcessEnv = {}) => {
+  try {
+    resolveConfig(raw, env);
+  } catch (err) {
+    return (err as Error).message.split("\n").slice(1);
+  }
+  assert.fail("expected the config to be rejected");
+};
+
+test("falls back to the defaults", () => {
+  assert.deepEqual(resolveConfig(undefined, {}), {
+    ...defaultConfig(),
+    thresholds: undefined,
+  });
+});
+
+test("layers the file over the defaults", () => {
+  const config = resolveConfig(
+    {
+      rs485: { baudRate: 9600 },
+      database: { retentionDays: { raw: 3 } },
+      sensors: { cpuTemp: { pollingTime: 5000 }, soil: { paused: true } },
+    },
+    {}
+  );
+  assert.equal(config.rs485.baudRate, 9600);
+  assert.equal(config.rs485.transport, "serial");
+  assert.deepEqual(config.database.retentionDays, {
+    raw: 3,
+    hourly: 365,
+    daily: 3650,
+  });
+  assert.deepEqual(config.sensors.cpuTemp, {
+    options: { unit: "°C" },
+    pollingTime: 5000,
+  });
+  assert.deepEqual(config.sensors.soil, { paused: true });
+});
+
+test("lets the environment win over the file", () => {
+  const config = resolveConfig(
+    { rs485: { baudRate: 9600 }, logging: { rs485Traffic: true } },
+    { RS485_BAUD: "19200", RS485_DE_PIN: "5", RS485_DEBUG: "0" }
+  );
+  assert.equal(config.rs485.baudRate, 19200);
+  assert.equal(config.rs485.driverEnablePin, 5);
+  assert.equal(config.logging.rs485Traffic, false);
+});
+
+test("clears the split pins when one enable pin is given", () => {
+  const config = resolveConfig({}, { RS485_ENABLE_PIN: "17" });
+  assert.equal(config.rs485.enablePin, 17);
+  assert.equal(config.rs485.driverEnablePin, undefined);
+  assert.equal(config.rs485.receiverEnablePin, undefined);
+});
+
+test("reads the gateway, API, MQTT and simulator settings", () => {
+  const config = resolveConfig(
+    {
+      http: { port: 8080, tokens: { secret: "control" } },
+      simulator: { nodes: 3 },
+    },
+    {
+      WS_PORT: "8443",
+      WS_TOKENS: "a:control, b",
+      MQTT_URL: "mqtt://broker",
+      MQTT_DISCOVERY: "0",
+      MQTT_COMMANDS: "manual_override, ack_warning",
+      SIM_DROP_RATE: "0.25",
+    }
+  );
+  assert.deepEqual(config.http, { port: 8080, tokens: { secret: "control" } });
+  assert.deepEqual(config.websocket, {
+    port: 8443,
+    tokens: { a: "control", b: "read" },
+  });
+  assert.deepEqual(config.mqtt, {
+    url: "mqtt://broker",
+    discovery: false,
+    commands: ["manual_override", "ack_warning"],
+  });
+  assert.deepEqual(config.simulator, { nodes: 3, seed: 1, dropRate: 0.25 });
+});
+
+test("reports every problem with its path", () => {
+  assert.deepEqual(
+    problemsOf(
+      { rs485: { baudRate: "fast" }, sensors: { soil: { pollingTime: 50 } } },
+      { RS485_QUEUE_SIZE: "lots", HTTP_TOKENS: "key:admin" }
+    ),
+    [
+      '  - rs485.baudRate must be an integer >= 1, got "fast"',
+      "  - sensors.soil.pollingTime must be an integer >= 100, got 50",
+      '  - RS485_QUEUE_SIZE must be an integer >= 1, got "lots"',
+      '  - HTTP_TOKENS.key must be one of "read", "control", got "admin"',
+    ]
+  );
+});
+
+test("requires a host and port for the tcp transport", () => {
+  assert.match(
+    problemsOf({ rs485: { transport: "tcp" } }).join("\n"),
+    /tcp transport requires rs485.tcp.host/
+  );
+});
+
+test("requires tokens and a complete TLS pair for the WebSocket gateway", () => {
+  assert.deepEqual(problemsOf({ websocket: { port: 8443, tlsCert: "c" } }), [
+    "  - The WebSocket gateway requires websocket.tokens or " +
+      "websocket.tokensFile (or WS_TOKENS or WS_TOKENS_FILE)",
+    "  - websocket.tlsCert and websocket.tlsKey must be set together",
+  ]);
+  assert.equal(
+    resolveConfig({ websocket: { port: 8443, tokensFile: "t.json" } }, {})
+      .websocket.tokensFile,
+    "t.json"
+  );
+});
+
+test("checks automation rules for a sensor, hysteresis and duplicates", () => {
+  const fan = {
+    actuator: "fan",
+    sensorType: "air_temperature",
+    direction: "above",
+    onAt: 28,
+    offAt: 25,
+  };
+  assert.deepEqual(
+    resolveConfig({ automation: { rules: [fan] } }, {}).automation,
+    { overrideMs: 30 * 60 * 1000, rules: [fan] }
+  );
+  assert.deepEqual(
+    problemsOf({
+      automation: {
+        rules: [
+          { ...fan, sensorType: undefined, offAt: 30 },
+          { ...fan, actuator: "fan" },
+        ],
+      },
+    }),
+    [
+      "  - automation.rules[0] needs a sensorId or a sensorType",
+      "  - automation.rules[0].offAt must be <= onAt for a rule switching above",
+      "  - automation.rules has a second rule for fan",
+    ]
+  );
+});
+
+test("rejects duplicate threshold rule ids", () => {
+  const rule = {
+    id: "hot",
+    alertType: "overtemp",
+    severity: "high",
+    sensorType: "air_temperature",
+    direction: "above",
+    threshold: 30,
+  };
+  assert.match(
+    problemsOf({ thresholds: [rule, rule] }).join("\n"),
+    /duplicate rule id hot/
+  );
+});
+
+test("resolves plugin dirs against the config file", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ghw-config-"));
+  try {
+    const file = path.join(dir, "config.json");
+    fs.writeFileSync(file, JSON.stringify({ plugins: { dirs: ["plugins"] } }));
+    assert.deepEqual(loadConfig(file, {}).plugins.dirs, [
+      path.join(dir, "plugins"),
+    ]);
+    fs.writeFileSync(file, "{ nope");
+    assert.throws(() => loadConfig(file, {}), /Not valid JSON/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
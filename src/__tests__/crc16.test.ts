@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { crc16 } from "../crc16";
+
+test("matches the CRC-16/MODBUS check value", () => {
+  assert.equal(crc16(Buffer.from("123456789")), 0x4b37);
+});
+
+test("covers only the requested range", () => {
+  const data = Buffer.from("xx123456789yy");
+  assert.equal(crc16(data, 2, 11), 0x4b37);
+});
+
+test("matches a Modbus read request", () => {
+  // unit 1, read holding registers 0x0000, quantity 10: CRC bytes C5 CD
+  const frame = Buffer.from([0x01, 0x03, 0x00, 0x00, 0x00, 0x0a]);
+  assert.equal(crc16(frame), 0xcdc5);
+});
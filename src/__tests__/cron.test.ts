@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { cronMatches, parseCron } from "../cron";
+
+test("parses lists, ranges and steps", () => {
+  const cron = parseCron("*/15 6-8 * * 1,3");
+  assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...cron.hours], [6, 7, 8]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 3]);
+});
+
+test("treats 7 as Sunday", () => {
+  assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+});
+
+test("rejects malformed expressions", () => {
+  assert.throws(() => parseCron("* * * *"), /must have 5 fields/);
+  assert.throws(() => parseCron("60 * * * *"), /outside 0-59/);
+  assert.throws(() => parseCron("a * * * *"), /Invalid cron minute/);
+});
+
+test("matches either day field when both are restricted", () => {
+  const cron = parseCron("30 7 1 * 1");
+  // Thursday the 1st and Monday the 5th
+  assert.equal(cronMatches(cron, new Date(2026, 9, 1, 7, 30)), true);
+  assert.equal(cronMatches(cron, new Date(2026, 9, 5, 7, 30)), true);
+  assert.equal(cronMatches(cron, new Date(2026, 9, 6, 7, 30)), false);
+  assert.equal(cronMatches(cron, new Date(2026, 9, 5, 7, 31)), false);
+});
+
+test("a stepped day field counts as unrestricted", () => {
+  const cron = parseCron("0 8 */2 * 1");
+  // Monday the 5th, Monday the 12th and Wednesday the 7th
+  assert.equal(cronMatches(cron, new Date(2026, 9, 5, 8, 0)), true);
+  assert.equal(cronMatches(cron, new Date(2026, 9, 12, 8, 0)), false);
+  assert.equal(cronMatches(cron, new Date(2026, 9, 7, 8, 0)), false);
+});
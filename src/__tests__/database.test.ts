@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import Database from "better-sqlite3";
+import { DatabaseHandler } from "../database/database";
+import { ReadingWriteBuffer } from "../database/readingWriteBuffer";
+import { MIGRATIONS, runMigrations } from "../database/migrations";
+import type { SensorReading } from "../types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const reading = (at: number, value: number): SensorReading => ({
+  id: "air",
+  type: "air_temperature",
+  value,
+  timestamp: new Date(at).toISOString(),
+});
+
+const hourlyRows = (db: DatabaseHandler) =>
+  db.database
+    .prepare("SELECT bucket_start, min, max, count FROM sensor_readings_hourly")
+    .all();
+
+test("migrates an in-memory database to the latest version", () => {
+  const db = new DatabaseHandler({ path: ":memory:" });
+  const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+  assert.equal(db.database.pragma("user_version", { simple: true }), latest);
+  db.close();
+});
+
+test("refuses a database from a newer schema", () => {
+  const raw = new Database(":memory:");
+  raw.pragma(`user_version = ${MIGRATIONS.length + 1}`);
+  assert.throws(() => runMigrations(raw), /newer than the supported version/);
+  raw.close();
+});
+
+test("rolls up completed hours and keeps the open one raw", () => {
+  const db = new DatabaseHandler({ path: ":memory:" });
+  const now = Date.UTC(2026, 0, 10, 12, 30);
+  db.saveSensorReadings([
+    reading(now - HOUR_MS, 10),
+    reading(now - HOUR_MS + 1000, 20),
+    reading(now, 99),
+  ]);
+  db.compactReadings(now);
+
+  assert.deepEqual(hourlyRows(db), [
+    { bucket_start: "2026-01-10T11:00:00.000Z", min: 10, max: 20, count: 2 },
+  ]);
+  db.close();
+});
+
+test("re-aggregates an hour that receives readings after its rollup", () => {
+  const db = new DatabaseHandler({ path: ":memory:" });
+  const now = Date.UTC(2026, 0, 10, 12, 30);
+  db.saveSensorReadings([reading(now - HOUR_MS, 10)]);
+  db.compactReadings(now);
+  db.saveSensorReadings([reading(now - HOUR_MS + 5000, 30)]);
+  db.compactReadings(now + 60_000);
+
+  assert.deepEqual(hourlyRows(db), [
+    { bucket_start: "2026-01-10T11:00:00.000Z", min: 10, max: 30, count: 2 },
+  ]);
+  db.close();
+});
+
+test("maintenance flushes buffered readings before compacting", () => {
+  const db = new DatabaseHandler({ path: ":memory:" });
+  const buffer = new ReadingWriteBuffer(db, { flushIntervalMs: 0 });
+  buffer.add(reading(Date.now() - 2 * HOUR_MS, 5));
+  db.startMaintenance(HOUR_MS, () => buffer.flush());
+  db.stopMaintenance();
+
+  assert.equal(buffer.getStats().buffered, 0);
+  assert.equal(hourlyRows(db).length, 1);
+  db.close();
+});
+
+test("a reading without a value does not hold up the batch", () => {
+  const db = new DatabaseHandler({ path: ":memory:" });
+  const buffer = new ReadingWriteBuffer(db, { flushIntervalMs: 0 });
+  const at = Date.now();
+  buffer.add(reading(at, 5));
+  buffer.add({ ...reading(at, 0), value: null as unknown as number });
+  buffer.add(reading(at + 1000, 6));
+
+  assert.equal(buffer.flush(), 2);
+  const stats = buffer.getStats();
+  assert.equal(stats.failed, 0);
+  assert.equal(stats.skipped, 1);
+  assert.equal(stats.buffered, 0);
+  db.close();
+});
+
+test("query_readings buckets raw and rolled up readings alike", () => {
+  const db = new DatabaseHandler({ path: ":memory:" });
+  const now = Date.UTC(2026, 0, 10, 12, 30);
+  db.saveSensorReadings([
+    reading(now - HOUR_MS, 10),
+    reading(now - HOUR_MS + 1000, 20),
+    reading(now, 99),
+    { ...reading(now, 50), id: "soil", type: "soil_moisture" },
+  ]);
+  db.compactReadings(now);
+
+  const buckets = db.queryReadings({
+    sensorIds: ["air"],
+    from: now - 2 * HOUR_MS,
+    to: now + HOUR_MS,
+    bucketMs: HOUR_MS,
+  });
+  assert.deepEqual(buckets, [
+    {
+      sensorId: "air",
+      bucketStart: "2026-01-10T11:00:00.000Z",
+      min: 10,
+      max: 20,
+      avg: 15,
+      count: 2,
+    },
+    {
+      sensorId: "air",
+      bucketStart: "2026-01-10T12:00:00.000Z",
+      min: 99,
+      max: 99,
+      avg: 99,
+      count: 1,
+    },
+  ]);
+
+  const everything = db.queryReadings({
+    sensorIds: [],
+    from: now - 2 * HOUR_MS,
+    to: now + HOUR_MS,
+    // buckets align to the epoch, so a day bucket holds the whole range
+    bucketMs: 24 * HOUR_MS,
+  });
+  assert.deepEqual(
+    everything.map((bucket) => [bucket.sensorId, bucket.count]),
+    [
+      ["air", 3],
+      ["soil", 1],
+    ]
+  );
+  db.close();
+});
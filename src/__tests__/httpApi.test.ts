@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import { CommandRouter, CommandTargets } from "../commandRouter";
+import { DatabaseHandler } from "../database/database";
+import { HttpApi } from "../httpApi";
+import type { Command } from "../types";
+import { WarningHandler } from "../warningHandler";
+
+const database = new DatabaseHandler({ path: ":memory:" });
+const warningHandler = new WarningHandler(database);
+const forwarded: { packet: Command; timeoutMs?: number }[] = [];
+
+const router = new CommandRouter({
+  warningHandler,
+  database,
+  nodeRegistry: { list: () => [] },
+  forward: async (packet: Command, timeoutMs?: number) => {
+    forwarded.push({ packet, timeoutMs });
+    if (packet.cmd === "ping") return { heartbeat: "node-1" };
+    throw new Error("Request timed out after 100ms");
+  },
+} as unknown as CommandTargets);
+
+const api = new HttpApi(
+  {
+    port: 0,
+    host: "127.0.0.1",
+    tokens: new Map([
+      ["admin", "control" as const],
+      ["viewer", "read" as const],
+    ]),
+  },
+  {
+    status: () => ({}),
+    sensors: () => [],
+    readings: () => undefined,
+    alerts: () => warningHandler.getWarnings(),
+    command: (packet, context) => router.dispatch(packet, context),
+    metrics: () => "ghw_up 1\n",
+  }
+);
+
+let baseUrl = "";
+
+before(async () => {
+  await api.start();
+  baseUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await api.stop();
+  database.close();
+});
+
+const post = async (body: unknown, token = "admin") => {
+  const res = await fetch(`${baseUrl}/commands`, {
+    method: "POST",
+    headers: { authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: (await res.json()) as any };
+};
+
+const get = async (path: string) => {
+  const res = await fetch(`${baseUrl}${path}`, {
+    headers: { authorization: "Bearer viewer" },
+  });
+  return { status: res.status, body: (await res.json()) as any };
+};
+
+test("ack_warning over HTTP acknowledges the alert instead of reaching the bus", async () => {
+  const alert = warningHandler.addWarning({
+    id: "alert-1",
+    type: "overtemp",
+    location: "greenhouse-1",
+    severity: "high",
+    message: "Too hot",
+    timestamp: Date.now(),
+  });
+  forwarded.length = 0;
+
+  const res = await post({ cmd: "ack_warning", alertId: alert.id });
+  assert.equal(res.status, 200);
+  assert.equal(res.body.reply.state, "acknowledged");
+  assert.equal(warningHandler.getWarnings()[0].state, "acknowledged");
+  assert.equal(database.loadOpenAlerts()[0].state, "acknowledged");
+  assert.deepEqual(forwarded, []);
+});
+
+test("worker commands that fail answer 400, bus commands go to the bus", async () => {
+  const missing = await post({ cmd: "ack_warning", alertId: "nope" });
+  assert.equal(missing.status, 400);
+  assert.match(missing.body.error.message, /Unknown or resolved alert nope/);
+
+  const hello = await post({ cmd: "hello", protocol: 2 });
+  assert.equal(hello.status, 400);
+  assert.match(hello.body.error.message, /only available on socket/);
+
+  const ping = await post({ cmd: "ping", timeoutMs: 250 });
+  assert.equal(ping.status, 200);
+  assert.deepEqual(ping.body.reply, { heartbeat: "node-1" });
+  assert.equal(forwarded.at(-1)?.timeoutMs, 250);
+
+  const timeout = await post({ cmd: "set_stage", stage: 2 });
+  assert.equal(timeout.status, 504);
+});
+
+test("read tokens only run the read-only commands", async () => {
+  const listed = await post({ cmd: "list_nodes" }, "viewer");
+  assert.equal(listed.status, 200);
+  assert.deepEqual(listed.body.reply, []);
+
+  const refused = await post(
+    { cmd: "resolve_warning", alertId: "x" },
+    "viewer"
+  );
+  assert.equal(refused.status, 403);
+  assert.match(refused.body.error.message, /requires control permission/);
+
+  const ping = await post({ cmd: "ping" }, "viewer");
+  assert.equal(ping.status, 403);
+});
+
+test("rejects malformed sensor ids and unknown alert states with 400", async () => {
+  const malformed = await get("/sensors/%E0/readings");
+  assert.equal(malformed.status, 400);
+  assert.match(malformed.body.error.message, /Malformed path segment/);
+
+  const resolved = await get("/alerts?state=resolved");
+  assert.equal(resolved.status, 400);
+  assert.equal((await get("/alerts?state=active")).status, 200);
+});
+
+test("serves metrics as Prometheus text", async () => {
+  const res = await fetch(`${baseUrl}/metrics`, {
+    headers: { authorization: "Bearer viewer" },
+  });
+  assert.equal(res.status, 200);
+  assert.match(
+    res.headers.get("content-type") ?? "",
+    /^text\/plain; version=0\.0\.4/
+  );
+  assert.equal(await res.text(), "ghw_up 1\n");
+});
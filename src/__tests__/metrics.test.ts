@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MetricsWriter } from "../metrics";
+
+test("groups samples by metric in the Prometheus text format", () => {
+  const metrics = new MetricsWriter();
+  metrics.gauge("ghw_sensor_value", "Latest reading", 21.5, { sensor: "air" });
+  metrics.counter("ghw_bus_requests_total", "Bus requests", 7);
+  metrics.gauge("ghw_sensor_value", "Latest reading", 40, {
+    sensor: "soil",
+    location: undefined,
+  });
+
+  assert.equal(
+    metrics.toString(),
+    [
+      "# HELP ghw_sensor_value Latest reading",
+      "# TYPE ghw_sensor_value gauge",
+      'ghw_sensor_value{sensor="air"} 21.5',
+      'ghw_sensor_value{sensor="soil"} 40',
+      "# HELP ghw_bus_requests_total Bus requests",
+      "# TYPE ghw_bus_requests_total counter",
+      "ghw_bus_requests_total 7",
+      "",
+    ].join("\n")
+  );
+});
+
+test("escapes label values and spells out special numbers", () => {
+  const metrics = new MetricsWriter();
+  metrics.gauge("ghw_value", "Value", Number.NaN, { name: 'a "b"\\c\nd' });
+  metrics.gauge("ghw_value", "Value", Infinity, { name: "up" });
+  metrics.gauge("ghw_value", "Value", -Infinity, { name: "down" });
+
+  assert.deepEqual(metrics.toString().split("\n").slice(2, 5), [
+    'ghw_value{name="a \\"b\\"\\\\c\\nd"} NaN',
+    'ghw_value{name="up"} +Inf',
+    'ghw_value{name="down"} -Inf',
+  ]);
+});
+
+test("refuses to mix metric types under one name", () => {
+  const metrics = new MetricsWriter();
+  metrics.counter("ghw_total", "Total", 1);
+  assert.throws(
+    () => metrics.gauge("ghw_total", "Total", 1),
+    /ghw_total is a counter, not a gauge/
+  );
+});
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { test } from "node:test";
+import { crc16 } from "../crc16";
+import {
+  ModbusExceptionError,
+  ModbusFrameError,
+  ModbusTimeoutError,
+} from "../modbus/errors";
+import { ModbusClient } from "../modbus/modbusClient";
+import type { RS485Handler } from "../rs485Hanlder";
+
+const withCrc = (bytes: number[]) => {
+  const frame = Buffer.alloc(bytes.length + 2);
+  Buffer.from(bytes).copy(frame);
+  frame.writeUInt16LE(crc16(frame, 0, bytes.length), bytes.length);
+  return frame;
+};
+
+/** A single Modbus unit answering on a fake port, split into two chunks. */
+class FakeDevice extends EventEmitter {
+  public registers = [100, 200, 300, 400];
+  public requests: Buffer[] = [];
+  public reply?: (request: Buffer) => Buffer | undefined;
+
+  async sendRaw(frame: Buffer) {
+    this.requests.push(frame);
+    const response = (this.reply ?? this.answer)(frame);
+    if (!response) return;
+    setImmediate(() => {
+      this.emit("data", response.subarray(0, 3));
+      this.emit("data", response.subarray(3));
+    });
+  }
+
+  private answer = (request: Buffer) => {
+    const [unit, functionCode] = request;
+    const address = request.readUInt16BE(2);
+    if (functionCode === 0x03) {
+      const quantity = request.readUInt16BE(4);
+      const values = this.registers.slice(address, address + quantity);
+      if (values.length < quantity) return withCrc([unit, 0x83, 0x02]);
+      const bytes = values.flatMap((value) => [value >> 8, value & 0xff]);
+      return withCrc([unit, functionCode, bytes.length, ...bytes]);
+    }
+    if (functionCode === 0x06) {
+      this.registers[address] = request.readUInt16BE(4);
+      return request;
+    }
+    return withCrc([unit, functionCode | 0x80, 0x01]);
+  };
+}
+
+const setup = (options: ConstructorParameters<typeof ModbusClient>[1] = {}) => {
+  const device = new FakeDevice();
+  const client = new ModbusClient(device as unknown as RS485Handler, {
+    interFrameDelayMs: 0,
+    ...options,
+  });
+  return { device, client };
+};
+
+test("reads holding registers", async () => {
+  const { device, client } = setup();
+  assert.deepEqual(await client.readHoldingRegisters(7, 1, 2), [200, 300]);
+  assert.deepEqual(
+    [...device.requests[0]],
+    [...withCrc([7, 0x03, 0x00, 0x01, 0x00, 0x02])]
+  );
+});
+
+test("writes a single register", async () => {
+  const { device, client } = setup();
+  await client.writeSingleRegister(1, 2, 0xbeef);
+  assert.equal(device.registers[2], 0xbeef);
+});
+
+test("surfaces exception responses as typed errors", async () => {
+  const { client } = setup();
+  await assert.rejects(client.readHoldingRegisters(1, 3, 5), (err) => {
+    assert.ok(err instanceof ModbusExceptionError);
+    assert.equal(err.code, 0x02);
+    return true;
+  });
+});
+
+test("rejects replies that fail the CRC check", async () => {
+  const { device, client } = setup();
+  device.reply = () => {
+    const frame = withCrc([1, 0x03, 0x02, 0x00, 0x01]);
+    frame[frame.length - 1] ^= 0xff;
+    return frame;
+  };
+  await assert.rejects(client.readHoldingRegisters(1, 0, 1), ModbusFrameError);
+});
+
+test("times out when the unit stays silent and keeps going", async () => {
+  const { device, client } = setup({ timeoutMs: 20 });
+  device.reply = () => undefined;
+  await assert.rejects(
+    client.readHoldingRegisters(1, 0, 1),
+    ModbusTimeoutError
+  );
+  device.reply = undefined;
+  assert.deepEqual(await client.readHoldingRegisters(1, 0, 1), [100]);
+});
+
+test("refuses broadcast reads and out of range arguments", async () => {
+  const { client } = setup();
+  await assert.rejects(client.readHoldingRegisters(0, 0, 1), /broadcast/);
+  await assert.rejects(client.readHoldingRegisters(1, 0, 126), /quantity/);
+});
+
+test("takes the shared bus for every transaction", async () => {
+  let held = 0;
+  const { client } = setup({
+    exclusive: async (task) => {
+      held += 1;
+      return task();
+    },
+  });
+  await client.readHoldingRegisters(1, 0, 1);
+  await client.writeSingleRegister(1, 0, 5);
+  assert.equal(held, 2);
+});
+
+test("skips line noise ahead of the reply", async () => {
+  const { device, client } = setup();
+  device.reply = () =>
+    Buffer.concat([
+      Buffer.from([0x00, 0xff, 0x01, 0x42]),
+      withCrc([1, 0x03, 0x02, 0x12, 0x34]),
+    ]);
+  assert.deepEqual(await client.readHoldingRegisters(1, 0, 1), [0x1234]);
+});
+
+test("unpacks coils and checks their byte count", async () => {
+  const { device, client } = setup();
+  device.reply = () => withCrc([1, 0x01, 0x02, 0b00000101, 0b00000010]);
+  assert.deepEqual(await client.readCoils(1, 0, 10), [
+    true,
+    false,
+    true,
+    false,
+    false,
+    false,
+    false,
+    false,
+    false,
+    true,
+  ]);
+
+  device.reply = () => withCrc([1, 0x01, 0x01, 0b00000101]);
+  await assert.rejects(client.readCoils(1, 0, 10), (err) => {
+    assert.ok(err instanceof ModbusFrameError);
+    assert.match(err.message, /returned 1 bytes for 10 coils/);
+    return true;
+  });
+});
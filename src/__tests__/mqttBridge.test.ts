@@ -0,0 +1,275 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import { afterEach, test } from "node:test";
+import * as mqttPacket from "mqtt-packet";
+import { MqttBridge } from "../mqttBridge";
+import type { Command, SensorReading } from "../types";
+
+type Received = { topic: string; payload: string; retain: boolean };
+
+const topicMatches = (filter: string, topic: string) =>
+  new RegExp(`^${filter.replace(/\+/g, "[^/]+").replace(/#$/, ".*")}$`).test(
+    topic
+  );
+
+/** Just enough of an MQTT 3.1.1 broker for one client. */
+class TestBroker {
+  public received: Received[] = [];
+  private readonly server = net.createServer((socket) => this.accept(socket));
+  private sockets = new Set<net.Socket>();
+  private subscriptions = new Map<net.Socket, string[]>();
+
+  listen(port = 0): Promise<number> {
+    return new Promise((resolve) =>
+      this.server.listen(port, "127.0.0.1", () =>
+        resolve((this.server.address() as net.AddressInfo).port)
+      )
+    );
+  }
+
+  close(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  publish(topic: string, payload: string) {
+    for (const [socket, filters] of this.subscriptions) {
+      if (!filters.some((filter) => topicMatches(filter, topic))) continue;
+      socket.write(
+        mqttPacket.generate({
+          cmd: "publish",
+          topic,
+          payload,
+          qos: 0,
+          dup: false,
+          retain: false,
+        })
+      );
+    }
+  }
+
+  async waitFor(topic: string, timeoutMs = 2000): Promise<Received> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const found = this.received.find((message) => message.topic === topic);
+      if (found) return found;
+      if (Date.now() > deadline) throw new Error(`Nothing on ${topic}`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  private accept(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      this.subscriptions.delete(socket);
+    });
+    const parser = mqttPacket.parser();
+    const send = (packet: mqttPacket.Packet) =>
+      socket.write(mqttPacket.generate(packet));
+    parser.on("packet", (packet) => {
+      switch (packet.cmd) {
+        case "connect":
+          send({ cmd: "connack", returnCode: 0, sessionPresent: false });
+          break;
+        case "subscribe":
+          this.subscriptions.set(
+            socket,
+            packet.subscriptions.map((subscription) => subscription.topic)
+          );
+          send({
+            cmd: "suback",
+            messageId: packet.messageId,
+            granted: packet.subscriptions.map(() => 0),
+          });
+          break;
+        case "publish":
+          this.received.push({
+            topic: packet.topic,
+            payload: packet.payload.toString(),
+            retain: packet.retain,
+          });
+          if (packet.qos === 1) {
+            send({ cmd: "puback", messageId: packet.messageId });
+          }
+          break;
+        case "pingreq":
+          send({ cmd: "pingresp" });
+          break;
+        case "disconnect":
+          socket.end();
+          break;
+      }
+    });
+    socket.on("data", (data) => parser.parse(data));
+  }
+}
+
+const reading: SensorReading = {
+  id: "air 1",
+  type: "air_temperature",
+  value: 21.5,
+  timestamp: "2026-10-19T10:00:00.000Z",
+};
+
+let broker: TestBroker | undefined;
+let bridge: MqttBridge | undefined;
+
+afterEach(async () => {
+  await bridge?.stop();
+  await broker?.close();
+  bridge = broker = undefined;
+});
+
+const freePort = async () => {
+  const probe = new TestBroker();
+  const port = await probe.listen();
+  await probe.close();
+  return port;
+};
+
+test("buffers while the broker is away and flushes once connected", async () => {
+  const port = await freePort();
+  bridge = new MqttBridge(
+    {
+      url: `mqtt://127.0.0.1:${port}`,
+      deviceId: "gh",
+      reconnectDelayMs: 20,
+    },
+    async () => undefined
+  );
+  bridge.start();
+  bridge.publishReading(reading);
+  bridge.publishStatus({ status: "connected" });
+  bridge.publishStatus({ status: "fail" });
+  assert.equal(bridge.getStats().buffered, 2);
+
+  broker = new TestBroker();
+  await broker.listen(port);
+  const state = await broker.waitFor("greenhouse/sensors/air 1/state");
+  assert.equal(JSON.parse(state.payload).value, 21.5);
+  assert.equal(state.retain, false);
+
+  // only the latest retained status survives the outage
+  const statuses = broker.received.filter(
+    (message) => message.topic === "greenhouse/status"
+  );
+  assert.deepEqual(
+    statuses.map((message) => JSON.parse(message.payload).status),
+    ["fail"]
+  );
+
+  const discovery = await broker.waitFor(
+    "homeassistant/sensor/gh/air_1/config"
+  );
+  assert.equal(JSON.parse(discovery.payload).device_class, "temperature");
+  await broker.waitFor("homeassistant/switch/gh/fan/config");
+  assert.equal(
+    (await broker.waitFor("greenhouse/availability")).payload,
+    "online"
+  );
+});
+
+test("turns switch commands into bus requests and replies", async () => {
+  broker = new TestBroker();
+  const port = await broker.listen();
+  const commands: Command[] = [];
+  bridge = new MqttBridge(
+    { url: `mqtt://127.0.0.1:${port}`, discovery: false, actuatorNode: "n1" },
+    async (packet) => {
+      commands.push(packet);
+      return { ok: true };
+    }
+  );
+  const connected = new Promise((resolve) =>
+    bridge!.once("connected", resolve)
+  );
+  bridge.start();
+  await connected;
+  // give the subscription a moment to land
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  broker.publish("greenhouse/actuators/fan/set", "ON");
+  const reply = await broker.waitFor("greenhouse/command/reply");
+  assert.equal(commands.length, 1);
+  assert.equal(commands[0].cmd, "manual_override");
+  assert.equal(commands[0].actuator, "fan");
+  assert.equal(commands[0].value, true);
+  assert.equal(commands[0].node, "n1");
+  assert.deepEqual(JSON.parse(reply.payload).data, { ok: true });
+});
+
+test("runs only the allowed commands from the command topic", async () => {
+  broker = new TestBroker();
+  const port = await broker.listen();
+  const commands: Command[] = [];
+  bridge = new MqttBridge(
+    {
+      url: `mqtt://127.0.0.1:${port}`,
+      discovery: false,
+      commands: ["ack_warning"],
+    },
+    async (packet) => {
+      commands.push(packet);
+      return { ok: true };
+    }
+  );
+  const connected = new Promise((resolve) =>
+    bridge!.once("connected", resolve)
+  );
+  bridge.start();
+  await connected;
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  broker.publish(
+    "greenhouse/command",
+    JSON.stringify({ cmd: "set_stage", id: "c1", stage: 3 })
+  );
+  const refused = JSON.parse(
+    (await broker.waitFor("greenhouse/command/reply")).payload
+  );
+  assert.equal(refused.id, "c1");
+  assert.equal(refused.ok, false);
+  assert.match(refused.error.message, /set_stage is not allowed over MQTT/);
+  assert.equal(commands.length, 0);
+
+  broker.received = [];
+  broker.publish(
+    "greenhouse/command",
+    JSON.stringify({ cmd: "ack_warning", id: "c2", alertId: "a1" })
+  );
+  const accepted = JSON.parse(
+    (await broker.waitFor("greenhouse/command/reply")).payload
+  );
+  assert.equal(accepted.ok, true);
+  assert.deepEqual(
+    commands.map((command) => command.cmd),
+    ["ack_warning"]
+  );
+});
+
+test("publishes a retained offline status when stopped", async () => {
+  broker = new TestBroker();
+  const port = await broker.listen();
+  bridge = new MqttBridge(
+    { url: `mqtt://127.0.0.1:${port}`, discovery: false },
+    async () => undefined
+  );
+  const connected = new Promise((resolve) =>
+    bridge!.once("connected", resolve)
+  );
+  bridge.start();
+  await connected;
+
+  await bridge.stop();
+  const availability = broker.received.filter(
+    (message) => message.topic === "greenhouse/availability"
+  );
+  assert.deepEqual(
+    availability.map((message) => [message.payload, message.retain]),
+    [
+      ["online", true],
+      ["offline", true],
+    ]
+  );
+});
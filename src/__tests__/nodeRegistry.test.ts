@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { messageNodeId, NodeRegistry } from "../nodeRegistry";
+import type { NodeStatus } from "../types";
+
+const watch = (registry: NodeRegistry) => {
+  const changes: NodeStatus[] = [];
+  registry.on("changed", (status: NodeStatus) => changes.push({ ...status }));
+  return changes;
+};
+
+test("takes the node address from from, node, hello or heartbeat", () => {
+  assert.equal(messageNodeId({ from: "n1", hello: "board" }), "n1");
+  assert.equal(messageNodeId({ node: " n2 " }), "n2");
+  assert.equal(messageNodeId({ heartbeat: "legacy-board" }), "legacy-board");
+  assert.equal(messageNodeId({ from: "", value: 1 }), undefined);
+  assert.equal(messageNodeId("hello"), undefined);
+});
+
+test("registers nodes on hello and only announces connection changes", () => {
+  const registry = new NodeRegistry();
+  const changes = watch(registry);
+
+  // unannounced nodes are ignored until they say hello
+  registry.handlePayload({ from: "n1", readings: [] });
+  assert.deepEqual(registry.list(), []);
+
+  registry.handlePayload({ from: "n1", hello: "board-1", speed: 115200 });
+  registry.handlePayload({ from: "n1", readings: [] });
+  const status = registry.get("n1")!;
+  assert.equal(status.connected, true);
+  assert.equal(status.device, "board-1");
+  assert.equal(status.speed, 115200);
+  assert.equal(changes.length, 1);
+});
+
+test("marks silent nodes disconnected and brings them back on a heartbeat", () => {
+  const registry = new NodeRegistry({ heartbeatTimeoutMs: 1000 });
+  const changes = watch(registry);
+  registry.handlePayload({ from: "n1", heartbeat: "board-1" });
+  const seen = registry.get("n1")!.lastHeartbeat!;
+
+  registry.checkHeartbeats(seen + 500);
+  assert.equal(registry.get("n1")!.connected, true);
+  registry.checkHeartbeats(seen + 1500);
+  assert.equal(registry.get("n1")!.connected, false);
+  assert.equal(registry.get("n1")!.reason, "Remote heartbeat timeout");
+  assert.equal(registry.hasConnectedNodes(), false);
+
+  registry.handlePayload({ from: "n1", heartbeat: "board-1" });
+  assert.equal(registry.get("n1")!.connected, true);
+  assert.deepEqual(
+    changes.map((change) => change.connected),
+    [true, false, true]
+  );
+});
+
+test("records errors and disconnects every node at once", () => {
+  const registry = new NodeRegistry();
+  registry.handlePayload({ from: "n1", hello: "a" });
+  registry.handlePayload({ from: "n2", hello: "b" });
+  registry.recordError("n1", "RS485 request 001 timed out after 500ms");
+  assert.match(registry.get("n1")!.lastError!, /timed out/);
+  assert.equal(registry.get("n1")!.connected, true);
+
+  registry.markAllDisconnected("RS485 link fail");
+  assert.deepEqual(
+    registry.list().map((status) => [status.node, status.connected]),
+    [
+      ["n1", false],
+      ["n2", false],
+    ]
+  );
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { encodeFrame, FrameDecoder, FrameError } from "../rs485Framing";
+import {
+  NodeSimulator,
+  NodeSimulatorOptions,
+} from "../simulator/nodeSimulator";
+import { LoopbackTransport } from "../transports/loopbackTransport";
+import type { Command } from "../types";
+
+const simulators: NodeSimulator[] = [];
+
+afterEach(() => {
+  for (const simulator of simulators.splice(0)) simulator.detach();
+});
+
+// timers far enough out that only the commands under test produce traffic
+const setup = async (options: NodeSimulatorOptions = {}) => {
+  const transport = new LoopbackTransport();
+  await transport.init();
+  const simulator = new NodeSimulator({
+    heartbeatMs: 1e6,
+    sensorIntervalMs: 1e6,
+    tickMs: 1e6,
+    ...options,
+  });
+  simulators.push(simulator);
+  simulator.attach(transport);
+  const messages: Record<string, unknown>[] = [];
+  const raw: Buffer[] = [];
+  transport.on("message", (message) => messages.push(message));
+  transport.on("data", (data: Buffer) => raw.push(data));
+  return { transport, simulator, messages, raw };
+};
+
+const settle = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const send = async (transport: LoopbackTransport, command: Command) => {
+  await transport.sendCommand(command);
+  await settle();
+};
+
+const replies = (messages: Record<string, unknown>[]) =>
+  messages.filter((message) => message.replyTo !== undefined);
+
+test("enable_auto follows the requested value", async () => {
+  const { transport, messages } = await setup();
+  await send(transport, { cmd: "enable_auto", id: "1", value: false });
+  await send(transport, { cmd: "enable_auto", id: "2" });
+  await send(transport, { cmd: "enable_auto", id: "3", value: false });
+  assert.deepEqual(
+    replies(messages).map((reply) => reply.auto),
+    [false, true, false]
+  );
+});
+
+test("drops, delays and silences replies on request", async () => {
+  const { transport, simulator, messages } = await setup();
+  simulator.dropReplies(1);
+  await send(transport, { cmd: "ping", id: "dropped" });
+  await send(transport, { cmd: "ping", id: "answered" });
+  assert.deepEqual(
+    replies(messages).map((reply) => reply.replyTo),
+    ["answered"]
+  );
+
+  simulator.setFaults({ delayMs: 30 });
+  await send(transport, { cmd: "ping", id: "late" });
+  assert.equal(replies(messages).length, 1);
+  await settle(50);
+  assert.equal(replies(messages).at(-1)?.replyTo, "late");
+
+  simulator.setFaults({ dropRate: 1 });
+  await send(transport, { cmd: "ping", id: "lost" });
+  simulator.setFaults({});
+  simulator.disconnect(1000);
+  await send(transport, { cmd: "ping", id: "offline" });
+  assert.equal(replies(messages).length, 2);
+});
+
+test("garbage on the line costs the framed decoder nothing but noise", async () => {
+  const { transport, simulator, messages, raw } = await setup({ seed: 7 });
+  simulator.setFaults({ garbageRate: 1 });
+  await send(transport, { cmd: "ping", id: "p1" });
+  assert.equal(raw.length, 1);
+  assert.equal(replies(messages).length, 1);
+
+  // the same bytes ahead of a framed reply, as a framed bus would see them
+  const reply = Buffer.from(JSON.stringify(replies(messages)[0]));
+  const decoder = new FrameDecoder();
+  const frames: Buffer[] = [];
+  const errors: FrameError[] = [];
+  decoder.on("frame", (frame: Buffer) => frames.push(frame));
+  decoder.on("invalid", (error: FrameError) => errors.push(error));
+  decoder.push(Buffer.concat([raw[0], encodeFrame(reply)]));
+  assert.deepEqual(frames, [reply]);
+  assert.ok(decoder.takeSkippedBytes() + errors.length > 0);
+});
+
+test("the same seed replays the same climate, noise and faults", async () => {
+  const run = async () => {
+    const { transport, simulator, messages, raw } = await setup({ seed: 42 });
+    simulator.setFaults({ dropRate: 0.5, garbageRate: 0.3 });
+    for (let i = 0; i < 20; i++) {
+      await send(transport, { cmd: "ping", id: `p${i}` });
+    }
+    for (let i = 0; i < 60; i++) simulator.step(1);
+    return {
+      answered: replies(messages).map((reply) => reply.replyTo),
+      garbage: Buffer.concat(raw).toString("hex"),
+      climate: simulator.getClimate(),
+    };
+  };
+
+  const first = await run();
+  const second = await run();
+  assert.deepEqual(second, first);
+  assert.ok(first.answered.length > 0 && first.answered.length < 20);
+  assert.ok(first.garbage.length > 0);
+});
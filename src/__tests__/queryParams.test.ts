@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  parseActuatorHistoryQuery,
+  parseDuration,
+  parseReadingsQuery,
+} from "../queryParams";
+
+test("parses durations in milliseconds or with a unit", () => {
+  assert.equal(parseDuration(1500, "bucket"), 1500);
+  assert.equal(parseDuration("5m", "bucket"), 300_000);
+  assert.equal(parseDuration("1.5h", "bucket"), 5_400_000);
+  assert.throws(() => parseDuration("5 fortnights", "bucket"), /bucket/);
+  assert.throws(() => parseDuration(0, "bucket"), /bucket/);
+});
+
+test("defaults a readings query to the last day in about 500 buckets", () => {
+  const query = parseReadingsQuery({ to: "2026-01-10T12:00:00Z" });
+  assert.equal(query.to, Date.UTC(2026, 0, 10, 12));
+  assert.equal(query.from, query.to - 24 * 60 * 60 * 1000);
+  assert.equal(query.bucketMs, 172_800);
+  assert.deepEqual(query.sensorIds, []);
+});
+
+test("takes sensor ids as a list or a comma separated string", () => {
+  const range = { from: 0, to: 60_000, bucket: "1s" };
+  assert.deepEqual(
+    parseReadingsQuery({ ...range, sensors: "air, soil" }).sensorIds,
+    ["air", "soil"]
+  );
+  assert.deepEqual(
+    parseReadingsQuery({ ...range, sensorIds: ["air"] }).sensorIds,
+    ["air"]
+  );
+  assert.throws(
+    () => parseReadingsQuery({ ...range, sensorIds: [1] }),
+    /Invalid sensorIds/
+  );
+});
+
+test("rejects reversed ranges and too many buckets", () => {
+  assert.throws(
+    () => parseReadingsQuery({ from: 10, to: 5 }),
+    /from must be before to/
+  );
+  assert.throws(
+    () => parseReadingsQuery({ from: 0, to: 60_000, bucket: 1 }),
+    /Bucket too small/
+  );
+});
+
+test("checks actuator history filters", () => {
+  const query = parseActuatorHistoryQuery({ actuator: "fan", to: 1000 });
+  assert.equal(query.actuator, "fan");
+  assert.equal(query.limit, 500);
+  assert.throws(
+    () => parseActuatorHistoryQuery({ actuator: "kettle" }),
+    /Invalid actuator/
+  );
+  assert.throws(() => parseActuatorHistoryQuery({ limit: 0 }), /Invalid limit/);
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BusManager } from "../busManager";
+import { NodeRegistry } from "../nodeRegistry";
+import { parseRemoteReadings, RemoteSensorPoller } from "../remoteSensors";
+import { LoopbackTransport } from "../transports/loopbackTransport";
+import type { Command } from "../types";
+
+test("qualifies remote sensor ids with the reporting node", () => {
+  const readings = parseRemoteReadings({
+    from: "bed-2",
+    location: "bed 2",
+    readings: [
+      { sensor: "soil", type: "soil_moisture", value: 41 },
+      { id: "tank", type: "switch_position", value: true, location: "shed" },
+    ],
+  });
+  assert.deepEqual(
+    readings.map(({ id, type, value, node, location }) => ({
+      id,
+      type,
+      value,
+      node,
+      location,
+    })),
+    [
+      {
+        id: "bed-2:soil",
+        type: "soil_moisture",
+        value: 41,
+        node: "bed-2",
+        location: "bed 2",
+      },
+      {
+        id: "bed-2:tank",
+        type: "switch_position",
+        value: true,
+        node: "bed-2",
+        location: "shed",
+      },
+    ]
+  );
+  assert.ok(Date.parse(readings[0].timestamp) <= Date.now());
+});
+
+test("accepts a single reading and falls back to the addressed node", () => {
+  const [reading] = parseRemoteReadings({ type: "co2", value: 612 }, "bed-3");
+  assert.equal(reading.id, "bed-3:co2");
+  assert.equal(reading.node, "bed-3");
+});
+
+test("drops readings it cannot trust", () => {
+  assert.deepEqual(parseRemoteReadings({ type: "co2", value: 612 }), []);
+  assert.deepEqual(
+    parseRemoteReadings({
+      from: "bed-2",
+      sensors: [
+        { sensor: "a", type: "smell", value: 1 },
+        { sensor: "b", type: "co2", value: "high" },
+        { sensor: "c", type: "co2", value: Number.NaN },
+        { sensor: "", type: "co2", value: 1 },
+      ],
+    }),
+    []
+  );
+});
+
+test("polls only the connected nodes", async () => {
+  const transport = new LoopbackTransport({
+    responder: (command) => ({
+      replyTo: command.id,
+      from: (command as Command).node,
+      readings: [],
+    }),
+  });
+  const busManager = new BusManager(transport);
+  await busManager.init();
+  await transport.init();
+  const registry = new NodeRegistry();
+  registry.handlePayload({ from: "bed-1", hello: "board" });
+  registry.handlePayload({ from: "bed-2", hello: "board" });
+  registry.markDisconnected("bed-2", "unplugged");
+
+  await new RemoteSensorPoller(busManager, registry).pollAll();
+
+  assert.deepEqual(
+    transport.sent.map((command) => [command.cmd, (command as Command).node]),
+    [["read_sensors", "bed-1"]]
+  );
+});
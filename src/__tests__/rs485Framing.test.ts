@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  encodeFrame,
+  FRAME_ESCAPE,
+  FRAME_START,
+  FrameDecoder,
+  FrameError,
+  MAX_FRAME_PAYLOAD,
+} from "../rs485Framing";
+
+const collect = (decoder: FrameDecoder) => {
+  const frames: string[] = [];
+  const errors: FrameError[] = [];
+  decoder.on("frame", (frame: Buffer) => frames.push(frame.toString("hex")));
+  decoder.on("invalid", (error: FrameError) => errors.push(error));
+  return { frames, errors };
+};
+
+test("round-trips payloads containing start and escape bytes", () => {
+  const payload = Buffer.from([0x01, FRAME_START, 0x02, FRAME_ESCAPE, 0x03]);
+  const encoded = encodeFrame(payload);
+  assert.equal(encoded.indexOf(FRAME_START, 1), -1);
+
+  const decoder = new FrameDecoder();
+  const { frames, errors } = collect(decoder);
+  decoder.push(encoded);
+  assert.deepEqual(frames, [payload.toString("hex")]);
+  assert.deepEqual(errors, []);
+});
+
+test("reassembles frames split across chunks", () => {
+  const encoded = Buffer.concat([
+    encodeFrame(Buffer.from('{"a":1}')),
+    encodeFrame(Buffer.from('{"b":2}')),
+  ]);
+  const decoder = new FrameDecoder();
+  const { frames } = collect(decoder);
+  for (const byte of encoded) decoder.push(Buffer.from([byte]));
+  assert.deepEqual(
+    frames.map((hex) => Buffer.from(hex, "hex").toString()),
+    ['{"a":1}', '{"b":2}']
+  );
+});
+
+test("reports a corrupted frame and recovers on the next one", () => {
+  const bad = encodeFrame(Buffer.from("hello"));
+  bad[4] ^= 0x01;
+  const decoder = new FrameDecoder();
+  const { frames, errors } = collect(decoder);
+  decoder.push(Buffer.concat([bad, encodeFrame(Buffer.from("ok"))]));
+  assert.deepEqual(
+    errors.map((error) => error.reason),
+    ["crc"]
+  );
+  assert.deepEqual(frames, [Buffer.from("ok").toString("hex")]);
+});
+
+test("counts noise between frames and flags cut-short frames", () => {
+  const decoder = new FrameDecoder();
+  const { frames, errors } = collect(decoder);
+  const partial = encodeFrame(Buffer.from("lost")).subarray(0, 4);
+  decoder.push(
+    Buffer.concat([
+      Buffer.from([0x00, 0x11]),
+      partial,
+      encodeFrame(Buffer.from("x")),
+    ])
+  );
+  assert.equal(decoder.takeSkippedBytes(), 2);
+  assert.deepEqual(
+    errors.map((error) => error.reason),
+    ["truncated"]
+  );
+  assert.equal(frames.length, 1);
+});
+
+test("refuses oversized payloads", () => {
+  assert.throws(
+    () => encodeFrame(Buffer.alloc(MAX_FRAME_PAYLOAD + 1)),
+    /exceeds/
+  );
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, test } from "node:test";
+import { BusManager } from "../busManager";
+import { DatabaseHandler } from "../database/database";
+import { Scheduler } from "../scheduler";
+import { LoopbackTransport } from "../transports/loopbackTransport";
+
+let database: DatabaseHandler;
+let transport: LoopbackTransport;
+let scheduler: Scheduler;
+
+beforeEach(async () => {
+  database = new DatabaseHandler({ path: ":memory:" });
+  transport = new LoopbackTransport({
+    responder: (command) => ({ replyTo: command.id, ok: true }),
+  });
+  const busManager = new BusManager(transport);
+  await busManager.init();
+  await transport.init();
+  scheduler = new Scheduler(database, busManager);
+});
+
+afterEach(() => {
+  scheduler.stop();
+  database.close();
+});
+
+test("rejects interval fields that are not numbers", () => {
+  const base = { actuator: "pump" as const, kind: "interval" as const };
+  assert.throws(
+    () => scheduler.create({ ...base, everyMs: "60000" as any, onMs: 1000 }),
+    /positive everyMs/
+  );
+  assert.throws(
+    () => scheduler.create({ ...base, everyMs: 60000, onMs: "1000" as any }),
+    /0 < onMs < everyMs/
+  );
+  assert.throws(
+    () => scheduler.create({ ...base, everyMs: 1000, onMs: 1000 }),
+    /0 < onMs < everyMs/
+  );
+  assert.throws(
+    () =>
+      scheduler.create({
+        ...base,
+        everyMs: 2000,
+        onMs: 1000,
+        anchor: "x" as any,
+      }),
+    /anchor must be a timestamp/
+  );
+});
+
+test("rejects a cron duration given as a string", () => {
+  assert.throws(
+    () =>
+      scheduler.create({
+        actuator: "light",
+        kind: "cron",
+        cron: "0 6 * * *",
+        durationMs: "60000" as any,
+      }),
+    /durationMs must be between/
+  );
+});
+
+test("interval schedules are on for onMs of every everyMs from the anchor", () => {
+  const schedule = scheduler.create({
+    actuator: "pump",
+    kind: "interval",
+    everyMs: 10_000,
+    onMs: 2_000,
+    anchor: 1_000_000,
+  });
+  assert.equal(scheduler.isActive(schedule, 1_000_500), true);
+  assert.equal(scheduler.isActive(schedule, 1_003_000), false);
+  assert.equal(scheduler.isActive(schedule, 1_011_999), true);
+  assert.equal(scheduler.isActive(schedule, 999_000), false);
+});
+
+test("switches the actuator when a schedule becomes active", async () => {
+  scheduler.create({
+    actuator: "fan",
+    kind: "interval",
+    everyMs: 60_000,
+    onMs: 30_000,
+    anchor: Date.now(),
+  });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  const sent = transport.sent.find(
+    (command) => command.cmd === "manual_override"
+  );
+  assert.ok(sent);
+  assert.equal((sent as any).actuator, "fan");
+  assert.equal((sent as any).value, true);
+});
+
+test("keeps the same actuator on different nodes apart", async () => {
+  const now = Date.now();
+  const interval = { kind: "interval" as const, everyMs: 60_000, onMs: 30_000 };
+  scheduler.create({
+    actuator: "fan",
+    node: "node-a",
+    anchor: now,
+    ...interval,
+  });
+  scheduler.create({
+    actuator: "fan",
+    node: "node-b",
+    anchor: now - 40_000,
+    ...interval,
+  });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  const overrides = transport.sent
+    .filter((command) => command.cmd === "manual_override")
+    .map((command: any) => [command.node, command.value])
+    .sort();
+  assert.deepEqual(overrides, [
+    ["node-a", true],
+    ["node-b", false],
+  ]);
+});
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { ConfigSection, ConfigStore, GhwConfig } from "../config";
+import { SensorHandler } from "../sensorHandler";
+import type { SensorDetails } from "../types";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "ghw-sensors-"));
+const handlers: SensorHandler[] = [];
+
+after(() => {
+  for (const handler of handlers) handler.stopAllPolling();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+const probe = (id: string, value = 1) => ({
+  id,
+  type: "soil_moisture" as const,
+  pollingTime: 60_000,
+  pollingWaitTime: 60_000,
+  log: false,
+  readValue: async () => value,
+});
+
+const createHandler = () => {
+  const handler = new SensorHandler();
+  handlers.push(handler);
+  return handler;
+};
+
+// every sensor of the plugin reports `value`; `failInit` makes that one's
+// init throw and destroy calls land in globalThis.ghwTornDown
+const writePlugin = (
+  file: string,
+  ids: string[],
+  value: number,
+  failInit?: string
+) =>
+  fs.writeFileSync(
+    file,
+    `module.exports = ${JSON.stringify(ids)}.map((id) => ({
+  id,
+  type: "soil_moisture",
+  pollingTime: 60000,
+  pollingWaitTime: 60000,
+  log: false,
+  async init() {
+    if (id === ${JSON.stringify(failInit)}) throw new Error("init failed");
+  },
+  async readValue() { return ${value}; },
+  destroy() { (globalThis.ghwTornDown ??= []).push(id + "@${value}"); },
+}));
+`
+  );
+
+const tornDown = () =>
+  ((globalThis as Record<string, unknown>).ghwTornDown as string[]) ?? [];
+
+test("read_sensor takes a reading outside the schedule", async () => {
+  const handler = createHandler();
+  const sensor = probe("soil", 42);
+  await handler.addSensor(sensor);
+  const readings: unknown[] = [];
+  handler.on("reading", (reading) => readings.push(reading));
+
+  const reading = await handler.readNow("soil");
+  assert.equal(reading.value, 42);
+  assert.equal(handler.getSensor("soil")?.latest, reading);
+  assert.equal(readings.length, 1);
+  await assert.rejects(handler.readNow("nope"), /Unknown sensor nope/);
+});
+
+test("pause, resume and a new interval apply to a polling sensor", async () => {
+  const handler = createHandler();
+  await handler.addSensor(probe("soil"));
+  handler.startPolling();
+  assert.equal(handler.getSensor("soil")?.polling, "active");
+
+  await handler.applySettings({ soil: { paused: true } });
+  assert.equal(handler.getSensor("soil")?.polling, "paused");
+
+  await handler.applySettings({ soil: { pollingTime: 5_000 } });
+  assert.equal(handler.getSensor("soil")?.polling, "active");
+  assert.equal(handler.getSensor("soil")?.pollingTime, 5_000);
+
+  // dropping the override brings back what the sensor declared
+  await handler.applySettings({});
+  assert.equal(handler.getSensor("soil")?.pollingTime, 60_000);
+});
+
+test("sensor settings round-trip through the config file", async () => {
+  const configPath = path.join(root, "config.json");
+  fs.writeFileSync(configPath, "{}\n");
+  const store = new ConfigStore(configPath, {});
+  const handler = createHandler();
+  await handler.addSensor(probe("soil"));
+  handler.startPolling();
+  store.on("reloaded", (next: GhwConfig, sections: ConfigSection[]) => {
+    if (sections.includes("sensors")) handler.applySettings(next.sensors);
+  });
+  const changed: SensorDetails[] = [];
+  handler.on("changed", (details: SensorDetails) => changed.push(details));
+
+  store.updateSensor("soil", { paused: true, pollingTime: 2_000 });
+  assert.deepEqual(
+    JSON.parse(fs.readFileSync(configPath, "utf8")).sensors.soil,
+    { paused: true, pollingTime: 2_000 }
+  );
+  assert.equal(handler.getSensor("soil")?.polling, "paused");
+  assert.equal(changed.at(-1)?.pollingTime, 2_000);
+
+  store.updateSensor("soil", { paused: null, pollingTime: null });
+  assert.equal(
+    JSON.parse(fs.readFileSync(configPath, "utf8")).sensors.soil,
+    undefined
+  );
+  assert.equal(handler.getSensor("soil")?.polling, "active");
+  assert.equal(handler.getSensor("soil")?.pollingTime, 60_000);
+
+  assert.throws(() => store.updateSensor("soil", { pollingTime: 5 }));
+  assert.equal(store.get().sensors.soil, undefined);
+});
+
+test("a reload swaps in the new code and announces dropped sensors", async () => {
+  const dir = path.join(root, "swap");
+  fs.mkdirSync(dir);
+  writePlugin(path.join(dir, "beds.js"), ["bed1", "bed2"], 1);
+  const handler = createHandler();
+  await handler.loadSensors({ dirs: [dir] });
+  assert.equal((await handler.readNow("bed2")).value, 1);
+
+  const removed: unknown[] = [];
+  handler.on("removed", (event) => removed.push(event));
+  writePlugin(path.join(dir, "beds.js"), ["bed1"], 2);
+  const report = await handler.reloadPlugin("bed2");
+
+  assert.deepEqual(report.sensors, ["bed1"]);
+  assert.equal((await handler.readNow("bed1")).value, 2);
+  assert.equal(handler.getSensor("bed2"), undefined);
+  assert.deepEqual(removed, [{ id: "bed2" }]);
+  assert.ok(tornDown().includes("bed1@1"));
+  assert.ok(tornDown().includes("bed2@1"));
+  assert.deepEqual(
+    handler.getPluginReports().find((r) => r.source === report.source)?.sensors,
+    ["bed1"]
+  );
+});
+
+test("a reload that fails to initialize keeps the old sensors", async () => {
+  const dir = path.join(root, "broken");
+  fs.mkdirSync(dir);
+  writePlugin(path.join(dir, "beds.js"), ["bed3", "bed4"], 3);
+  const handler = createHandler();
+  await handler.loadSensors({ dirs: [dir] });
+
+  writePlugin(path.join(dir, "beds.js"), ["bed3", "bed4"], 4, "bed4");
+  await assert.rejects(handler.reloadPlugin("bed3"), /init failed/);
+
+  assert.equal((await handler.readNow("bed3")).value, 3);
+  assert.equal((await handler.readNow("bed4")).value, 3);
+  // the fresh bed3 was initialized before bed4 failed and is torn down again
+  assert.ok(tornDown().includes("bed3@4"));
+  assert.ok(!tornDown().includes("bed3@3"));
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { SensorHandler } from "../sensorHandler";
+import { findPluginFiles, instantiatePlugin } from "../sensorPlugins";
+
+const sensorSource = (id: string, value = 21) => `
+class Probe {
+  id = ${JSON.stringify(id)};
+  type = "soil_moisture";
+  pollingTime = 60000;
+  pollingWaitTime = 0;
+  log = false;
+  async readValue() { return ${value}; }
+}
+module.exports = Probe;
+`;
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "ghw-plugins-"));
+const pluginDir = path.join(root, "plugins");
+const packageDir = path.join(root, "node_modules", "ghw-sensor-probe");
+fs.mkdirSync(pluginDir);
+fs.mkdirSync(packageDir, { recursive: true });
+fs.writeFileSync(path.join(pluginDir, "good.js"), sensorSource("goodProbe"));
+fs.writeFileSync(
+  path.join(pluginDir, "broken.js"),
+  'throw new Error("probe wiring missing");\n'
+);
+fs.writeFileSync(path.join(pluginDir, "notes.txt"), "not a plugin\n");
+fs.writeFileSync(path.join(pluginDir, "types.d.ts"), "export {};\n");
+fs.writeFileSync(
+  path.join(packageDir, "package.json"),
+  JSON.stringify({ name: "ghw-sensor-probe", main: "probe.js" })
+);
+fs.writeFileSync(path.join(packageDir, "probe.js"), sensorSource("pkgProbe"));
+
+const handlers: SensorHandler[] = [];
+
+after(() => {
+  for (const handler of handlers) handler.stopAllPolling();
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+const load = async (settings = {}) => {
+  const handler = new SensorHandler();
+  handlers.push(handler);
+  await handler.applySettings(settings);
+  const reports = await handler.loadSensors({
+    dirs: [pluginDir],
+    packages: ["ghw-sensor-probe", "ghw-sensor-missing"],
+    searchPaths: [root],
+  });
+  const report = (source: string) =>
+    reports.find((r) => r.source === source || r.source.endsWith(source));
+  return { handler, reports, report };
+};
+
+test("finds script modules and skips declarations and other files", () => {
+  assert.deepEqual(
+    findPluginFiles(pluginDir).map((file) => path.basename(file)),
+    ["broken.js", "good.js"]
+  );
+});
+
+test("accepts a class, an instance, a list or a nested default", () => {
+  class Probe {
+    id = "probe";
+    async readValue() {
+      return 1;
+    }
+  }
+  const instance = new Probe();
+  assert.equal(instantiatePlugin(Probe)[0].id, "probe");
+  assert.equal(instantiatePlugin(instance)[0], instance);
+  assert.equal(instantiatePlugin([Probe, instance]).length, 2);
+  assert.equal(
+    instantiatePlugin({ default: { default: Probe } })[0].id,
+    "probe"
+  );
+  assert.throws(() => instantiatePlugin({ id: 4 }), /The export is not a/);
+  assert.throws(() => instantiatePlugin([Probe, null]), /Export 1 is not a/);
+});
+
+test("reports each plugin on its own and loads the rest", async () => {
+  const { handler, report } = await load();
+
+  assert.equal(report("broken.js")?.status, "failed");
+  assert.match(report("broken.js")?.error ?? "", /probe wiring missing/);
+  assert.deepEqual(report("good.js")?.sensors, ["goodProbe"]);
+  assert.deepEqual(report("ghw-sensor-probe")?.sensors, ["pkgProbe"]);
+  assert.equal(report("ghw-sensor-missing")?.status, "failed");
+  assert.match(report("ghw-sensor-missing")?.error ?? "", /Cannot find/);
+
+  assert.equal(
+    handler.getSensor("goodProbe")?.source,
+    report("good.js")?.source
+  );
+  assert.equal(handler.getSensor("pkgProbe")?.source, "ghw-sensor-probe");
+  assert.equal((await handler.readNow("goodProbe")).value, 21);
+});
+
+test("disabling and enabling a sensor takes effect without a restart", async () => {
+  const { handler, report } = await load({ pkgProbe: { enabled: false } });
+  assert.equal(handler.getSensor("pkgProbe"), undefined);
+  assert.equal(report("ghw-sensor-probe")?.status, "disabled");
+
+  const removed: unknown[] = [];
+  const changed: string[] = [];
+  handler.on("removed", (event) => removed.push(event));
+  handler.on("changed", (details) => changed.push(details.id));
+
+  await handler.applySettings({ goodProbe: { enabled: false } });
+  assert.equal(handler.getSensor("goodProbe"), undefined);
+  assert.deepEqual(removed, [{ id: "goodProbe" }]);
+  assert.deepEqual(report("good.js")?.disabled, ["goodProbe"]);
+
+  assert.equal(handler.getSensor("pkgProbe")?.id, "pkgProbe");
+  assert.ok(changed.includes("pkgProbe"));
+  assert.equal(report("ghw-sensor-probe")?.status, "loaded");
+
+  await handler.applySettings({});
+  assert.equal(handler.getSensor("goodProbe")?.id, "goodProbe");
+  assert.equal((await handler.readNow("goodProbe")).value, 21);
+});
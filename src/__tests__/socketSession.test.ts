@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SocketSession } from "../socketSession";
+
+const connect = () => {
+  const lines: unknown[] = [];
+  let open = true;
+  const session = new SocketSession(
+    (line) => lines.push(JSON.parse(line)),
+    () => open
+  );
+  return { session, lines, close: () => (open = false) };
+};
+
+test("negotiates the highest protocol both sides speak", () => {
+  const { session } = connect();
+  assert.equal(session.protocol, 1);
+  const reply = session.handshake({ versions: [1, 2, 9], client: "panel" });
+  assert.equal(reply.protocol, 2);
+  assert.equal(session.protocol, 2);
+  assert.equal(session.clientName, "panel");
+  assert.throws(() => session.handshake({ versions: [9] }), /Unsupported/);
+});
+
+test("filters events and sensors until unsubscribed", () => {
+  const { session, lines } = connect();
+  session.subscribe({ events: ["sensor_update", "warning_issued"] });
+  session.subscribe({ sensorIds: ["air"] });
+
+  session.sendEvent("sensor_update", { id: "air", value: 20 });
+  session.sendEvent("sensor_update", { id: "soil", value: 40 });
+  session.sendEvent("warning_issued", { sensorId: "soil" });
+  session.sendEvent("status_update", {});
+  // events that name no sensor pass the sensor filter
+  session.sendEvent("warning_issued", { type: "bus" });
+  assert.deepEqual(
+    lines.map((line) => (line as { data: unknown }).data),
+    [{ id: "air", value: 20 }, { type: "bus" }]
+  );
+
+  session.unsubscribe({ events: ["warning_issued"] });
+  assert.deepEqual(session.getSubscription(), {
+    events: ["sensor_update"],
+    sensorIds: ["air"],
+  });
+  session.unsubscribe({});
+  assert.deepEqual(session.getSubscription(), {
+    events: null,
+    sensorIds: null,
+  });
+  assert.equal(session.wants("status_update", {}), true);
+});
+
+test("rejects unknown events and malformed lists", () => {
+  const { session } = connect();
+  assert.throws(
+    () => session.subscribe({ events: ["sensor_update", "gossip"] }),
+    /Unknown event types: gossip/
+  );
+  assert.throws(
+    () => session.subscribe({ sensorIds: [1] }),
+    /sensorIds must be a list/
+  );
+});
+
+test("correlates responses by id on protocol 2, legacy events on 1", () => {
+  const legacy = connect();
+  legacy.session.respond({ cmd: "ping", id: "a" }, { pong: true });
+  legacy.session.fail(
+    { cmd: "ping", id: "b" },
+    new Error("busy"),
+    "rs485_error"
+  );
+  assert.deepEqual(legacy.lines, [
+    { event: "ack", data: { cmd: "ping", id: "a", reply: { pong: true } } },
+    { event: "rs485_error", data: { cmd: "ping", id: "b", message: "busy" } },
+  ]);
+
+  const current = connect();
+  current.session.handshake({ versions: [2] });
+  current.session.respond({ cmd: "ping", id: "a" }, { pong: true });
+  current.session.fail(
+    { cmd: "ping", id: "b" },
+    new Error("busy"),
+    "rs485_error"
+  );
+  assert.deepEqual(current.lines, [
+    { event: "response", id: "a", cmd: "ping", ok: true, data: { pong: true } },
+    {
+      event: "response",
+      id: "b",
+      cmd: "ping",
+      ok: false,
+      error: { message: "busy" },
+    },
+  ]);
+});
+
+test("writes nothing once the connection closed", () => {
+  const { session, lines, close } = connect();
+  close();
+  session.sendEvent("status_update", {});
+  session.respond({ cmd: "ping" }, {});
+  assert.deepEqual(lines, []);
+});
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { test } from "node:test";
+import { DatabaseHandler } from "../database/database";
+import type { SensorHandler } from "../sensorHandler";
+import { ThresholdClearedEvent, ThresholdMonitor } from "../thresholdMonitor";
+import type { IAlert, SensorReading, ThresholdRule } from "../types";
+import { WarningHandler } from "../warningHandler";
+
+const OVERTEMP: ThresholdRule = {
+  id: "air-overtemp",
+  alertType: "overtemp",
+  severity: "high",
+  sensorType: "air_temperature",
+  excludeSensorIds: ["cpuTemp"],
+  direction: "above",
+  threshold: 35,
+  hysteresis: 2,
+  minDurationMs: 30_000,
+};
+
+const START = Date.parse("2026-01-01T12:00:00Z");
+
+const reading = (
+  value: number,
+  atMs: number,
+  id = "airTemp"
+): SensorReading => ({
+  id,
+  type: "air_temperature",
+  value,
+  timestamp: new Date(START + atMs).toISOString(),
+});
+
+const setup = (warningHandler = new WarningHandler()) => {
+  const sensors = new EventEmitter();
+  const monitor = new ThresholdMonitor(
+    sensors as unknown as SensorHandler,
+    warningHandler,
+    { rules: [OVERTEMP] }
+  );
+  monitor.start();
+  const cleared: ThresholdClearedEvent[] = [];
+  // wired the way the worker wires them
+  monitor.on("cleared", (event: ThresholdClearedEvent) => {
+    cleared.push(event);
+    warningHandler.resolveMatching({
+      type: event.rule.alertType,
+      location: event.location,
+      sensorId: event.sensorId,
+    });
+  });
+  warningHandler.on("updated", (alert: IAlert) => {
+    if (alert.state === "resolved" && alert.sensorId) {
+      monitor.reset(alert.sensorId, alert.type);
+    }
+  });
+  const feed = (value: number, atMs: number, id?: string) =>
+    sensors.emit("reading", reading(value, atMs, id));
+  return { monitor, warningHandler, cleared, feed };
+};
+
+test("raises once the breach lasts for the minimum duration", () => {
+  const { warningHandler, feed } = setup();
+  feed(36, 0);
+  feed(37, 20_000);
+  assert.equal(warningHandler.getWarnings().length, 0);
+
+  feed(37, 30_000);
+  const [alert] = warningHandler.getWarnings();
+  assert.equal(alert.type, "overtemp");
+  assert.equal(alert.sensorId, "airTemp");
+  assert.equal(alert.location, "greenhouse-1");
+  assert.equal(alert.currentValue, 37);
+});
+
+test("a dip below the threshold restarts the breach timer", () => {
+  const { warningHandler, feed } = setup();
+  feed(36, 0);
+  feed(34, 20_000);
+  feed(36, 25_000);
+  feed(36, 40_000);
+  assert.equal(warningHandler.getWarnings().length, 0);
+  feed(36, 55_000);
+  assert.equal(warningHandler.getWarnings().length, 1);
+});
+
+test("a lasting breach keeps a single alert", () => {
+  const { warningHandler, feed } = setup();
+  const issued: unknown[] = [];
+  warningHandler.on("warning", (alert) => issued.push(alert));
+  for (let at = 0; at <= 120_000; at += 10_000) feed(38, at);
+  assert.equal(warningHandler.getWarnings().length, 1);
+  assert.equal(issued.length, 1);
+});
+
+test("clears only once the value passes the hysteresis band", () => {
+  const { feed, cleared } = setup();
+  feed(36, 0);
+  feed(36, 30_000);
+  feed(34, 40_000);
+  assert.equal(cleared.length, 0);
+
+  feed(33, 50_000);
+  assert.equal(cleared.length, 1);
+  assert.equal(cleared[0].sensorId, "airTemp");
+  assert.equal(cleared[0].value, 33);
+});
+
+test("a manual resolve during a lasting breach raises a fresh alert", () => {
+  const { warningHandler, feed } = setup();
+  feed(36, 0);
+  feed(36, 30_000);
+  const [first] = warningHandler.getWarnings();
+
+  warningHandler.resolveWarning(first.id);
+  feed(36, 40_000);
+  assert.equal(warningHandler.getWarnings().length, 0);
+  feed(36, 70_000);
+  const [second] = warningHandler.getWarnings();
+  assert.ok(second);
+  assert.notEqual(second.id, first.id);
+});
+
+test("the cpu sensor stays off the greenhouse limits", () => {
+  const { warningHandler, feed } = setup();
+  feed(60, 0, "cpuTemp");
+  feed(60, 60_000, "cpuTemp");
+  assert.equal(warningHandler.getWarnings().length, 0);
+});
+
+test("an alert restored from the database clears on recovery", () => {
+  const database = new DatabaseHandler({ path: ":memory:" });
+  const before = new WarningHandler(database);
+  before.addWarning({
+    id: "persisted",
+    type: "overtemp",
+    location: "greenhouse-1",
+    severity: "high",
+    message: "airTemp reading 36 is above 35",
+    timestamp: START,
+    sensorId: "airTemp",
+  });
+
+  const { warningHandler, feed } = setup(new WarningHandler(database));
+  assert.equal(warningHandler.getWarnings()[0].id, "persisted");
+  feed(33, 0);
+  assert.equal(warningHandler.getWarnings().length, 0);
+  assert.equal(database.loadOpenAlerts().length, 0);
+  database.close();
+});
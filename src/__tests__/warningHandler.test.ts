@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DatabaseHandler } from "../database/database";
+import type { IAlert } from "../types";
+import { WarningHandler } from "../warningHandler";
+
+const alert = (overrides: Partial<IAlert> = {}): IAlert => ({
+  id: "alert-1",
+  type: "high_humidity",
+  location: "greenhouse-1",
+  severity: "medium",
+  message: "Humidity 92",
+  timestamp: 1_000,
+  sensorId: "humidity",
+  currentValue: 92,
+  ...overrides,
+});
+
+test("folds repeats of an open alert into the first one", () => {
+  const handler = new WarningHandler();
+  const issued: IAlert[] = [];
+  const updated: IAlert[] = [];
+  handler.on("warning", (a: IAlert) => issued.push(a));
+  handler.on("updated", (a: IAlert) => updated.push(a));
+
+  handler.issueWarning(handler.addWarning(alert()));
+  const repeat = handler.addWarning(
+    alert({ id: "alert-2", timestamp: 2_000, currentValue: 95 })
+  );
+  handler.issueWarning(repeat);
+
+  assert.equal(repeat.id, "alert-1");
+  assert.equal(repeat.occurrences, 2);
+  assert.equal(repeat.lastSeen, 2_000);
+  assert.equal(repeat.currentValue, 95);
+  assert.equal(handler.getWarnings().length, 1);
+  assert.equal(issued.length, 1);
+  assert.equal(updated.length, 1);
+});
+
+test("keeps alerts for other sensors apart", () => {
+  const handler = new WarningHandler();
+  handler.addWarning(alert());
+  handler.addWarning(alert({ id: "alert-2", sensorId: "humidity2" }));
+  assert.equal(handler.getWarnings().length, 2);
+});
+
+test("acknowledged alerts stay open until resolved", () => {
+  const handler = new WarningHandler();
+  handler.addWarning(alert());
+
+  const acked = handler.acknowledgeWarning("alert-1");
+  assert.equal(acked?.state, "acknowledged");
+  assert.ok(acked?.acknowledgedAt);
+  assert.equal(handler.getWarnings().length, 1);
+  assert.equal(handler.getActiveWarnings().length, 0);
+
+  const resolved = handler.resolveWarning("alert-1");
+  assert.equal(resolved?.state, "resolved");
+  assert.equal(handler.hasWarnings(), false);
+  assert.equal(handler.acknowledgeWarning("alert-1"), undefined);
+  assert.equal(handler.resolveWarning("missing"), undefined);
+});
+
+test("a repeat after a resolve opens a new alert", () => {
+  const handler = new WarningHandler();
+  handler.addWarning(alert());
+  handler.resolveMatching({
+    type: "high_humidity",
+    location: "greenhouse-1",
+    sensorId: "humidity",
+  });
+  const next = handler.addWarning(alert({ id: "alert-2" }));
+  assert.equal(next.id, "alert-2");
+  assert.equal(next.occurrences, 1);
+});
+
+test("restores open alerts from the database", () => {
+  const database = new DatabaseHandler({ path: ":memory:" });
+  const first = new WarningHandler(database);
+  first.addWarning(alert());
+  first.addWarning(alert({ id: "alert-2", sensorId: "humidity2" }));
+  first.acknowledgeWarning("alert-1");
+  first.resolveWarning("alert-2");
+
+  const restored = new WarningHandler(database);
+  const warnings = restored.getWarnings();
+  assert.equal(warnings.length, 1);
+  assert.equal(warnings[0].id, "alert-1");
+  assert.equal(warnings[0].state, "acknowledged");
+
+  // repeats after a restart still fold into the restored alert
+  const repeat = restored.addWarning(alert({ id: "alert-3" }));
+  assert.equal(repeat.id, "alert-1");
+  assert.equal(repeat.occurrences, 2);
+  database.close();
+});
@@ -0,0 +1,62 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import type http from "node:http";
+import type { SessionPermission } from "./socketSession";
+
+export type AccessTokens = Map<string, SessionPermission>;
+
+const PERMISSIONS: SessionPermission[] = ["read", "control"];
+
+const addToken = (tokens: AccessTokens, token: string, permission: unknown) => {
+  if (!token) throw new Error("Access tokens must not be empty");
+  if (!PERMISSIONS.includes(permission as SessionPermission)) {
+    throw new Error(
+      `Access token permission must be one of ${PERMISSIONS.join(", ")}`
+    );
+  }
+  tokens.set(token, permission as SessionPermission);
+};
+
+/** Reads `{ "<token>": "read" | "control" }` from a JSON file. */
+export const loadTokenFile = (path: string) => {
+  const raw = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${path} must map tokens to permissions`);
+  }
+  const tokens = new Map<string, SessionPermission>();
+  for (const [token, permission] of Object.entries(raw)) {
+    addToken(tokens, token, permission);
+  }
+  return tokens;
+};
+
+// browsers cannot set headers on a WebSocket, so they pass ?token= instead
+const requestToken = (req: http.IncomingMessage): string | undefined => {
+  const header = req.headers.authorization;
+  if (header) {
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    return match ? match[1] : undefined;
+  }
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return url.searchParams.get("token") ?? undefined;
+};
+
+/** Permission of the request's token, or undefined if it has none or a bad one. */
+export const authenticate = (
+  tokens: AccessTokens,
+  req: http.IncomingMessage
+): SessionPermission | undefined => {
+  const token = requestToken(req);
+  if (!token) return undefined;
+  const presented = Buffer.from(token);
+  for (const [candidate, permission] of tokens) {
+    const expected = Buffer.from(candidate);
+    if (
+      expected.length === presented.length &&
+      crypto.timingSafeEqual(expected, presented)
+    ) {
+      return permission;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,139 @@
+import { EventEmitter } from "node:events";
+import type { BusManager } from "./busManager";
+import type { DatabaseHandler } from "./database/database";
+import { ACTUATORS, Actuator, ActuatorState, Command } from "./types";
+
+const isActuator = (value: unknown): value is Actuator =>
+  ACTUATORS.includes(value as Actuator);
+
+const isStateValue = (value: unknown): value is boolean | number =>
+  typeof value === "boolean" ||
+  (typeof value === "number" && Number.isFinite(value));
+
+/**
+ * Authoritative view of what every actuator is doing, fed by acknowledged
+ * commands and by state reports the nodes send on their own.
+ */
+export class ActuatorStateTracker extends EventEmitter {
+  private readonly database: DatabaseHandler;
+  private states = new Map<string, ActuatorState>();
+
+  constructor(database: DatabaseHandler, busManager: BusManager) {
+    super();
+    this.database = database;
+
+    try {
+      for (const state of this.database.loadLatestActuatorStates()) {
+        this.states.set(this.key(state.actuator, state.node), state);
+      }
+    } catch (err) {
+      console.error("[Actuators] Failed to load persisted states", err);
+    }
+
+    busManager.on("reply", (packet: Command, reply: unknown) =>
+      this.handleCommandReply(packet, reply)
+    );
+  }
+
+  public getStates(): ActuatorState[] {
+    return Array.from(this.states.values());
+  }
+
+  public handleCommandReply(packet: Command, reply: unknown) {
+    if (packet.cmd !== "manual_override" || !isActuator(packet.actuator)) {
+      // other replies can still carry state reports
+      for (const item of Array.isArray(reply) ? reply : [reply]) {
+        if (!item || typeof item !== "object") continue;
+        this.handleRemotePayload(
+          packet.node ? { from: packet.node, ...item } : item
+        );
+      }
+      return;
+    }
+    const data =
+      reply && typeof reply === "object"
+        ? (reply as Record<string, unknown>)
+        : {};
+    if (data.ok === false || data.error) return;
+
+    // prefer what the node says it did over what we asked for
+    const value = isStateValue(data.state)
+      ? data.state
+      : isStateValue(data.value)
+      ? data.value
+      : packet.value;
+    if (!isStateValue(value)) return;
+
+    // broadcast commands are keyed by whichever node answered, like reports
+    const node =
+      packet.node ??
+      (typeof data.node === "string"
+        ? data.node
+        : typeof data.from === "string"
+        ? data.from
+        : undefined);
+    this.update(packet.actuator, value, "command", node);
+  }
+
+  /**
+   * Accepts `{ actuator, state }`, `{ actuator, value }` and maps such as
+   * `{ actuators: { fan: true } }` or `{ state: { fan: true } }`.
+   */
+  public handleRemotePayload(payload: unknown) {
+    if (!payload || typeof payload !== "object") return;
+    const data = payload as Record<string, unknown>;
+    const node =
+      typeof data.node === "string"
+        ? data.node
+        : typeof data.from === "string"
+        ? data.from
+        : undefined;
+
+    if (isActuator(data.actuator)) {
+      const value = isStateValue(data.state) ? data.state : data.value;
+      if (isStateValue(value)) {
+        this.update(data.actuator, value, "report", node);
+      }
+      return;
+    }
+
+    const map = data.actuators ?? data.state;
+    if (!map || typeof map !== "object") return;
+    for (const [actuator, value] of Object.entries(map)) {
+      if (isActuator(actuator) && isStateValue(value)) {
+        this.update(actuator, value, "report", node);
+      }
+    }
+  }
+
+  private update(
+    actuator: Actuator,
+    value: boolean | number,
+    source: ActuatorState["source"],
+    node?: string
+  ) {
+    const key = this.key(actuator, node);
+    // nodes repeat their state in every report; only record real changes
+    if (this.states.get(key)?.value === value) return;
+
+    const state: ActuatorState = {
+      actuator,
+      value,
+      source,
+      updatedAt: Date.now(),
+    };
+    if (node) state.node = node;
+    this.states.set(key, state);
+
+    try {
+      this.database.saveActuatorState(state);
+    } catch (err) {
+      console.error(`[Actuators] Failed to persist ${actuator} state`, err);
+    }
+    this.emit("state", state);
+  }
+
+  private key(actuator: Actuator, node?: string) {
+    return `${node ?? ""}:${actuator}`;
+  }
+}
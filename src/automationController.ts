@@ -0,0 +1,300 @@
+import { EventEmitter } from "node:events";
+import type { BusManager } from "./busManager";
+import type { SensorHandler } from "./sensorHandler";
+import type {
+  Actuator,
+  AutomationDecision,
+  AutomationRule,
+  AutomationState,
+  SensorReading,
+} from "./types";
+
+interface AutomationControllerOptions {
+  rules?: AutomationRule[];
+  overrideDurationMs?: number;
+  // readings older than this are ignored when deciding
+  staleAfterMs?: number;
+  requestTimeoutMs?: number;
+}
+
+export const DEFAULT_AUTOMATION_RULES: AutomationRule[] = [
+  {
+    actuator: "fan",
+    sensorType: "air_temperature",
+    excludeSensorIds: ["cpuTemp"],
+    direction: "above",
+    onAt: 28,
+    offAt: 25,
+  },
+  {
+    actuator: "climate",
+    sensorType: "air_temperature",
+    excludeSensorIds: ["cpuTemp"],
+    direction: "below",
+    onAt: 12,
+    offAt: 15,
+  },
+  {
+    actuator: "pump",
+    sensorType: "soil_moisture",
+    direction: "below",
+    onAt: 30,
+    offAt: 40,
+  },
+];
+
+export class AutomationController extends EventEmitter {
+  private rules: AutomationRule[];
+  private readonly sensorHandler: SensorHandler;
+  private readonly busManager: BusManager;
+  private overrideDurationMs: number;
+  private readonly staleAfterMs: number;
+  private readonly requestTimeoutMs: number;
+  private states = new Map<Actuator, AutomationState>();
+  private overrideTimers = new Map<Actuator, NodeJS.Timeout>();
+  private pending = new Set<Actuator>();
+  private latest = new Map<string, SensorReading>();
+  private attached = false;
+
+  constructor(
+    sensorHandler: SensorHandler,
+    busManager: BusManager,
+    options: AutomationControllerOptions = {}
+  ) {
+    super();
+    this.sensorHandler = sensorHandler;
+    this.busManager = busManager;
+    this.rules = options.rules ?? DEFAULT_AUTOMATION_RULES;
+    this.overrideDurationMs = options.overrideDurationMs ?? 30 * 60 * 1000;
+    this.staleAfterMs = options.staleAfterMs ?? 5 * 60 * 1000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 1000;
+    this.handleReading = this.handleReading.bind(this);
+  }
+
+  public start() {
+    if (this.attached) return;
+    this.sensorHandler.on("reading", this.handleReading);
+    this.attached = true;
+  }
+
+  public stop() {
+    if (!this.attached) return;
+    this.sensorHandler.off("reading", this.handleReading);
+    for (const timer of this.overrideTimers.values()) clearTimeout(timer);
+    this.overrideTimers.clear();
+    this.attached = false;
+  }
+
+  /** Actuators left without a rule fall back to manual control. */
+  public setRules(rules: AutomationRule[]) {
+    this.rules = rules;
+    for (const [actuator, state] of this.states) {
+      if (state.mode === "manual") continue;
+      if (this.ruleFor(actuator)) {
+        this.evaluate(actuator);
+        continue;
+      }
+      this.clearOverrideTimer(actuator);
+      state.mode = "manual";
+      state.overrideUntil = undefined;
+      this.emitMode(actuator);
+    }
+  }
+
+  /** Applies to overrides registered from now on. */
+  public setOverrideDuration(durationMs: number) {
+    this.overrideDurationMs = durationMs;
+  }
+
+  public getStates(): AutomationState[] {
+    const actuators = new Set<Actuator>(this.rules.map((r) => r.actuator));
+    for (const actuator of this.states.keys()) actuators.add(actuator);
+    return Array.from(actuators, (actuator) => this.getState(actuator));
+  }
+
+  public getState(actuator: Actuator): AutomationState {
+    return { ...(this.states.get(actuator) ?? { actuator, mode: "manual" }) };
+  }
+
+  public hasRule(actuator: Actuator): boolean {
+    return Boolean(this.ruleFor(actuator));
+  }
+
+  public setAuto(actuator: Actuator, enabled: boolean): AutomationState {
+    if (enabled && !this.ruleFor(actuator)) {
+      throw new Error(`No automation rule configured for ${actuator}`);
+    }
+
+    this.clearOverrideTimer(actuator);
+    const state = this.mutableState(actuator);
+    state.mode = enabled ? "auto" : "manual";
+    state.overrideUntil = undefined;
+    this.emitMode(actuator);
+
+    if (enabled) this.evaluate(actuator);
+    return this.getState(actuator);
+  }
+
+  /**
+   * Called after a client drove the actuator by hand. Automatic control of
+   * that actuator pauses for the override period, then resumes.
+   */
+  public registerManualOverride(
+    actuator: Actuator,
+    value?: boolean,
+    durationMs = this.overrideDurationMs
+  ) {
+    const state = this.mutableState(actuator);
+    if (typeof value === "boolean") state.output = value;
+    if (state.mode === "manual") return;
+
+    this.clearOverrideTimer(actuator);
+    state.mode = "override";
+    state.overrideUntil = Date.now() + durationMs;
+    this.overrideTimers.set(
+      actuator,
+      setTimeout(() => {
+        this.overrideTimers.delete(actuator);
+        const current = this.mutableState(actuator);
+        if (current.mode !== "override") return;
+        current.mode = "auto";
+        current.overrideUntil = undefined;
+        this.emitMode(actuator);
+        this.evaluate(actuator);
+      }, durationMs)
+    );
+    this.emitMode(actuator);
+  }
+
+  private handleReading(reading: SensorReading) {
+    if (typeof reading.value !== "number") return;
+    this.latest.set(reading.id, reading);
+
+    for (const rule of this.rules) {
+      if (this.matches(rule, reading)) this.evaluate(rule.actuator);
+    }
+  }
+
+  private matches(rule: AutomationRule, reading: SensorReading): boolean {
+    if (rule.sensorId) return rule.sensorId === reading.id;
+    if (rule.excludeSensorIds?.includes(reading.id)) return false;
+    return !!rule.sensorType && rule.sensorType === reading.type;
+  }
+
+  private ruleFor(actuator: Actuator): AutomationRule | undefined {
+    return this.rules.find((rule) => rule.actuator === actuator);
+  }
+
+  // With several matching sensors the worst case decides: the highest value
+  // for "above" rules, the lowest for "below" rules.
+  private currentValue(rule: AutomationRule): number | undefined {
+    const now = Date.now();
+    const values: number[] = [];
+    for (const reading of this.latest.values()) {
+      if (!this.matches(rule, reading)) continue;
+      const age = now - (Date.parse(reading.timestamp) || 0);
+      if (age > this.staleAfterMs) continue;
+      values.push(reading.value as number);
+    }
+    if (!values.length) return undefined;
+    return rule.direction === "above"
+      ? Math.max(...values)
+      : Math.min(...values);
+  }
+
+  private evaluate(actuator: Actuator) {
+    const state = this.states.get(actuator);
+    const rule = this.ruleFor(actuator);
+    if (!state || state.mode !== "auto" || !rule) return;
+    if (this.pending.has(actuator)) return;
+
+    const value = this.currentValue(rule);
+    if (value === undefined) return;
+    state.lastValue = value;
+
+    const wantOn =
+      rule.direction === "above" ? value > rule.onAt : value < rule.onAt;
+    const wantOff =
+      rule.direction === "above" ? value <= rule.offAt : value >= rule.offAt;
+
+    let desired: boolean | undefined;
+    if (state.output !== true && wantOn) desired = true;
+    else if (state.output !== false && wantOff) desired = false;
+    if (desired === undefined) return;
+
+    const minInterval = rule.minSwitchIntervalMs ?? 30_000;
+    if (
+      state.lastSwitchAt &&
+      Date.now() - state.lastSwitchAt < minInterval &&
+      state.output !== undefined
+    ) {
+      return;
+    }
+
+    const reason = desired
+      ? `${value} ${rule.direction === "above" ? ">" : "<"} ${rule.onAt}`
+      : `${value} ${rule.direction === "above" ? "<=" : ">="} ${rule.offAt}`;
+    this.drive(rule, desired, value, reason);
+  }
+
+  private drive(
+    rule: AutomationRule,
+    value: boolean,
+    sensorValue: number,
+    reason: string
+  ) {
+    const { actuator } = rule;
+    this.pending.add(actuator);
+
+    const decision: AutomationDecision = {
+      actuator,
+      value,
+      reason,
+      sensorValue,
+      timestamp: Date.now(),
+    };
+
+    this.busManager
+      .request(
+        {
+          cmd: "manual_override",
+          actuator,
+          value,
+          ...(rule.node ? { node: rule.node } : {}),
+        },
+        { timeoutMs: this.requestTimeoutMs, priority: "high", retries: 2 }
+      )
+      .then(() => {
+        const state = this.mutableState(actuator);
+        state.output = value;
+        state.lastSwitchAt = Date.now();
+        this.emit("decision", decision);
+      })
+      .catch((err: Error) => {
+        decision.error = err.message;
+        console.error(`[Auto] Failed to switch ${actuator} ${value}`, err);
+        this.emit("decision", decision);
+      })
+      .finally(() => this.pending.delete(actuator));
+  }
+
+  private mutableState(actuator: Actuator): AutomationState {
+    let state = this.states.get(actuator);
+    if (!state) {
+      state = { actuator, mode: "manual" };
+      this.states.set(actuator, state);
+    }
+    return state;
+  }
+
+  private clearOverrideTimer(actuator: Actuator) {
+    const timer = this.overrideTimers.get(actuator);
+    if (!timer) return;
+    clearTimeout(timer);
+    this.overrideTimers.delete(actuator);
+  }
+
+  private emitMode(actuator: Actuator) {
+    this.emit("mode", this.getState(actuator));
+  }
+}
@@ -0,0 +1,248 @@
+// upper bounds in ms; anything slower lands in the implicit +Inf bucket
+export const LATENCY_BUCKETS_MS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+
+export interface Histogram {
+  // counts per upper bound, not cumulative; the last entry is +Inf
+  buckets: { le: number | "+Inf"; count: number }[];
+  count: number;
+  sumMs: number;
+  maxMs: number;
+}
+
+export interface ExchangeStats {
+  sent: number;
+  replies: number;
+  timeouts: number;
+  // replies that arrived after their request had already timed out
+  lateReplies: number;
+  errors: number;
+  latency: Histogram;
+  queueWait: Histogram;
+}
+
+export type FailureKind =
+  | "timeout"
+  | "error"
+  | "late_reply"
+  | "unknown_reply"
+  | "node_mismatch";
+
+export interface FailedExchange {
+  at: number;
+  kind: FailureKind;
+  id: string;
+  cmd?: string;
+  node?: string;
+  attempt?: number;
+  message: string;
+  request?: unknown;
+  reply?: unknown;
+}
+
+export interface BusDiagnosticsSnapshot {
+  since: number;
+  commands: Record<string, ExchangeStats>;
+  nodes: Record<string, ExchangeStats>;
+  unknownReplies: number;
+  recentFailures: FailedExchange[];
+}
+
+type Exchange = { id: string; cmd: string; node?: string; payload: unknown };
+
+// requests without a node are keyed like this in the per-node view
+const UNADDRESSED = "*";
+
+const createHistogram = (): Histogram => ({
+  buckets: [...LATENCY_BUCKETS_MS, "+Inf" as const].map((le) => ({
+    le,
+    count: 0,
+  })),
+  count: 0,
+  sumMs: 0,
+  maxMs: 0,
+});
+
+const observe = (histogram: Histogram, ms: number) => {
+  const bucket = histogram.buckets.find((b) => b.le === "+Inf" || ms <= b.le)!;
+  bucket.count += 1;
+  histogram.count += 1;
+  histogram.sumMs += ms;
+  histogram.maxMs = Math.max(histogram.maxMs, ms);
+};
+
+const createStats = (): ExchangeStats => ({
+  sent: 0,
+  replies: 0,
+  timeouts: 0,
+  lateReplies: 0,
+  errors: 0,
+  latency: createHistogram(),
+  queueWait: createHistogram(),
+});
+
+const cloneStats = (stats: ExchangeStats): ExchangeStats => ({
+  ...stats,
+  latency: {
+    ...stats.latency,
+    buckets: stats.latency.buckets.map((b) => ({ ...b })),
+  },
+  queueWait: {
+    ...stats.queueWait,
+    buckets: stats.queueWait.buckets.map((b) => ({ ...b })),
+  },
+});
+
+/**
+ * Per-command and per-node statistics for the bus manager, kept since the
+ * last reset. Timed-out request ids are remembered for a while so a reply
+ * that shows up later is counted as late rather than unknown.
+ */
+export class BusDiagnostics {
+  private readonly maxFailures: number;
+  private readonly lateReplyWindowMs: number;
+  private since = Date.now();
+  private commands = new Map<string, ExchangeStats>();
+  private nodes = new Map<string, ExchangeStats>();
+  private unknownReplies = 0;
+  private failures: FailedExchange[] = [];
+  private timedOut = new Map<string, Exchange & { at: number }>();
+
+  constructor(maxFailures = 20, lateReplyWindowMs = 60000) {
+    this.maxFailures = maxFailures;
+    this.lateReplyWindowMs = lateReplyWindowMs;
+  }
+
+  public recordSent(exchange: Exchange, queueWaitMs: number) {
+    for (const stats of this.statsFor(exchange)) {
+      stats.sent += 1;
+      observe(stats.queueWait, Math.max(0, queueWaitMs));
+    }
+  }
+
+  public recordReply(exchange: Exchange, latencyMs?: number) {
+    for (const stats of this.statsFor(exchange)) {
+      stats.replies += 1;
+      if (latencyMs !== undefined) observe(stats.latency, latencyMs);
+    }
+  }
+
+  public recordTimeout(exchange: Exchange, attempt: number, message: string) {
+    for (const stats of this.statsFor(exchange)) stats.timeouts += 1;
+    this.pruneTimedOut();
+    // re-inserted so the map stays ordered by time for pruning
+    this.timedOut.delete(exchange.id);
+    this.timedOut.set(exchange.id, { ...exchange, at: Date.now() });
+    this.addFailure({ kind: "timeout", exchange, attempt, message });
+  }
+
+  public recordError(exchange: Exchange, attempt: number, message: string) {
+    for (const stats of this.statsFor(exchange)) stats.errors += 1;
+    this.addFailure({ kind: "error", exchange, attempt, message });
+  }
+
+  public recordNodeMismatch(exchange: Exchange, reply: unknown, from: string) {
+    this.addFailure({
+      kind: "node_mismatch",
+      exchange,
+      message: `Reply came from ${from}`,
+      reply,
+    });
+  }
+
+  /**
+   * Files a reply that matched nothing in flight. Returns true when it
+   * belongs to a request that timed out earlier.
+   */
+  public recordUnmatchedReply(replyTo: string, reply: unknown): boolean {
+    this.pruneTimedOut();
+    const exchange = this.timedOut.get(replyTo);
+    if (!exchange) {
+      this.unknownReplies += 1;
+      this.addFailure({
+        kind: "unknown_reply",
+        exchange: { id: replyTo },
+        message: `No request with id ${replyTo}`,
+        reply,
+      });
+      return false;
+    }
+
+    const lateByMs = Date.now() - exchange.at;
+    for (const stats of this.statsFor(exchange)) stats.lateReplies += 1;
+    this.addFailure({
+      kind: "late_reply",
+      exchange,
+      message: `Reply arrived ${lateByMs}ms after the timeout`,
+      reply,
+    });
+    return true;
+  }
+
+  public snapshot(): BusDiagnosticsSnapshot {
+    const toRecord = (map: Map<string, ExchangeStats>) =>
+      Object.fromEntries(
+        Array.from(map, ([key, stats]) => [key, cloneStats(stats)])
+      );
+    return {
+      since: this.since,
+      commands: toRecord(this.commands),
+      nodes: toRecord(this.nodes),
+      unknownReplies: this.unknownReplies,
+      recentFailures: [...this.failures],
+    };
+  }
+
+  public reset() {
+    this.since = Date.now();
+    this.commands.clear();
+    this.nodes.clear();
+    this.unknownReplies = 0;
+    this.failures = [];
+    this.timedOut.clear();
+  }
+
+  private statsFor(exchange: Exchange): ExchangeStats[] {
+    const get = (map: Map<string, ExchangeStats>, key: string) => {
+      let stats = map.get(key);
+      if (!stats) {
+        stats = createStats();
+        map.set(key, stats);
+      }
+      return stats;
+    };
+    return [
+      get(this.commands, exchange.cmd),
+      get(this.nodes, exchange.node ?? UNADDRESSED),
+    ];
+  }
+
+  private addFailure(failure: {
+    kind: FailureKind;
+    exchange: Partial<Exchange> & { id: string };
+    message: string;
+    attempt?: number;
+    reply?: unknown;
+  }) {
+    const { exchange } = failure;
+    this.failures.push({
+      at: Date.now(),
+      kind: failure.kind,
+      id: exchange.id,
+      cmd: exchange.cmd,
+      node: exchange.node,
+      attempt: failure.attempt,
+      message: failure.message,
+      request: exchange.payload,
+      reply: failure.reply,
+    });
+    if (this.failures.length > this.maxFailures) this.failures.shift();
+  }
+
+  private pruneTimedOut() {
+    const cutoff = Date.now() - this.lateReplyWindowMs;
+    for (const [id, exchange] of this.timedOut) {
+      if (exchange.at >= cutoff) break;
+      this.timedOut.delete(id);
+    }
+  }
+}
@@ -1,34 +1,110 @@
-import { RS485Handler } from "./rs485Hanlder";
+import { EventEmitter } from "node:events";
+import { BusDiagnostics } from "./busDiagnostics";
+import { messageNodeId } from "./nodeRegistry";
+import type { BusTransport } from "./transports/busTransport";
 import type { Command } from "./types";
 
 type RequestPayload = Record<string, any> & { cmd: string; id?: string };
 
+export type BusPriority = "high" | "normal" | "low";
+
+const PRIORITY_RANK: Record<BusPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  priority?: BusPriority;
+  // extra attempts after the first; they reuse the packet id
+  retries?: number;
+  retryDelayMs?: number;
+  backoffFactor?: number;
+  maxRetryDelayMs?: number;
+  signal?: AbortSignal;
+  // queued requests still waiting after this are dropped
+  expiresAt?: number;
+}
+
 type PendingRequest = {
   id: string;
   payload: Command & RequestPayload;
   timeoutMs: number;
+  priority: BusPriority;
+  seq: number;
+  enqueuedAt: number;
+  sentAt?: number;
+  attempts: number;
+  retries: number;
+  retryDelayMs: number;
+  backoffFactor: number;
+  maxRetryDelayMs: number;
+  notBefore: number;
+  expiresAt?: number;
+  signal?: AbortSignal;
+  onAbort?: () => void;
   resolve: (value: unknown) => void;
   reject: (reason?: unknown) => void;
   timer?: NodeJS.Timeout;
+  // set for broadcasts: every reply within the window is kept
+  replies?: unknown[];
+  // set for exclusive exchanges: runs instead of sending the payload
+  task?: () => Promise<unknown>;
 };
 
+export interface BusStats {
+  requests: number;
+  // every attempt, including retries
+  sent: number;
+  replies: number;
+  failures: number;
+  timeouts: number;
+  retries: number;
+  // replies whose replyTo matched no request
+  idMismatches: number;
+  // replies from a different node than the request was addressed to
+  nodeMismatches: number;
+}
+
 interface BusManagerOptions {
   interRequestDelayMs?: number;
+  maxQueueSize?: number;
+  // failed exchanges kept for bus_stats
+  maxRecordedFailures?: number;
 }
 
-export class BusManager {
-  private readonly transport: RS485Handler;
+export class BusManager extends EventEmitter {
+  private readonly transport: BusTransport;
   private readonly interRequestDelayMs: number;
+  private readonly maxQueueSize: number;
   private initialized = false;
   private queue: PendingRequest[] = [];
   private current?: PendingRequest;
   private nextIdValue = 0;
+  private nextSeq = 0;
   private nextAvailableAt = 0;
   private queueTimer?: NodeJS.Timeout;
+  // messages that answered a request, so other listeners can skip them
+  private consumed = new WeakSet<object>();
+  public readonly diagnostics: BusDiagnostics;
+  private stats: BusStats = {
+    requests: 0,
+    sent: 0,
+    replies: 0,
+    failures: 0,
+    timeouts: 0,
+    retries: 0,
+    idMismatches: 0,
+    nodeMismatches: 0,
+  };
 
-  constructor(transport: RS485Handler, options: BusManagerOptions = {}) {
+  constructor(transport: BusTransport, options: BusManagerOptions = {}) {
+    super();
     this.transport = transport;
     this.interRequestDelayMs = Math.max(0, options.interRequestDelayMs ?? 10);
+    this.maxQueueSize = Math.max(1, options.maxQueueSize ?? 100);
+    this.diagnostics = new BusDiagnostics(options.maxRecordedFailures ?? 20);
     this.handleMessage = this.handleMessage.bind(this);
   }
 
@@ -38,7 +114,70 @@ export class BusManager {
     this.initialized = true;
   }
 
-  public request(payload: RequestPayload, timeoutMs = 500): Promise<unknown> {
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  public getStats(): BusStats {
+    return { ...this.stats };
+  }
+
+  /** Whether a transport message was taken as the reply to a request. */
+  public isReply(message: unknown): boolean {
+    return (
+      Boolean(message) &&
+      typeof message === "object" &&
+      this.consumed.has(message as object)
+    );
+  }
+
+  public request(
+    payload: RequestPayload,
+    options: number | RequestOptions = 500
+  ): Promise<unknown> {
+    return this.enqueue(
+      payload,
+      typeof options === "number" ? { timeoutMs: options } : options
+    );
+  }
+
+  /**
+   * Sends an unaddressed command and holds the bus for `windowMs`, collecting
+   * the reply of every node that answers.
+   */
+  public broadcast(
+    payload: RequestPayload,
+    windowMs = 1000,
+    options: Omit<RequestOptions, "timeoutMs" | "retries"> = {}
+  ): Promise<unknown[]> {
+    const { node: _node, ...unaddressed } = payload;
+    return this.enqueue(
+      unaddressed as RequestPayload,
+      { ...options, timeoutMs: windowMs },
+      []
+    ) as Promise<unknown[]>;
+  }
+
+  /**
+   * Holds the bus while `task` runs, so exchanges outside the JSON protocol
+   * (Modbus transactions) never overlap a node request. The task must settle
+   * on its own; it is not timed out or retried.
+   */
+  public exclusive<T>(
+    label: string,
+    task: () => Promise<T>,
+    options: Pick<RequestOptions, "priority" | "expiresAt"> = {}
+  ): Promise<T> {
+    return this.enqueue({ cmd: label }, options, undefined, task) as Promise<T>;
+  }
+
+  private enqueue(
+    payload: RequestPayload,
+    options: RequestOptions,
+    replies?: unknown[],
+    task?: () => Promise<unknown>
+  ): Promise<unknown> {
+    this.stats.requests += 1;
     const packetId = payload.id ?? this.nextRequestId();
     const packet: Command & RequestPayload = {
       ...payload,
@@ -46,60 +185,277 @@ export class BusManager {
     };
 
     return new Promise((resolve, reject) => {
-      this.queue.push({
+      if (options.signal?.aborted) {
+        reject(new Error(`RS485 request ${packetId} was cancelled`));
+        return;
+      }
+
+      const entry: PendingRequest = {
         id: packetId,
         payload: packet,
-        timeoutMs,
+        timeoutMs: options.timeoutMs ?? 500,
+        priority: options.priority ?? "normal",
+        seq: this.nextSeq++,
+        enqueuedAt: Date.now(),
+        attempts: 0,
+        retries: Math.max(0, options.retries ?? 0),
+        retryDelayMs: Math.max(0, options.retryDelayMs ?? 100),
+        backoffFactor: Math.max(1, options.backoffFactor ?? 2),
+        maxRetryDelayMs: options.maxRetryDelayMs ?? 5000,
+        notBefore: 0,
+        expiresAt: options.expiresAt,
+        signal: options.signal,
         resolve,
         reject,
-      });
+        replies,
+        task,
+      };
+
+      if (this.queue.length >= this.maxQueueSize && !this.evictFor(entry)) {
+        reject(
+          new Error(
+            `RS485 queue is full (${this.queue.length} requests), rejected ${packetId}`
+          )
+        );
+        return;
+      }
+
+      if (entry.signal) {
+        entry.onAbort = () => this.cancel(entry);
+        entry.signal.addEventListener("abort", entry.onAbort, { once: true });
+      }
+      this.queue.push(entry);
       this.processQueue();
     });
   }
 
+  // a full queue only makes room by dropping the newest lower-priority request
+  private evictFor(entry: PendingRequest): boolean {
+    let victim: PendingRequest | undefined;
+    for (const queued of this.queue) {
+      if (PRIORITY_RANK[queued.priority] <= PRIORITY_RANK[entry.priority]) {
+        continue;
+      }
+      if (
+        !victim ||
+        PRIORITY_RANK[queued.priority] > PRIORITY_RANK[victim.priority] ||
+        (queued.priority === victim.priority && queued.seq > victim.seq)
+      ) {
+        victim = queued;
+      }
+    }
+    if (!victim) return false;
+
+    this.removeQueued(victim);
+    this.settle(
+      victim,
+      new Error(
+        `RS485 request ${victim.id} was dropped for a ${entry.priority} priority request`
+      )
+    );
+    return true;
+  }
+
+  private cancel(entry: PendingRequest) {
+    const error = new Error(`RS485 request ${entry.id} was cancelled`);
+    if (this.current === entry) {
+      this.resolveCurrent(error, undefined);
+      return;
+    }
+    if (this.removeQueued(entry)) this.settle(entry, error);
+  }
+
+  private removeQueued(entry: PendingRequest): boolean {
+    const index = this.queue.indexOf(entry);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  // highest priority first, then oldest; waiting retries are skipped
+  private takeNext(now: number): PendingRequest | undefined {
+    let best: PendingRequest | undefined;
+    for (const entry of this.queue) {
+      if (entry.notBefore > now) continue;
+      if (
+        !best ||
+        PRIORITY_RANK[entry.priority] < PRIORITY_RANK[best.priority] ||
+        (entry.priority === best.priority && entry.seq < best.seq)
+      ) {
+        best = entry;
+      }
+    }
+    if (best) this.removeQueued(best);
+    return best;
+  }
+
+  private dropExpired(now: number) {
+    for (const entry of [...this.queue]) {
+      if (entry.expiresAt === undefined || entry.expiresAt > now) continue;
+      this.removeQueued(entry);
+      this.settle(
+        entry,
+        new Error(`RS485 request ${entry.id} expired before it was sent`)
+      );
+    }
+  }
+
+  private scheduleQueue(at: number) {
+    if (this.queueTimer) return;
+    this.queueTimer = setTimeout(() => {
+      this.queueTimer = undefined;
+      this.processQueue();
+    }, Math.max(0, at - Date.now()));
+  }
+
   private async processQueue(): Promise<void> {
     if (this.current) return;
     if (this.queueTimer) return;
 
     const now = Date.now();
     if (now < this.nextAvailableAt) {
-      this.queueTimer = setTimeout(() => {
-        this.queueTimer = undefined;
-        this.processQueue();
-      }, this.nextAvailableAt - now);
+      this.scheduleQueue(this.nextAvailableAt);
       return;
     }
 
-    const next = this.queue.shift();
-    if (!next) return;
+    this.dropExpired(now);
+    const next = this.takeNext(now);
+    if (!next) {
+      if (this.queue.length) {
+        this.scheduleQueue(Math.min(...this.queue.map((e) => e.notBefore)));
+      }
+      return;
+    }
 
     this.current = next;
+    // retries wait from when they became due, not from the first enqueue
+    this.diagnostics.recordSent(
+      this.exchange(next),
+      now - (next.attempts === 0 ? next.enqueuedAt : next.notBefore)
+    );
+    next.sentAt = now;
+    next.attempts += 1;
+    this.stats.sent += 1;
+    if (next.task) {
+      await this.runExclusive(next, next.task);
+      return;
+    }
     try {
       await this.transport.sendCommand(next.payload);
+      // cancelled while the frame was being written
+      if (this.current !== next) return;
       next.timer = setTimeout(() => this.handleTimeout(), next.timeoutMs);
     } catch (err) {
+      if (this.current !== next) return;
+      this.diagnostics.recordError(
+        this.exchange(next),
+        next.attempts,
+        (err as Error).message
+      );
+      this.resolveCurrent(err, undefined);
+    }
+  }
+
+  private async runExclusive(
+    entry: PendingRequest,
+    task: () => Promise<unknown>
+  ) {
+    try {
+      const result = await task();
+      if (this.current !== entry) return;
+      this.diagnostics.recordReply(
+        this.exchange(entry),
+        Date.now() - (entry.sentAt ?? Date.now())
+      );
+      this.resolveCurrent(undefined, result);
+    } catch (err) {
+      if (this.current !== entry) return;
+      this.diagnostics.recordError(
+        this.exchange(entry),
+        entry.attempts,
+        (err as Error).message
+      );
       this.resolveCurrent(err, undefined);
     }
   }
 
   private handleMessage(message: unknown) {
-    if (!this.current || !message || typeof message !== "object") return;
+    if (!message || typeof message !== "object") return;
     const msg = message as Record<string, unknown>;
+    // an exclusive exchange expects no JSON reply
+    const current = this.current?.task ? undefined : this.current;
+    // with nothing in flight only explicit replies count; unsolicited
+    // reports may carry an unrelated id
     const replyTo = this.normalizeId(
-      msg.replyTo ?? msg.id ?? msg.reply_to ?? msg.responseTo
+      current
+        ? msg.replyTo ?? msg.id ?? msg.reply_to ?? msg.responseTo
+        : msg.replyTo ?? msg.reply_to ?? msg.responseTo
     );
     if (!replyTo) return;
 
-    const expected = this.normalizeId(this.current.id);
-    if (replyTo !== expected) {
+    const expected = current ? this.normalizeId(current.id) : null;
+    if (!current || replyTo !== expected) {
+      // a slow reply to a request that is waiting to be retried still counts
+      const retrying = this.queue.find(
+        (entry) =>
+          entry.attempts > 0 &&
+          !entry.replies &&
+          this.normalizeId(entry.id) === replyTo
+      );
+      if (retrying) {
+        this.consumed.add(message);
+        this.diagnostics.recordUnmatchedReply(replyTo, message);
+        this.diagnostics.recordReply(this.exchange(retrying));
+        this.removeQueued(retrying);
+        this.settle(retrying, undefined, message);
+        return;
+      }
+      this.stats.idMismatches += 1;
+      const late = this.diagnostics.recordUnmatchedReply(replyTo, message);
       console.warn(
-        `[Bus] Received reply for id=${replyTo}, expected ${expected}`
+        `[Bus] ${late ? "Late reply" : "Received reply"} for id=${replyTo}, ` +
+          (expected ? `expected ${expected}` : "nothing in flight")
       );
       return;
     }
+
+    if (current.replies) {
+      this.consumed.add(message);
+      current.replies.push(message);
+      return;
+    }
+
+    const target = current.payload.node;
+    const source = messageNodeId(msg);
+    if (target && source && source !== target) {
+      this.stats.nodeMismatches += 1;
+      this.diagnostics.recordNodeMismatch(
+        this.exchange(current),
+        message,
+        source
+      );
+      console.warn(
+        `[Bus] Ignoring reply id=${replyTo} from node ${source}, expected ${target}`
+      );
+      return;
+    }
+    this.consumed.add(message);
+    this.diagnostics.recordReply(
+      this.exchange(current),
+      Date.now() - (current.sentAt ?? Date.now())
+    );
     this.resolveCurrent(undefined, message);
   }
 
+  private exchange(entry: PendingRequest) {
+    return {
+      id: this.normalizeId(entry.id) ?? entry.id,
+      cmd: entry.payload.cmd,
+      node: entry.payload.node,
+      payload: entry.payload,
+    };
+  }
+
   private normalizeId(value: unknown): string | null {
     if (value === undefined || value === null) return null;
     const str = String(value).trim();
@@ -110,26 +466,74 @@ export class BusManager {
 
   private handleTimeout() {
     if (!this.current) return;
+    if (this.current.replies) {
+      this.diagnostics.recordReply(this.exchange(this.current));
+      this.resolveCurrent(undefined, this.current.replies);
+      return;
+    }
+    this.stats.timeouts += 1;
     const error = new Error(
       `RS485 request ${this.current.id} timed out after ${this.current.timeoutMs}ms`
     );
+    this.diagnostics.recordTimeout(
+      this.exchange(this.current),
+      this.current.attempts,
+      error.message
+    );
     this.resolveCurrent(error, undefined);
   }
 
   private resolveCurrent(error: unknown, result: unknown) {
     if (!this.current) return;
-    if (this.current.timer) clearTimeout(this.current.timer);
+    const entry = this.current;
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = undefined;
 
-    const { resolve, reject } = this.current;
     this.current = undefined;
     this.nextAvailableAt = Date.now() + this.interRequestDelayMs;
 
-    if (error) reject(error);
-    else resolve(result);
+    if (error && this.shouldRetry(entry)) {
+      const delay = Math.min(
+        entry.retryDelayMs * entry.backoffFactor ** (entry.attempts - 1),
+        entry.maxRetryDelayMs
+      );
+      console.warn(
+        `[Bus] Retrying ${entry.payload.cmd} id=${
+          entry.id
+        } in ${delay}ms (attempt ${entry.attempts + 1}/${entry.retries + 1})`
+      );
+      entry.notBefore = Date.now() + delay;
+      this.stats.retries += 1;
+      this.queue.push(entry);
+    } else {
+      this.settle(entry, error, result);
+    }
 
     this.processQueue();
   }
 
+  private shouldRetry(entry: PendingRequest): boolean {
+    if (entry.attempts > entry.retries) return false;
+    if (entry.signal?.aborted) return false;
+    return entry.expiresAt === undefined || entry.expiresAt > Date.now();
+  }
+
+  private settle(entry: PendingRequest, error: unknown, result?: unknown) {
+    if (entry.onAbort) {
+      entry.signal?.removeEventListener("abort", entry.onAbort);
+    }
+    // exclusive exchanges are not node replies; only their callers care
+    if (error) {
+      this.stats.failures += 1;
+      if (!entry.task) this.emit("failure", entry.payload, error);
+      entry.reject(error);
+    } else {
+      this.stats.replies += 1;
+      if (!entry.task) this.emit("reply", entry.payload, result);
+      entry.resolve(result);
+    }
+  }
+
   private nextRequestId(): string {
     const id = this.nextIdValue % 1000;
     this.nextIdValue = (this.nextIdValue + 1) % 1000;
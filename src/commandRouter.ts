@@ -0,0 +1,346 @@
+import type { AutomationController } from "./automationController";
+import type { BusManager } from "./busManager";
+import type { ConfigStore } from "./config";
+import type { DatabaseHandler } from "./database/database";
+import type { ReadingWriteBuffer } from "./database/readingWriteBuffer";
+import type { NodeRegistry } from "./nodeRegistry";
+import { parseActuatorHistoryQuery, parseReadingsQuery } from "./queryParams";
+import type { Scheduler } from "./scheduler";
+import type { SensorHandler } from "./sensorHandler";
+import type { SessionPermission, SocketSession } from "./socketSession";
+import { ACTUATORS, Actuator, Command, NodeStatus } from "./types";
+import type { WarningHandler } from "./warningHandler";
+import type { WebSocketGateway } from "./webSocketGateway";
+
+/** The parts of the worker that client commands read or drive. */
+export interface CommandTargets {
+  warningHandler: WarningHandler;
+  automationController: AutomationController;
+  scheduler: Scheduler;
+  sensorHandler: SensorHandler;
+  configStore: ConfigStore;
+  database: DatabaseHandler;
+  readingBuffer: ReadingWriteBuffer;
+  nodeRegistry: NodeRegistry;
+  busManager: BusManager;
+  webSocketGateway?: WebSocketGateway;
+  discoverNodes: () => Promise<NodeStatus[]>;
+  sendSnapshot: (session: SocketSession) => void;
+  // hands a command to the bus and resolves with the node's reply
+  forward: (packet: Command, timeoutMs?: number) => Promise<unknown>;
+}
+
+export interface CommandContext {
+  permission: SessionPermission;
+  // HTTP and MQTT commands come without a session to subscribe or greet
+  session?: SocketSession;
+  timeoutMs?: number;
+}
+
+type LocalCommandHandler = (
+  packet: Command,
+  context: CommandContext
+) => unknown | Promise<unknown>;
+
+/**
+ * A command the worker refused or failed to run itself, as opposed to one
+ * the bus or a node failed.
+ */
+export class CommandError extends Error {
+  constructor(message: string, readonly forbidden = false) {
+    super(message);
+  }
+}
+
+// everything a read-only client may run; the rest needs control permission
+export const READ_ONLY_COMMANDS = new Set([
+  "hello",
+  "subscribe",
+  "unsubscribe",
+  "list_schedules",
+  "query_readings",
+  "list_nodes",
+  "query_actuator_history",
+  "gateway_stats",
+  "bus_stats",
+  "list_sensors",
+]);
+
+const commandParams = (packet: Command): Record<string, unknown> => ({
+  ...packet,
+  ...packet.payload,
+});
+
+const requireSession = (packet: Command, context: CommandContext) => {
+  if (!context.session) {
+    throw new Error(`${packet.cmd} is only available on socket connections`);
+  }
+  return context.session;
+};
+
+const requireActuator = (packet: Command): Actuator => {
+  const actuator = packet.actuator ?? packet.payload?.actuator;
+  if (!ACTUATORS.includes(actuator as Actuator)) {
+    throw new Error(
+      `${packet.cmd} requires an actuator (${ACTUATORS.join(", ")})`
+    );
+  }
+  return actuator as Actuator;
+};
+
+const requireScheduleId = (params: Record<string, unknown>): string => {
+  const scheduleId = params.scheduleId;
+  if (typeof scheduleId !== "string" || !scheduleId) {
+    throw new Error(`${params.cmd} requires a scheduleId`);
+  }
+  return scheduleId;
+};
+
+const scheduleInput = (params: Record<string, unknown>) =>
+  (params.schedule && typeof params.schedule === "object"
+    ? params.schedule
+    : params) as Parameters<Scheduler["create"]>[0];
+
+const requireAlertId = (packet: Command): string => {
+  const alertId = packet.alertId ?? packet.payload?.alertId;
+  if (typeof alertId !== "string" || !alertId) {
+    throw new Error(`${packet.cmd} requires an alertId`);
+  }
+  return alertId;
+};
+
+/**
+ * Runs client commands the same way whether they arrive over the Unix
+ * socket, WebSocket, HTTP or MQTT: the worker answers its own commands and
+ * forwards everything else to the bus.
+ */
+export class CommandRouter {
+  private readonly targets: CommandTargets;
+  private readonly local: Map<string, LocalCommandHandler>;
+
+  constructor(targets: CommandTargets) {
+    this.targets = targets;
+    this.local = this.createLocalCommands();
+  }
+
+  public isLocal(cmd: string): boolean {
+    return this.local.has(cmd);
+  }
+
+  /**
+   * Resolves with the reply. Refused and failed local commands reject with
+   * a CommandError, bus failures with the bus manager's error.
+   */
+  public async dispatch(
+    packet: Command,
+    context: CommandContext
+  ): Promise<unknown> {
+    if (
+      context.permission !== "control" &&
+      !READ_ONLY_COMMANDS.has(packet.cmd)
+    ) {
+      throw new CommandError(`${packet.cmd} requires control permission`, true);
+    }
+    const handler = this.local.get(packet.cmd);
+    if (!handler) return this.targets.forward(packet, context.timeoutMs);
+    try {
+      return await handler(packet, context);
+    } catch (err) {
+      if (err instanceof CommandError) throw err;
+      throw new CommandError((err as Error).message);
+    }
+  }
+
+  private requireSensorId(packet: Command): string {
+    const sensorId = commandParams(packet).sensorId;
+    if (typeof sensorId !== "string" || !sensorId) {
+      throw new Error(`${packet.cmd} requires a sensorId`);
+    }
+    if (!this.targets.sensorHandler.getSensor(sensorId)) {
+      throw new Error(`Unknown sensor ${sensorId}`);
+    }
+    return sensorId;
+  }
+
+  // persisted in the config file; the reload then applies and broadcasts it
+  private updateSensorSettings(
+    sensorId: string,
+    changes: Record<string, unknown>
+  ) {
+    this.targets.configStore.updateSensor(sensorId, changes);
+    return this.targets.sensorHandler.getSensor(sensorId);
+  }
+
+  private createLocalCommands() {
+    const {
+      warningHandler,
+      automationController,
+      scheduler,
+      sensorHandler,
+      database,
+      readingBuffer,
+      nodeRegistry,
+      busManager,
+    } = this.targets;
+
+    return new Map<string, LocalCommandHandler>([
+      [
+        "hello",
+        (packet, context) =>
+          requireSession(packet, context).handshake(commandParams(packet)),
+      ],
+      [
+        "subscribe",
+        (packet, context) => {
+          const session = requireSession(packet, context);
+          const params = commandParams(packet);
+          const subscription = session.subscribe(params);
+          if (params.replay === true) this.targets.sendSnapshot(session);
+          return subscription;
+        },
+      ],
+      [
+        "unsubscribe",
+        (packet, context) =>
+          requireSession(packet, context).unsubscribe(commandParams(packet)),
+      ],
+      [
+        "ack_warning",
+        (packet) => {
+          const alertId = requireAlertId(packet);
+          const alert = warningHandler.acknowledgeWarning(alertId);
+          if (!alert) throw new Error(`Unknown or resolved alert ${alertId}`);
+          return alert;
+        },
+      ],
+      [
+        "resolve_warning",
+        (packet) => {
+          const alertId = requireAlertId(packet);
+          const alert = warningHandler.resolveWarning(alertId);
+          if (!alert) throw new Error(`Unknown or resolved alert ${alertId}`);
+          return alert;
+        },
+      ],
+      [
+        "enable_auto",
+        async (packet, context) => {
+          const actuator = requireActuator(packet);
+          if (packet.value !== undefined && typeof packet.value !== "boolean") {
+            throw new Error("enable_auto value must be true or false");
+          }
+          const enabled = packet.value ?? true;
+          if (enabled && !automationController.hasRule(actuator)) {
+            throw new Error(`No automation rule configured for ${actuator}`);
+          }
+          // the node keeps its own auto flag, so it still gets the command
+          const reply = await this.targets.forward(packet, context.timeoutMs);
+          return { ...automationController.setAuto(actuator, enabled), reply };
+        },
+      ],
+      ["list_schedules", () => scheduler.list()],
+      [
+        "create_schedule",
+        (packet) => scheduler.create(scheduleInput(commandParams(packet))),
+      ],
+      [
+        "update_schedule",
+        (packet) => {
+          const params = commandParams(packet);
+          return scheduler.update(
+            requireScheduleId(params),
+            scheduleInput(params)
+          );
+        },
+      ],
+      [
+        "disable_schedule",
+        (packet) => scheduler.disable(requireScheduleId(commandParams(packet))),
+      ],
+      [
+        "query_readings",
+        (packet) => {
+          const query = parseReadingsQuery(commandParams(packet));
+          readingBuffer.flush();
+          return { ...query, buckets: database.queryReadings(query) };
+        },
+      ],
+      ["list_nodes", () => nodeRegistry.list()],
+      [
+        "list_sensors",
+        () => ({
+          sensors: sensorHandler.listSensors(),
+          plugins: sensorHandler.getPluginReports(),
+        }),
+      ],
+      [
+        "pause_sensor",
+        (packet) =>
+          this.updateSensorSettings(this.requireSensorId(packet), {
+            paused: true,
+          }),
+      ],
+      [
+        "resume_sensor",
+        (packet) =>
+          this.updateSensorSettings(this.requireSensorId(packet), {
+            paused: null,
+          }),
+      ],
+      [
+        "read_sensor",
+        (packet) => sensorHandler.readNow(this.requireSensorId(packet)),
+      ],
+      [
+        "set_sensor_interval",
+        (packet) => {
+          const sensorId = this.requireSensorId(packet);
+          const { pollingTime } = commandParams(packet);
+          if (pollingTime === undefined) {
+            throw new Error(
+              "set_sensor_interval requires a pollingTime in ms, or null for " +
+                "the sensor's own interval"
+            );
+          }
+          return this.updateSensorSettings(sensorId, { pollingTime });
+        },
+      ],
+      [
+        "reload_sensor_plugin",
+        (packet) => sensorHandler.reloadPlugin(this.requireSensorId(packet)),
+      ],
+      [
+        "bus_stats",
+        (packet, context) => {
+          const snapshot = busManager.diagnostics.snapshot();
+          if (commandParams(packet).reset === true) {
+            if (context.permission !== "control") {
+              throw new CommandError(
+                "Resetting bus_stats requires control permission",
+                true
+              );
+            }
+            busManager.diagnostics.reset();
+          }
+          return { ...snapshot, queueLength: busManager.getQueueLength() };
+        },
+      ],
+      [
+        "gateway_stats",
+        () => {
+          const gateway = this.targets.webSocketGateway;
+          if (!gateway) throw new Error("WebSocket gateway is disabled");
+          return gateway.getStats();
+        },
+      ],
+      ["discover_nodes", () => this.targets.discoverNodes()],
+      [
+        "query_actuator_history",
+        (packet) => {
+          const query = parseActuatorHistoryQuery(commandParams(packet));
+          return { ...query, states: database.queryActuatorHistory(query) };
+        },
+      ],
+    ]);
+  }
+}
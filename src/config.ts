@@ -0,0 +1,814 @@
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { SessionPermission } from "./socketSession";
+import type { TransportKind } from "./transports/busTransport";
+import {
+  ACTUATORS,
+  ALERT_TYPES,
+  ALERT_SEVERITIES,
+  AutomationRule,
+  SENSOR_TYPES,
+  SensorSettings,
+  ThresholdRule,
+} from "./types";
+
+export interface GhwConfig {
+  socket: { path: string };
+  rs485: {
+    transport: TransportKind;
+    port?: string;
+    baudRate?: number;
+    protocol: "json-line" | "framed";
+    // one pin driving DE and RE together; replaces the two pins below
+    enablePin?: number;
+    driverEnablePin?: number;
+    receiverEnablePin?: number;
+    receiverEnableActiveLow: boolean;
+    tcp?: { host: string; port: number };
+    heartbeatTimeoutMs: number;
+    // 0 disables the periodic who sweep
+    discoveryIntervalMs: number;
+    discoveryWindowMs: number;
+    clientRetries: number;
+    // 0 leaves remote sensors to report on their own
+    sensorPollMs: number;
+    queueSize?: number;
+  };
+  database: {
+    path: string;
+    // 0 keeps a tier forever
+    retentionDays: { raw: number; hourly: number; daily: number };
+  };
+  automation: {
+    overrideMs: number;
+    // replaces the built-in control rules when set
+    rules?: AutomationRule[];
+  };
+  logging: { rs485Traffic: boolean };
+  // sensor plugins besides the built-in ones; dirs are relative to the
+  // config file, packages are looked up next to it and in the worker
+  plugins: { dirs: string[]; packages: string[] };
+  sensors: Record<string, SensorSettings>;
+  // replaces the built-in threshold rules when set
+  thresholds?: ThresholdRule[];
+  // the gateway, the API and the bridge only start once given a port or url
+  websocket: {
+    port?: number;
+    host?: string;
+    path?: string;
+    // token → permission; a tokensFile of the same shape replaces them
+    tokens: Record<string, SessionPermission>;
+    tokensFile?: string;
+    tlsCert?: string;
+    tlsKey?: string;
+  };
+  http: {
+    port?: number;
+    // without tokens the API binds to 127.0.0.1 unless a host is given
+    host?: string;
+    tokens: Record<string, SessionPermission>;
+    tokensFile?: string;
+  };
+  mqtt: {
+    url?: string;
+    username?: string;
+    password?: string;
+    clientId?: string;
+    baseTopic?: string;
+    discoveryPrefix?: string;
+    discovery: boolean;
+    actuatorNode?: string;
+    bufferSize?: number;
+    // what greenhouse/command may run; the broker has no per-client rights
+    commands: string[];
+  };
+  modbus: { mapPath: string; timeoutMs?: number };
+  // only used by the simulator transport
+  simulator: {
+    nodes: number;
+    seed: number;
+    dropRate?: number;
+    garbageRate?: number;
+    delayMs?: number;
+    jitterMs?: number;
+  };
+}
+
+export type ConfigSection = keyof GhwConfig;
+
+// applied to a running worker; everything else waits for a restart
+export const RELOADABLE_SECTIONS: ConfigSection[] = [
+  "sensors",
+  "thresholds",
+  "automation",
+  "logging",
+];
+
+const GHW_DIR = path.join(os.userInfo().homedir, ".ghw");
+
+export const DEFAULT_CONFIG_PATH = path.join(GHW_DIR, "config.json");
+
+export const defaultConfig = (): GhwConfig => ({
+  socket: { path: "/tmp/greenhouse.sock" },
+  rs485: {
+    transport: "serial",
+    protocol: "json-line",
+    driverEnablePin: 18, // Pi GPIO18 ↔ MAX485 DE
+    receiverEnablePin: 23, // Pi GPIO23 ↔ MAX485 RE
+    receiverEnableActiveLow: true,
+    heartbeatTimeoutMs: 15000,
+    discoveryIntervalMs: 5 * 60 * 1000,
+    discoveryWindowMs: 2000,
+    clientRetries: 2,
+    sensorPollMs: 0,
+  },
+  database: {
+    path: path.join(GHW_DIR, "data", "greenhouse.db"),
+    retentionDays: { raw: 7, hourly: 365, daily: 3650 },
+  },
+  automation: { overrideMs: 30 * 60 * 1000 },
+  logging: { rs485Traffic: false },
+  plugins: { dirs: [], packages: [] },
+  sensors: { cpuTemp: { options: { unit: "°C" } } },
+  websocket: { tokens: {} },
+  http: { tokens: {} },
+  mqtt: {
+    discovery: true,
+    commands: [
+      "manual_override",
+      "enable_auto",
+      "ack_warning",
+      "resolve_warning",
+    ],
+  },
+  modbus: { mapPath: path.join(GHW_DIR, "modbus.json") },
+  simulator: { nodes: 1, seed: 1 },
+});
+
+type Field<T> = (value: unknown, where: string, problems: string[]) => T;
+
+const describe = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  if (typeof value === "string") return JSON.stringify(value);
+  return String(value);
+};
+
+const check =
+  <T>(test: (value: unknown) => boolean, expected: string): Field<T> =>
+  (value, where, problems) => {
+    if (!test(value)) {
+      problems.push(`${where} must be ${expected}, got ${describe(value)}`);
+    }
+    return value as T;
+  };
+
+const text = check<string>(
+  (v) => typeof v === "string" && v.length > 0,
+  "a non-empty string"
+);
+const flag = check<boolean>((v) => typeof v === "boolean", "true or false");
+const anyNumber = check<number>(
+  (v) => typeof v === "number" && Number.isFinite(v),
+  "a number"
+);
+const whole = (min: number, max = Number.MAX_SAFE_INTEGER) =>
+  check<number>(
+    (v) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max,
+    max === Number.MAX_SAFE_INTEGER
+      ? `an integer >= ${min}`
+      : `an integer between ${min} and ${max}`
+  );
+const atLeast = (min: number) =>
+  check<number>(
+    (v) => typeof v === "number" && Number.isFinite(v) && v >= min,
+    `a number >= ${min}`
+  );
+const oneOf = <T extends string>(values: readonly T[]) =>
+  check<T>(
+    (v) => values.includes(v as T),
+    `one of ${values.map((value) => `"${value}"`).join(", ")}`
+  );
+const anything: Field<unknown> = (value) => value;
+
+const fraction = check<number>(
+  (v) => typeof v === "number" && v >= 0 && v <= 1,
+  "a number between 0 and 1"
+);
+
+const pin = whole(0, 53);
+const tcpPort = whole(1, 65535);
+const ms = whole(0);
+
+const join = (where: string, key: string) => (where ? `${where}.${key}` : key);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Checks an object against its fields. Unknown keys are problems too, so a
+ * misspelled option is reported instead of silently falling back.
+ */
+const section =
+  <T>(
+    fields: { [K in keyof T]-?: Field<T[K]> },
+    required: (keyof T)[] = []
+  ): Field<T> =>
+  (value, where, problems) => {
+    if (!isObject(value)) {
+      problems.push(
+        `${where || "The config"} must be an object, got ${describe(value)}`
+      );
+      return {} as T;
+    }
+    const result: Partial<T> = {};
+    for (const [key, raw] of Object.entries(value)) {
+      const field = fields[key as keyof T];
+      if (!field) {
+        const known = Object.keys(fields).join(", ");
+        problems.push(`${join(where, key)} is not a known option (${known})`);
+        continue;
+      }
+      if (raw === undefined) continue;
+      result[key as keyof T] = field(raw, join(where, key), problems);
+    }
+    for (const key of required) {
+      if (value[key as string] === undefined) {
+        problems.push(`${join(where, String(key))} is required`);
+      }
+    }
+    // callers layer this over defaults, so missing keys are fine
+    return result as T;
+  };
+
+const record =
+  <T>(entry: Field<T>): Field<Record<string, T>> =>
+  (value, where, problems) => {
+    if (!isObject(value)) {
+      problems.push(`${where} must be an object, got ${describe(value)}`);
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, raw]) => [
+        key,
+        entry(raw, join(where, key), problems),
+      ])
+    );
+  };
+
+const list =
+  <T>(entry: Field<T>): Field<T[]> =>
+  (value, where, problems) => {
+    if (!Array.isArray(value)) {
+      problems.push(`${where} must be a list, got ${describe(value)}`);
+      return [];
+    }
+    return value.map((raw, index) =>
+      entry(raw, `${where}[${index}]`, problems)
+    );
+  };
+
+const sensorSettings = section<SensorSettings>({
+  enabled: flag,
+  paused: flag,
+  // anything faster just keeps the event loop busy
+  pollingTime: whole(100),
+  pollingWaitTime: ms,
+  location: text,
+  log: flag,
+  options: anything,
+});
+
+const thresholdRule = section<ThresholdRule>(
+  {
+    id: text,
+    alertType: oneOf(ALERT_TYPES),
+    severity: oneOf(ALERT_SEVERITIES),
+    direction: oneOf(["above", "below"] as const),
+    threshold: anyNumber,
+    clearThreshold: anyNumber,
+    hysteresis: atLeast(0),
+    minDurationMs: ms,
+    sensorType: oneOf(SENSOR_TYPES),
+    sensorId: text,
+    excludeSensorIds: list(text),
+    location: text,
+    message: text,
+  },
+  ["id", "alertType", "severity", "direction", "threshold"]
+);
+
+const automationRule = section<AutomationRule>(
+  {
+    actuator: oneOf(ACTUATORS),
+    sensorId: text,
+    sensorType: oneOf(SENSOR_TYPES),
+    excludeSensorIds: list(text),
+    direction: oneOf(["above", "below"] as const),
+    onAt: anyNumber,
+    offAt: anyNumber,
+    node: text,
+    minSwitchIntervalMs: ms,
+  },
+  ["actuator", "direction", "onAt", "offAt"]
+);
+
+const rs485Fields = {
+  transport: oneOf<TransportKind>(["serial", "tcp", "loopback", "simulator"]),
+  port: text,
+  baudRate: whole(1),
+  protocol: oneOf(["json-line", "framed"] as const),
+  enablePin: pin,
+  driverEnablePin: pin,
+  receiverEnablePin: pin,
+  receiverEnableActiveLow: flag,
+  tcp: section<{ host: string; port: number }>({ host: text, port: tcpPort }, [
+    "host",
+    "port",
+  ]),
+  heartbeatTimeoutMs: whole(1),
+  discoveryIntervalMs: ms,
+  discoveryWindowMs: whole(1),
+  clientRetries: whole(0),
+  sensorPollMs: ms,
+  queueSize: whole(1),
+};
+
+const retentionFields = {
+  raw: atLeast(0),
+  hourly: atLeast(0),
+  daily: atLeast(0),
+};
+
+const permissions = record(oneOf<SessionPermission>(["read", "control"]));
+
+const tokens: Field<Record<string, SessionPermission>> = (
+  value,
+  where,
+  problems
+) => {
+  const result = permissions(value, where, problems);
+  if ("" in result) problems.push(`${where} must not contain an empty token`);
+  return result;
+};
+
+const websocketFields = {
+  port: tcpPort,
+  host: text,
+  path: text,
+  tokens,
+  tokensFile: text,
+  tlsCert: text,
+  tlsKey: text,
+};
+
+const httpFields = { port: tcpPort, host: text, tokens, tokensFile: text };
+
+const mqttFields = {
+  url: text,
+  username: text,
+  password: text,
+  clientId: text,
+  baseTopic: text,
+  discoveryPrefix: text,
+  discovery: flag,
+  actuatorNode: text,
+  bufferSize: whole(1),
+  commands: list(text),
+};
+
+const simulatorFields = {
+  nodes: whole(1),
+  seed: whole(0),
+  dropRate: fraction,
+  garbageRate: fraction,
+  delayMs: ms,
+  jitterMs: ms,
+};
+
+const configFile = section<GhwConfig>({
+  socket: section({ path: text }),
+  rs485: section<GhwConfig["rs485"]>(rs485Fields),
+  database: section<GhwConfig["database"]>({
+    path: text,
+    retentionDays: section(retentionFields),
+  }),
+  automation: section<GhwConfig["automation"]>({
+    overrideMs: ms,
+    rules: list(automationRule),
+  }),
+  logging: section({ rs485Traffic: flag }),
+  plugins: section({ dirs: list(text), packages: list(text) }),
+  sensors: record(sensorSettings),
+  thresholds: list(thresholdRule),
+  websocket: section<GhwConfig["websocket"]>(websocketFields),
+  http: section<GhwConfig["http"]>(httpFields),
+  mqtt: section<GhwConfig["mqtt"]>(mqttFields),
+  modbus: section<GhwConfig["modbus"]>({ mapPath: text, timeoutMs: whole(1) }),
+  simulator: section<GhwConfig["simulator"]>(simulatorFields),
+});
+
+// lists are separated by commas; tokens are `token:permission` pairs, bare
+// ones read-only
+type EnvValue = "string" | "number" | "flag" | "list" | "tokens";
+
+// env vars win over the file; the first of several names that is set is used
+const ENV_OVERRIDES: [string[], string, EnvValue, Field<unknown>][] = [
+  [["GHW_SOCKET_PATH"], "socket.path", "string", text],
+  [["RS485_TRANSPORT"], "rs485.transport", "string", rs485Fields.transport],
+  [["RS485_PORT"], "rs485.port", "string", text],
+  [["RS485_BAUD"], "rs485.baudRate", "number", rs485Fields.baudRate],
+  [["RS485_PROTOCOL"], "rs485.protocol", "string", rs485Fields.protocol],
+  [["RS485_ENABLE_PIN"], "rs485.enablePin", "number", pin],
+  [
+    ["RS485_DRIVER_PIN", "RS485_DE_PIN"],
+    "rs485.driverEnablePin",
+    "number",
+    pin,
+  ],
+  [
+    ["RS485_RECEIVER_PIN", "RS485_RE_PIN"],
+    "rs485.receiverEnablePin",
+    "number",
+    pin,
+  ],
+  [["RS485_RE_ACTIVE_LOW"], "rs485.receiverEnableActiveLow", "flag", flag],
+  [["RS485_TCP_HOST"], "rs485.tcp.host", "string", text],
+  [["RS485_TCP_PORT"], "rs485.tcp.port", "number", tcpPort],
+  [
+    ["RS485_HEARTBEAT_TIMEOUT_MS"],
+    "rs485.heartbeatTimeoutMs",
+    "number",
+    rs485Fields.heartbeatTimeoutMs,
+  ],
+  [["RS485_DISCOVERY_INTERVAL_MS"], "rs485.discoveryIntervalMs", "number", ms],
+  [
+    ["RS485_DISCOVERY_WINDOW_MS"],
+    "rs485.discoveryWindowMs",
+    "number",
+    rs485Fields.discoveryWindowMs,
+  ],
+  [
+    ["RS485_CLIENT_RETRIES"],
+    "rs485.clientRetries",
+    "number",
+    rs485Fields.clientRetries,
+  ],
+  [["RS485_SENSOR_POLL_MS"], "rs485.sensorPollMs", "number", ms],
+  [["RS485_QUEUE_SIZE"], "rs485.queueSize", "number", rs485Fields.queueSize],
+  [["RS485_DEBUG"], "logging.rs485Traffic", "flag", flag],
+  [["GHW_DB_PATH"], "database.path", "string", text],
+  [
+    ["SENSOR_RAW_RETENTION_DAYS", "SENSOR_RETENTION_DAYS"],
+    "database.retentionDays.raw",
+    "number",
+    retentionFields.raw,
+  ],
+  [
+    ["SENSOR_HOURLY_RETENTION_DAYS"],
+    "database.retentionDays.hourly",
+    "number",
+    retentionFields.hourly,
+  ],
+  [
+    ["SENSOR_DAILY_RETENTION_DAYS"],
+    "database.retentionDays.daily",
+    "number",
+    retentionFields.daily,
+  ],
+  [["AUTOMATION_OVERRIDE_MS"], "automation.overrideMs", "number", ms],
+  [["WS_PORT"], "websocket.port", "number", tcpPort],
+  [["WS_HOST"], "websocket.host", "string", text],
+  [["WS_PATH"], "websocket.path", "string", text],
+  [["WS_TOKENS"], "websocket.tokens", "tokens", tokens],
+  [["WS_TOKENS_FILE"], "websocket.tokensFile", "string", text],
+  [["WS_TLS_CERT"], "websocket.tlsCert", "string", text],
+  [["WS_TLS_KEY"], "websocket.tlsKey", "string", text],
+  [["HTTP_PORT"], "http.port", "number", tcpPort],
+  [["HTTP_HOST"], "http.host", "string", text],
+  [["HTTP_TOKENS"], "http.tokens", "tokens", tokens],
+  [["HTTP_TOKENS_FILE"], "http.tokensFile", "string", text],
+  [["MQTT_URL"], "mqtt.url", "string", text],
+  [["MQTT_USERNAME"], "mqtt.username", "string", text],
+  [["MQTT_PASSWORD"], "mqtt.password", "string", text],
+  [["MQTT_CLIENT_ID"], "mqtt.clientId", "string", text],
+  [["MQTT_BASE_TOPIC"], "mqtt.baseTopic", "string", text],
+  [["MQTT_DISCOVERY_PREFIX"], "mqtt.discoveryPrefix", "string", text],
+  [["MQTT_DISCOVERY"], "mqtt.discovery", "flag", flag],
+  [["MQTT_ACTUATOR_NODE"], "mqtt.actuatorNode", "string", text],
+  [["MQTT_BUFFER_SIZE"], "mqtt.bufferSize", "number", mqttFields.bufferSize],
+  [["MQTT_COMMANDS"], "mqtt.commands", "list", mqttFields.commands],
+  [["MODBUS_MAP"], "modbus.mapPath", "string", text],
+  [["MODBUS_TIMEOUT_MS"], "modbus.timeoutMs", "number", whole(1)],
+  [["SIM_NODES"], "simulator.nodes", "number", simulatorFields.nodes],
+  [["SIM_SEED"], "simulator.seed", "number", simulatorFields.seed],
+  [["SIM_DROP_RATE"], "simulator.dropRate", "number", fraction],
+  [["SIM_GARBAGE_RATE"], "simulator.garbageRate", "number", fraction],
+  [["SIM_DELAY_MS"], "simulator.delayMs", "number", ms],
+  [["SIM_JITTER_MS"], "simulator.jitterMs", "number", ms],
+];
+
+const parseTokenSpec = (raw: string) => {
+  const result: Record<string, string> = {};
+  for (const entry of raw.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const separator = trimmed.lastIndexOf(":");
+    if (separator === -1) result[trimmed] = "read";
+    else result[trimmed.slice(0, separator)] = trimmed.slice(separator + 1);
+  }
+  return result;
+};
+
+const parseEnvValue = (raw: string, kind: EnvValue): unknown => {
+  if (kind === "string") return raw;
+  if (kind === "flag") return raw !== "0" && raw !== "false";
+  if (kind === "list") {
+    return raw
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (kind === "tokens") return parseTokenSpec(raw);
+  const num = Number(raw);
+  return raw.trim() && Number.isFinite(num) ? num : raw;
+};
+
+const setPath = (
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+) => {
+  const parts = key.split(".");
+  const last = parts.pop()!;
+  let node = target;
+  for (const part of parts) {
+    if (!isObject(node[part])) node[part] = {};
+    node = node[part] as Record<string, unknown>;
+  }
+  node[last] = value;
+};
+
+const applyEnv = (
+  config: GhwConfig,
+  env: NodeJS.ProcessEnv,
+  problems: string[]
+) => {
+  for (const [names, key, kind, field] of ENV_OVERRIDES) {
+    const name = names.find((candidate) => env[candidate]);
+    if (!name) continue;
+    const value = parseEnvValue(env[name]!, kind);
+    setPath(
+      config as unknown as Record<string, unknown>,
+      key,
+      field(value, name, problems)
+    );
+  }
+};
+
+/**
+ * Validates a parsed config file and layers it, then the environment, over
+ * the defaults. All problems are reported together, each with the path of
+ * the offending value.
+ */
+export const resolveConfig = (
+  raw: unknown,
+  env: NodeJS.ProcessEnv = process.env
+): GhwConfig => {
+  const problems: string[] = [];
+  const file = configFile(raw ?? {}, "", problems);
+  const defaults = defaultConfig();
+  const config: GhwConfig = {
+    socket: { ...defaults.socket, ...file.socket },
+    rs485: { ...defaults.rs485, ...file.rs485 },
+    database: {
+      ...defaults.database,
+      ...file.database,
+      retentionDays: {
+        ...defaults.database.retentionDays,
+        ...file.database?.retentionDays,
+      },
+    },
+    automation: { ...defaults.automation, ...file.automation },
+    logging: { ...defaults.logging, ...file.logging },
+    plugins: { ...defaults.plugins, ...file.plugins },
+    sensors: { ...defaults.sensors },
+    thresholds: file.thresholds,
+    websocket: { ...defaults.websocket, ...file.websocket },
+    http: { ...defaults.http, ...file.http },
+    mqtt: { ...defaults.mqtt, ...file.mqtt },
+    modbus: { ...defaults.modbus, ...file.modbus },
+    simulator: { ...defaults.simulator, ...file.simulator },
+  };
+  for (const [id, settings] of Object.entries(file.sensors ?? {})) {
+    config.sensors[id] = { ...config.sensors[id], ...settings };
+  }
+  applyEnv(config, env, problems);
+  // one shared enable pin replaces the split DE/RE wiring
+  if (config.rs485.enablePin !== undefined) {
+    delete config.rs485.driverEnablePin;
+    delete config.rs485.receiverEnablePin;
+  }
+
+  const tcp = config.rs485.tcp;
+  if (config.rs485.transport === "tcp" && !(tcp?.host && tcp?.port)) {
+    problems.push(
+      "The tcp transport requires rs485.tcp.host and rs485.tcp.port " +
+        "(or RS485_TCP_HOST and RS485_TCP_PORT)"
+    );
+  }
+  const ws = config.websocket;
+  if (
+    ws.port !== undefined &&
+    !ws.tokensFile &&
+    !Object.keys(ws.tokens).length
+  ) {
+    problems.push(
+      "The WebSocket gateway requires websocket.tokens or " +
+        "websocket.tokensFile (or WS_TOKENS or WS_TOKENS_FILE)"
+    );
+  }
+  if (Boolean(ws.tlsCert) !== Boolean(ws.tlsKey)) {
+    problems.push(
+      "websocket.tlsCert and websocket.tlsKey must be set together"
+    );
+  }
+  const automated = new Set<string>();
+  (config.automation.rules ?? []).forEach((rule, index) => {
+    const where = `automation.rules[${index}]`;
+    if (!rule.sensorId && !rule.sensorType) {
+      problems.push(`${where} needs a sensorId or a sensorType`);
+    }
+    // offAt has to sit on the far side of onAt, or the output would flap
+    if (
+      rule.direction === "above"
+        ? rule.offAt > rule.onAt
+        : rule.offAt < rule.onAt
+    ) {
+      problems.push(
+        `${where}.offAt must be ${
+          rule.direction === "above" ? "<=" : ">="
+        } onAt for a rule switching ${rule.direction}`
+      );
+    }
+    if (automated.has(rule.actuator)) {
+      problems.push(`automation.rules has a second rule for ${rule.actuator}`);
+    }
+    automated.add(rule.actuator);
+  });
+  const ruleIds = new Set<string>();
+  for (const rule of config.thresholds ?? []) {
+    if (ruleIds.has(rule.id)) {
+      problems.push(`thresholds has a duplicate rule id ${rule.id}`);
+    }
+    ruleIds.add(rule.id);
+  }
+
+  if (problems.length) {
+    throw new Error(
+      `Invalid configuration:\n${problems.map((p) => `  - ${p}`).join("\n")}`
+    );
+  }
+  return config;
+};
+
+const readConfigFile = (configPath: string): unknown => {
+  if (!fs.existsSync(configPath)) return {};
+  const contents = fs.readFileSync(configPath, "utf8");
+  try {
+    return contents.trim() ? JSON.parse(contents) : {};
+  } catch (err) {
+    throw new Error(`Not valid JSON: ${(err as Error).message}`);
+  }
+};
+
+const finishConfig = (
+  raw: unknown,
+  configPath: string,
+  env: NodeJS.ProcessEnv
+) => {
+  const config = resolveConfig(raw, env);
+  config.plugins.dirs = config.plugins.dirs.map((dir) =>
+    path.resolve(path.dirname(configPath), dir)
+  );
+  return config;
+};
+
+/** Reads the config file; a missing file means defaults plus env. */
+export const loadConfig = (
+  configPath: string,
+  env: NodeJS.ProcessEnv = process.env
+): GhwConfig => finishConfig(readConfigFile(configPath), configPath, env);
+
+const copySection = <K extends ConfigSection>(
+  target: GhwConfig,
+  source: GhwConfig,
+  key: K
+) => {
+  target[key] = source[key];
+};
+
+/**
+ * Holds the running configuration and reloads it when the file changes.
+ * Only RELOADABLE_SECTIONS take effect at runtime; other changes are logged
+ * and wait for a restart. An invalid file is rejected and the running
+ * configuration kept.
+ */
+export class ConfigStore extends EventEmitter {
+  public readonly path: string;
+  private readonly env: NodeJS.ProcessEnv;
+  private current: GhwConfig;
+  private watching = false;
+
+  constructor(configPath: string, env: NodeJS.ProcessEnv = process.env) {
+    super();
+    this.path = configPath;
+    this.env = env;
+    this.current = loadConfig(configPath, env);
+    this.reload = this.reload.bind(this);
+  }
+
+  public get(): GhwConfig {
+    return this.current;
+  }
+
+  public watch(intervalMs = 2000) {
+    if (this.watching) return;
+    // polling survives editors that replace the file instead of writing it
+    fs.watchFile(this.path, { interval: intervalMs }, this.reload);
+    this.watching = true;
+  }
+
+  public unwatch() {
+    if (!this.watching) return;
+    fs.unwatchFile(this.path, this.reload);
+    this.watching = false;
+  }
+
+  /**
+   * Writes overrides for one sensor to the config file and applies them
+   * like any other edit. A null value removes that override again.
+   */
+  public updateSensor(id: string, changes: Record<string, unknown>) {
+    const raw = readConfigFile(this.path);
+    if (!isObject(raw)) {
+      throw new Error(`${this.path} must hold an object to store settings`);
+    }
+    const sensors = isObject(raw.sensors) ? { ...raw.sensors } : {};
+    const settings: Record<string, unknown> = isObject(sensors[id])
+      ? { ...sensors[id] }
+      : {};
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) delete settings[key];
+      else settings[key] = value;
+    }
+    if (Object.keys(settings).length) sensors[id] = settings;
+    else delete sensors[id];
+    const next = { ...raw, sensors };
+    // refuse to write a file the worker would then reject
+    finishConfig(next, this.path, this.env);
+
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(next, null, 2) + "\n");
+    fs.renameSync(tmpPath, this.path);
+    this.reload();
+  }
+
+  /** Returns the sections that were applied. */
+  public reload(): ConfigSection[] {
+    let next: GhwConfig;
+    try {
+      next = loadConfig(this.path, this.env);
+    } catch (err) {
+      console.error(
+        `[Config] Keeping the running configuration, ${this.path} was ` +
+          `rejected: ${(err as Error).message}`
+      );
+      this.emit("rejected", err);
+      return [];
+    }
+
+    const changed = (Object.keys(next) as ConfigSection[]).filter(
+      (key) => JSON.stringify(next[key]) !== JSON.stringify(this.current[key])
+    );
+    const applied = changed.filter((key) => RELOADABLE_SECTIONS.includes(key));
+    const pending = changed.filter((key) => !RELOADABLE_SECTIONS.includes(key));
+    if (pending.length) {
+      console.warn(
+        `[Config] Restart the worker to apply changes to ${pending.join(", ")}`
+      );
+    }
+    if (!applied.length) return [];
+
+    const updated = { ...this.current };
+    for (const key of applied) copySection(updated, next, key);
+    this.current = updated;
+    console.log(`[Config] Reloaded ${applied.join(", ")}`);
+    this.emit("reloaded", updated, applied);
+    return applied;
+  }
+}
@@ -0,0 +1,20 @@
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+    table[i] = crc;
+  }
+  return table;
+})();
+
+/** CRC-16/MODBUS: reflected polynomial 0xA001, initial value 0xFFFF. */
+export const crc16 = (data: Uint8Array, start = 0, end = data.length) => {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) {
+    crc = (crc >>> 8) ^ CRC16_TABLE[(crc ^ data[i]) & 0xff];
+  }
+  return crc;
+};
@@ -0,0 +1,99 @@
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // standard cron: when both day fields are restricted either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELDS: { name: string; min: number; max: number }[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const parseField = (
+  raw: string,
+  field: { name: string; min: number; max: number }
+): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${field.name} "${part}"`);
+    }
+
+    const [, startRaw, endRaw, stepRaw] = match;
+    const start = startRaw === "*" ? field.min : Number(startRaw);
+    const end =
+      startRaw === "*"
+        ? field.max
+        : endRaw !== undefined
+        ? Number(endRaw)
+        : stepRaw !== undefined
+        ? field.max
+        : start;
+    const step = stepRaw !== undefined ? Number(stepRaw) : 1;
+
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(
+        `Cron ${field.name} "${part}" is outside ${field.min}-${field.max}`
+      );
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+/** Parses a five-field cron expression (minute hour dom month dow). */
+export const parseCron = (source: string): CronExpression => {
+  const parts = source.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Cron expression "${source}" must have 5 fields, got ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELDS[index])
+  );
+  // both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // like Vixie cron, */N still counts as an unrestricted day field
+    dayOfMonthRestricted: !parts[2].startsWith("*"),
+    dayOfWeekRestricted: !parts[4].startsWith("*"),
+  };
+};
+
+/** Matches against local time at minute resolution. */
+export const cronMatches = (cron: CronExpression, date: Date): boolean => {
+  if (!cron.minutes.has(date.getMinutes())) return false;
+  if (!cron.hours.has(date.getHours())) return false;
+  if (!cron.months.has(date.getMonth() + 1)) return false;
+
+  const domMatch = cron.daysOfMonth.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.has(date.getDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+};
@@ -1,69 +1,168 @@
 import Database from "better-sqlite3";
 import fs from "fs";
 import os from "os";
-import { SensorReading } from "../types";
+import path from "path";
+import { runMigrations } from "./migrations";
+import {
+  ActuatorHistoryQuery,
+  ActuatorState,
+  AlertState,
+  IAlert,
+  ReadingBucket,
+  ReadingsQuery,
+  Schedule,
+  SensorInfo,
+  SensorReading,
+} from "../types";
+
+type BucketRow = {
+  sensor_id: string;
+  bucket: number;
+  min: number;
+  max: number;
+  total: number;
+  count: number;
+};
+
+type ActuatorStateRow = {
+  actuator: ActuatorState["actuator"];
+  node: string;
+  value: string;
+  source: ActuatorState["source"];
+  timestamp: number;
+};
+
+type SensorRow = {
+  id: string;
+  type: SensorInfo["type"];
+  location: string | null;
+  node: string | null;
+};
+
+type ReadingTier = "raw" | "hourly" | "daily";
+
+type ReadingSegment = { tier: ReadingTier; from: number; to: number };
+
+type RollupStateKey =
+  | "hourly_watermark"
+  | "daily_watermark"
+  | "raw_floor"
+  | "hourly_floor"
+  | "daily_floor";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const TIER_RESOLUTION_MS: Record<ReadingTier, number> = {
+  raw: 1,
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+};
+
+const toEpochMs = (column: string) =>
+  `CAST(ROUND((julianday(${column}) - 2440587.5) * 86400000) AS INTEGER)`;
+
+type AlertRow = {
+  id: string;
+  type: IAlert["type"];
+  location: string;
+  severity: IAlert["severity"];
+  message: string;
+  timestamp: number;
+  sensor_id: string | null;
+  threshold: number | null;
+  current_value: number | null;
+  state: AlertState;
+  occurrences: number;
+  last_seen: number;
+  acknowledged_at: number | null;
+  resolved_at: number | null;
+};
+
+export type DatabaseTable =
+  | "sensor_readings"
+  | "alerts"
+  | "schedules"
+  | "actuator_states";
+
+export interface DatabaseWriteStats {
+  rows: number;
+  // failed writes (a failed batch counts once)
+  failures: number;
+}
+
+export interface DatabaseOptions {
+  // file path, or ":memory:" for a throwaway database
+  path?: string;
+  // days to keep each reading tier; env vars fill in what is left out
+  retentionDays?: Partial<Record<ReadingTier, number>>;
+}
 
 export class DatabaseHandler {
   public database: Database.Database;
   private DATABASE_PATH: string;
+  private readonly retentionDays: Partial<Record<ReadingTier, number>>;
   private upsertSensorStatement!: Database.Statement;
   private insertReadingStatement!: Database.Statement;
-  private deleteOldReadingsStatement!: Database.Statement;
-
-  private CREATE_SENSORS_TABLE = `
-    CREATE TABLE IF NOT EXISTS sensors (
-        id TEXT PRIMARY KEY,
-        type TEXT NOT NULL,
-        location TEXT,
-        description TEXT
-    )
-  `;
-
-  private CREATE_SENSOR_READINGS_TABLE = `
-    CREATE TABLE IF NOT EXISTS sensor_readings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        sensor_id TEXT NOT NULL,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-        value REAL NOT NULL,
-        FOREIGN KEY (sensor_id) REFERENCES sensors(id)
-    )
-  `;
-
-  constructor() {
-    this.DATABASE_PATH = `${os.userInfo().homedir}/.ghw/data/greenhouse.db`;
-    const dbExists = fs.existsSync(this.DATABASE_PATH);
-
-    if (!dbExists) {
+  private rollupStatements!: {
+    rollupHourly: Database.Statement;
+    rollupDaily: Database.Statement;
+    pruneRaw: Database.Statement;
+    pruneHourly: Database.Statement;
+    pruneDaily: Database.Statement;
+    getState: Database.Statement;
+    setState: Database.Statement;
+  };
+  private bucketStatements!: Record<ReadingTier, Database.Statement>;
+  private maintenanceTimer?: NodeJS.Timeout;
+  private upsertScheduleStatement!: Database.Statement;
+  private selectSchedulesStatement!: Database.Statement;
+  private selectSensorsStatement!: Database.Statement;
+  private insertActuatorStateStatement!: Database.Statement;
+  private selectLatestActuatorStatesStatement!: Database.Statement;
+  private selectActuatorHistoryStatement!: Database.Statement;
+  private upsertAlertStatement!: Database.Statement;
+  private selectOpenAlertsStatement!: Database.Statement;
+  private writeStats = new Map<DatabaseTable, DatabaseWriteStats>();
+  // hours that received raw rows after they were rolled up
+  private lateHours = new Set<number>();
+
+  constructor(options: DatabaseOptions = {}) {
+    this.retentionDays = options.retentionDays ?? {};
+    this.DATABASE_PATH =
+      options.path ??
+      process.env.GHW_DB_PATH ??
+      path.join(os.userInfo().homedir, ".ghw", "data", "greenhouse.db");
+    const inMemory = this.DATABASE_PATH === ":memory:";
+
+    if (!inMemory && !fs.existsSync(this.DATABASE_PATH)) {
       this.initializeDatabase();
     }
 
     this.database = new Database(this.DATABASE_PATH);
-    this.database.pragma("journal_mode = WAL");
+    if (!inMemory) this.database.pragma("journal_mode = WAL");
 
-    this.createTables();
+    const version = runMigrations(this.database);
+    console.log(`Database ${this.DATABASE_PATH} at schema version ${version}`);
     this.prepareStatements();
   }
 
   private initializeDatabase() {
     console.log("Initializing database...");
-
-    if (!fs.existsSync(`${os.userInfo().homedir}/.ghw/data`)) {
-      fs.mkdirSync("/home/.ghw/data", { recursive: true });
-    }
-
-    fs.writeFileSync(this.DATABASE_PATH, "");
-  }
-
-  private createTables() {
-    this.database.exec(this.CREATE_SENSORS_TABLE);
-    this.database.exec(this.CREATE_SENSOR_READINGS_TABLE);
+    fs.mkdirSync(path.dirname(this.DATABASE_PATH), { recursive: true });
   }
 
   private prepareStatements() {
     this.upsertSensorStatement = this.database.prepare(`
-      INSERT INTO sensors (id, type)
-      VALUES (@id, @type)
-      ON CONFLICT(id) DO UPDATE SET type = excluded.type
+      INSERT INTO sensors (id, type, location, node)
+      VALUES (@id, @type, @location, @node)
+      ON CONFLICT(id) DO UPDATE SET
+        type = excluded.type,
+        location = COALESCE(excluded.location, sensors.location),
+        node = COALESCE(excluded.node, sensors.node)
+    `);
+
+    this.selectSensorsStatement = this.database.prepare(`
+      SELECT id, type, location, node FROM sensors ORDER BY id ASC
     `);
 
     this.insertReadingStatement = this.database.prepare(`
@@ -71,47 +170,572 @@ export class DatabaseHandler {
       VALUES (@sensor_id, @timestamp, @value)
     `);
 
-    this.deleteOldReadingsStatement = this.database.prepare(`
-      DELETE FROM sensor_readings
-      WHERE timestamp < @cutoff
+    this.upsertAlertStatement = this.database.prepare(`
+      INSERT INTO alerts (
+        id, type, location, severity, message, timestamp, sensor_id,
+        threshold, current_value, state, occurrences, last_seen,
+        acknowledged_at, resolved_at
+      )
+      VALUES (
+        @id, @type, @location, @severity, @message, @timestamp, @sensor_id,
+        @threshold, @current_value, @state, @occurrences, @last_seen,
+        @acknowledged_at, @resolved_at
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        severity = excluded.severity,
+        message = excluded.message,
+        current_value = excluded.current_value,
+        state = excluded.state,
+        occurrences = excluded.occurrences,
+        last_seen = excluded.last_seen,
+        acknowledged_at = excluded.acknowledged_at,
+        resolved_at = excluded.resolved_at
+    `);
+
+    this.selectOpenAlertsStatement = this.database.prepare(`
+      SELECT * FROM alerts
+      WHERE state != 'resolved'
+      ORDER BY timestamp ASC
     `);
+
+    this.rollupStatements = {
+      // INSERT ... SELECT needs a WHERE clause before ON CONFLICT to parse
+      rollupHourly: this.database.prepare(`
+        INSERT INTO sensor_readings_hourly
+          (sensor_id, bucket_start, min, max, avg, count)
+        SELECT
+          sensor_id,
+          strftime('%Y-%m-%dT%H:00:00.000Z', timestamp) AS bucket,
+          MIN(value), MAX(value), AVG(value), COUNT(*)
+        FROM sensor_readings
+        WHERE timestamp >= @from AND timestamp < @to
+        GROUP BY sensor_id, bucket
+        ON CONFLICT(sensor_id, bucket_start) DO UPDATE SET
+          min = excluded.min,
+          max = excluded.max,
+          avg = excluded.avg,
+          count = excluded.count
+      `),
+      rollupDaily: this.database.prepare(`
+        INSERT INTO sensor_readings_daily
+          (sensor_id, bucket_start, min, max, avg, count)
+        SELECT
+          sensor_id,
+          strftime('%Y-%m-%dT00:00:00.000Z', bucket_start) AS bucket,
+          MIN(min), MAX(max), SUM(avg * count) / SUM(count), SUM(count)
+        FROM sensor_readings_hourly
+        WHERE bucket_start >= @from AND bucket_start < @to
+        GROUP BY sensor_id, bucket
+        ON CONFLICT(sensor_id, bucket_start) DO UPDATE SET
+          min = excluded.min,
+          max = excluded.max,
+          avg = excluded.avg,
+          count = excluded.count
+      `),
+      pruneRaw: this.database.prepare(
+        `DELETE FROM sensor_readings WHERE timestamp < @cutoff`
+      ),
+      pruneHourly: this.database.prepare(
+        `DELETE FROM sensor_readings_hourly WHERE bucket_start < @cutoff`
+      ),
+      pruneDaily: this.database.prepare(
+        `DELETE FROM sensor_readings_daily WHERE bucket_start < @cutoff`
+      ),
+      getState: this.database.prepare(
+        `SELECT value FROM rollup_state WHERE key = ?`
+      ),
+      setState: this.database.prepare(`
+        INSERT INTO rollup_state (key, value) VALUES (@key, @value)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value
+      `),
+    };
+
+    this.upsertScheduleStatement = this.database.prepare(`
+      INSERT INTO schedules (id, actuator, enabled, definition, created_at, updated_at)
+      VALUES (@id, @actuator, @enabled, @definition, @created_at, @updated_at)
+      ON CONFLICT(id) DO UPDATE SET
+        actuator = excluded.actuator,
+        enabled = excluded.enabled,
+        definition = excluded.definition,
+        updated_at = excluded.updated_at
+    `);
+
+    this.selectSchedulesStatement = this.database.prepare(`
+      SELECT definition FROM schedules ORDER BY created_at ASC
+    `);
+
+    this.insertActuatorStateStatement = this.database.prepare(`
+      INSERT INTO actuator_states (actuator, node, value, source, timestamp)
+      VALUES (@actuator, @node, @value, @source, @timestamp)
+    `);
+
+    this.selectLatestActuatorStatesStatement = this.database.prepare(`
+      SELECT actuator, node, value, source, timestamp
+      FROM actuator_states
+      WHERE id IN (
+        SELECT MAX(id) FROM actuator_states GROUP BY actuator, node
+      )
+    `);
+
+    this.selectActuatorHistoryStatement = this.database.prepare(`
+      SELECT actuator, node, value, source, timestamp
+      FROM actuator_states
+      WHERE timestamp >= @from
+        AND timestamp < @to
+        AND (@actuator IS NULL OR actuator = @actuator)
+        AND (@node IS NULL OR node = @node)
+      ORDER BY timestamp DESC, id DESC
+      LIMIT @limit
+    `);
+
+    const bucketQuery = (table: string, column: string, aggregates: string) => `
+      SELECT
+        sensor_id,
+        (${toEpochMs(column)} / CAST(@bucket AS INTEGER))
+          * CAST(@bucket AS INTEGER) AS bucket,
+        ${aggregates}
+      FROM ${table}
+      WHERE ${column} >= @from
+        AND ${column} < @to
+        AND (@all = 1 OR sensor_id IN (SELECT value FROM json_each(@sensors)))
+      GROUP BY sensor_id, bucket
+    `;
+
+    this.bucketStatements = {
+      raw: this.database.prepare(
+        bucketQuery(
+          "sensor_readings",
+          "timestamp",
+          "MIN(value) AS min, MAX(value) AS max, SUM(value) AS total, COUNT(*) AS count"
+        )
+      ),
+      hourly: this.database.prepare(
+        bucketQuery(
+          "sensor_readings_hourly",
+          "bucket_start",
+          "MIN(min) AS min, MAX(max) AS max, SUM(avg * count) AS total, SUM(count) AS count"
+        )
+      ),
+      daily: this.database.prepare(
+        bucketQuery(
+          "sensor_readings_daily",
+          "bucket_start",
+          "MIN(min) AS min, MAX(max) AS max, SUM(avg * count) AS total, SUM(count) AS count"
+        )
+      ),
+    };
+  }
+
+  /**
+   * Splits the requested range across raw, hourly and daily data. The
+   * coarsest tier the bucket size allows is preferred; parts of the range it
+   * does not cover (not yet rolled up, or already pruned) fall back to the
+   * other tiers, and partial buckets are merged.
+   */
+  public queryReadings(query: ReadingsQuery): ReadingBucket[] {
+    const merged = new Map<string, BucketRow>();
+
+    for (const segment of this.planReadingSegments(query)) {
+      // include the rollup bucket the range starts in, like raw data would
+      const resolution = TIER_RESOLUTION_MS[segment.tier];
+      const from =
+        segment.from === query.from
+          ? Math.floor(segment.from / resolution) * resolution
+          : segment.from;
+      const rows = this.bucketStatements[segment.tier].all({
+        bucket: query.bucketMs,
+        from: new Date(from).toISOString(),
+        to: new Date(segment.to).toISOString(),
+        all: query.sensorIds.length ? 0 : 1,
+        sensors: JSON.stringify(query.sensorIds),
+      }) as BucketRow[];
+
+      for (const row of rows) {
+        const key = `${row.sensor_id}|${row.bucket}`;
+        const existing = merged.get(key);
+        if (!existing) {
+          merged.set(key, { ...row });
+          continue;
+        }
+        existing.min = Math.min(existing.min, row.min);
+        existing.max = Math.max(existing.max, row.max);
+        existing.total += row.total;
+        existing.count += row.count;
+      }
+    }
+
+    return Array.from(merged.values())
+      .sort((a, b) =>
+        a.sensor_id === b.sensor_id
+          ? a.bucket - b.bucket
+          : a.sensor_id.localeCompare(b.sensor_id)
+      )
+      .map((row) => ({
+        sensorId: row.sensor_id,
+        bucketStart: new Date(row.bucket).toISOString(),
+        min: row.min,
+        max: row.max,
+        avg: row.count ? row.total / row.count : 0,
+        count: row.count,
+      }));
+  }
+
+  private planReadingSegments(query: ReadingsQuery): ReadingSegment[] {
+    const coverage: Record<ReadingTier, [number, number]> = {
+      raw: [this.getRollupState("raw_floor"), Infinity],
+      hourly: [
+        this.getRollupState("hourly_floor"),
+        this.getRollupState("hourly_watermark"),
+      ],
+      daily: [
+        this.getRollupState("daily_floor"),
+        this.getRollupState("daily_watermark"),
+      ],
+    };
+
+    const priority: ReadingTier[] =
+      query.bucketMs % DAY_MS === 0
+        ? ["daily", "hourly", "raw"]
+        : query.bucketMs % HOUR_MS === 0
+        ? ["hourly", "raw", "daily"]
+        : ["raw", "hourly", "daily"];
+
+    const edges = new Set([query.from, query.to]);
+    for (const [start, end] of Object.values(coverage)) {
+      if (start > query.from && start < query.to) edges.add(start);
+      if (end > query.from && end < query.to) edges.add(end);
+    }
+    const points = Array.from(edges).sort((a, b) => a - b);
+
+    const segments: ReadingSegment[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      const from = points[i];
+      const to = points[i + 1];
+      const tier = priority.find(
+        (t) => coverage[t][0] <= from && coverage[t][1] >= to
+      );
+      if (!tier) continue;
+
+      const last = segments[segments.length - 1];
+      if (last && last.tier === tier && last.to === from) last.to = to;
+      else segments.push({ tier, from, to });
+    }
+    return segments;
+  }
+
+  public getWriteStats(): Record<DatabaseTable, DatabaseWriteStats> {
+    const tables: DatabaseTable[] = [
+      "sensor_readings",
+      "alerts",
+      "schedules",
+      "actuator_states",
+    ];
+    const stats = {} as Record<DatabaseTable, DatabaseWriteStats>;
+    for (const table of tables) {
+      stats[table] = { rows: 0, failures: 0, ...this.writeStats.get(table) };
+    }
+    return stats;
+  }
+
+  private recordWrite(table: DatabaseTable, rows: number, write: () => void) {
+    const stats = this.writeStats.get(table) ?? { rows: 0, failures: 0 };
+    this.writeStats.set(table, stats);
+    try {
+      write();
+      stats.rows += rows;
+    } catch (err) {
+      stats.failures += 1;
+      throw err;
+    }
+  }
+
+  public saveSchedule(schedule: Schedule) {
+    this.recordWrite("schedules", 1, () =>
+      this.upsertScheduleStatement.run({
+        id: schedule.id,
+        actuator: schedule.actuator,
+        enabled: schedule.enabled ? 1 : 0,
+        definition: JSON.stringify(schedule),
+        created_at: schedule.createdAt,
+        updated_at: schedule.updatedAt,
+      })
+    );
+  }
+
+  public loadSchedules(): Schedule[] {
+    const rows = this.selectSchedulesStatement.all() as {
+      definition: string;
+    }[];
+    return rows.map((row) => JSON.parse(row.definition) as Schedule);
+  }
+
+  public saveActuatorState(state: ActuatorState) {
+    this.recordWrite("actuator_states", 1, () =>
+      this.insertActuatorStateStatement.run({
+        actuator: state.actuator,
+        node: state.node ?? "",
+        value: JSON.stringify(state.value),
+        source: state.source,
+        timestamp: state.updatedAt,
+      })
+    );
+  }
+
+  public loadLatestActuatorStates(): ActuatorState[] {
+    const rows =
+      this.selectLatestActuatorStatesStatement.all() as ActuatorStateRow[];
+    return rows.map((row) => this.toActuatorState(row));
+  }
+
+  public queryActuatorHistory(query: ActuatorHistoryQuery): ActuatorState[] {
+    const rows = this.selectActuatorHistoryStatement.all({
+      actuator: query.actuator ?? null,
+      node: query.node ?? null,
+      from: query.from,
+      to: query.to,
+      limit: query.limit,
+    }) as ActuatorStateRow[];
+    return rows.map((row) => this.toActuatorState(row));
+  }
+
+  private toActuatorState(row: ActuatorStateRow): ActuatorState {
+    const state: ActuatorState = {
+      actuator: row.actuator,
+      value: JSON.parse(row.value),
+      source: row.source,
+      updatedAt: row.timestamp,
+    };
+    if (row.node) state.node = row.node;
+    return state;
+  }
+
+  public saveAlert(alert: IAlert) {
+    this.recordWrite("alerts", 1, () =>
+      this.upsertAlertStatement.run({
+        id: alert.id,
+        type: alert.type,
+        location: alert.location,
+        severity: alert.severity,
+        message: alert.message,
+        timestamp: alert.timestamp,
+        sensor_id: alert.sensorId ?? null,
+        threshold: alert.threshold ?? null,
+        current_value: alert.currentValue ?? null,
+        state: alert.state ?? "active",
+        occurrences: alert.occurrences ?? 1,
+        last_seen: alert.lastSeen ?? alert.timestamp,
+        acknowledged_at: alert.acknowledgedAt ?? null,
+        resolved_at: alert.resolvedAt ?? null,
+      })
+    );
+  }
+
+  public loadOpenAlerts(): IAlert[] {
+    const rows = this.selectOpenAlertsStatement.all() as AlertRow[];
+    return rows.map((row) => {
+      const alert: IAlert = {
+        id: row.id,
+        type: row.type,
+        location: row.location,
+        severity: row.severity,
+        message: row.message,
+        timestamp: row.timestamp,
+        state: row.state,
+        occurrences: row.occurrences,
+        lastSeen: row.last_seen,
+      };
+      if (row.sensor_id !== null) alert.sensorId = row.sensor_id;
+      if (row.threshold !== null) alert.threshold = row.threshold;
+      if (row.current_value !== null) alert.currentValue = row.current_value;
+      if (row.acknowledged_at !== null) {
+        alert.acknowledgedAt = row.acknowledged_at;
+      }
+      return alert;
+    });
+  }
+
+  public listSensors(): SensorInfo[] {
+    const rows = this.selectSensorsStatement.all() as SensorRow[];
+    return rows.map((row) => {
+      const sensor: SensorInfo = { id: row.id, type: row.type };
+      if (row.location) sensor.location = row.location;
+      if (row.node) sensor.node = row.node;
+      return sensor;
+    });
   }
 
   public saveSensorReading(reading: SensorReading) {
-    const retentionMs = this.getRetentionWindowMs();
-    const cutoff =
-      retentionMs > 0 ? new Date(Date.now() - retentionMs).toISOString() : null;
-
-    const tx = this.database.transaction(
-      (payload: SensorReading, retentionCutoff: string | null) => {
-        this.upsertSensorStatement.run({
-          id: payload.id,
-          type: payload.type,
-        });
+    this.saveSensorReadings([reading]);
+  }
+
+  public saveSensorReadings(readings: SensorReading[]) {
+    if (!readings.length) return;
+    const tx = this.database.transaction((payload: SensorReading[]) => {
+      const seen = new Set<string>();
+      const rolledUntil = this.getRollupState("hourly_watermark");
+      for (const reading of payload) {
+        const at = Date.parse(reading.timestamp);
+        if (at < rolledUntil) {
+          this.lateHours.add(Math.floor(at / HOUR_MS) * HOUR_MS);
+        }
+        if (!seen.has(reading.id)) {
+          seen.add(reading.id);
+          this.upsertSensorStatement.run({
+            id: reading.id,
+            type: reading.type,
+            location: reading.location ?? null,
+            node: reading.node ?? null,
+          });
+        }
 
         this.insertReadingStatement.run({
-          sensor_id: payload.id,
-          timestamp: payload.timestamp,
+          sensor_id: reading.id,
+          timestamp: reading.timestamp,
           value:
-            typeof payload.value === "boolean"
-              ? Number(payload.value)
-              : payload.value,
+            typeof reading.value === "boolean"
+              ? Number(reading.value)
+              : reading.value,
         });
-        if (retentionCutoff) {
-          this.deleteOldReadingsStatement.run({ cutoff: retentionCutoff });
-        }
       }
-    );
+    });
+
+    this.recordWrite("sensor_readings", readings.length, () => tx(readings));
+  }
+
+  /**
+   * Raw readings are rolled up into hourly and daily aggregates, then each
+   * tier is pruned to its own retention window. Values of 0 keep a tier
+   * forever.
+   */
+  private getRetentionDays(): Record<ReadingTier, number> {
+    const days = (value: string | undefined, fallback: number) => {
+      if (!value) return fallback;
+      const num = Number(value);
+      return Number.isFinite(num) && num >= 0 ? num : fallback;
+    };
+    return {
+      raw:
+        this.retentionDays.raw ??
+        days(
+          process.env.SENSOR_RAW_RETENTION_DAYS ??
+            process.env.SENSOR_RETENTION_DAYS,
+          7
+        ),
+      hourly:
+        this.retentionDays.hourly ??
+        days(process.env.SENSOR_HOURLY_RETENTION_DAYS, 365),
+      daily:
+        this.retentionDays.daily ??
+        days(process.env.SENSOR_DAILY_RETENTION_DAYS, 3650),
+    };
+  }
+
+  private getRollupState(key: RollupStateKey): number {
+    const row = this.rollupStatements.getState.get(key) as
+      | { value: number }
+      | undefined;
+    return row?.value ?? 0;
+  }
+
+  private setRollupState(key: RollupStateKey, value: number) {
+    this.rollupStatements.setState.run({ key, value });
+  }
+
+  public compactReadings(now = Date.now()) {
+    const retention = this.getRetentionDays();
+    const iso = (ms: number) => new Date(ms).toISOString();
+    const { rollupHourly, rollupDaily, pruneRaw, pruneHourly, pruneDaily } =
+      this.rollupStatements;
 
-    tx(reading, cutoff);
+    const lateHours = [...this.lateHours];
+    const tx = this.database.transaction(() => {
+      // re-aggregate hours that got late rows, unless their raw rows are
+      // already partly pruned
+      const rawFloor = this.getRollupState("raw_floor");
+      const hourlyFloor = this.getRollupState("hourly_floor");
+      const rolledDays = this.getRollupState("daily_watermark");
+      const lateDays = new Set<number>();
+      for (const hour of lateHours) {
+        if (hour < rawFloor || hour < hourlyFloor) continue;
+        rollupHourly.run({ from: iso(hour), to: iso(hour + HOUR_MS) });
+        const day = Math.floor(hour / DAY_MS) * DAY_MS;
+        if (day < rolledDays) lateDays.add(day);
+      }
+      for (const day of lateDays) {
+        rollupDaily.run({ from: iso(day), to: iso(day + DAY_MS) });
+      }
+
+      // only completed hours/days are rolled up; the open one stays raw
+      const hourEnd = Math.floor(now / HOUR_MS) * HOUR_MS;
+      const hourlyFrom = this.getRollupState("hourly_watermark");
+      if (hourEnd > hourlyFrom) {
+        rollupHourly.run({ from: iso(hourlyFrom), to: iso(hourEnd) });
+        this.setRollupState("hourly_watermark", hourEnd);
+      }
+
+      const dayEnd = Math.floor(hourEnd / DAY_MS) * DAY_MS;
+      const dailyFrom = this.getRollupState("daily_watermark");
+      if (dayEnd > dailyFrom) {
+        rollupDaily.run({ from: iso(dailyFrom), to: iso(dayEnd) });
+        this.setRollupState("daily_watermark", dayEnd);
+      }
+
+      // never prune a tier past what the next tier has already absorbed
+      const prune = (
+        tier: ReadingTier,
+        statement: Database.Statement,
+        absorbedUntil: number,
+        alignTo: number,
+        floorKey: RollupStateKey
+      ) => {
+        if (retention[tier] <= 0) return;
+        // cut on the coarser tier's bucket edges so no bucket is half pruned
+        const cutoff =
+          Math.floor(
+            Math.min(now - retention[tier] * DAY_MS, absorbedUntil) / alignTo
+          ) * alignTo;
+        if (cutoff <= this.getRollupState(floorKey)) return;
+        statement.run({ cutoff: iso(cutoff) });
+        this.setRollupState(floorKey, cutoff);
+      };
+
+      prune("raw", pruneRaw, hourEnd, HOUR_MS, "raw_floor");
+      prune("hourly", pruneHourly, dayEnd, DAY_MS, "hourly_floor");
+      prune("daily", pruneDaily, now, DAY_MS, "daily_floor");
+    });
+
+    tx();
+    for (const hour of lateHours) this.lateHours.delete(hour);
     this.checkpointIfNeeded();
   }
 
-  private getRetentionWindowMs(): number {
-    const env = process.env.SENSOR_RETENTION_DAYS || "30";
-    const days = env ? Number(env) : 30;
-    if (!Number.isFinite(days) || days <= 0) return 0;
-    return days * 24 * 60 * 60 * 1000;
+  /** `beforeCompact` lets buffered writers get their rows in first. */
+  public startMaintenance(
+    intervalMs = 10 * 60 * 1000,
+    beforeCompact?: () => void
+  ) {
+    if (this.maintenanceTimer) return;
+    const run = () => {
+      try {
+        beforeCompact?.();
+        this.compactReadings();
+      } catch (err) {
+        console.error("Failed to compact sensor readings", err);
+      }
+    };
+    run();
+    this.maintenanceTimer = setInterval(run, intervalMs);
+  }
+
+  public stopMaintenance() {
+    if (!this.maintenanceTimer) return;
+    clearInterval(this.maintenanceTimer);
+    this.maintenanceTimer = undefined;
+  }
+
+  public close() {
+    this.stopMaintenance();
+    if (this.database.open) this.database.close();
   }
 
   private lastCheckpoint = 0;
@@ -0,0 +1,163 @@
+import type Database from "better-sqlite3";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Append-only: never edit a migration that has shipped, add a new one.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (db) =>
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS sensors (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          location TEXT,
+          description TEXT
+      );
+      CREATE TABLE IF NOT EXISTS sensor_readings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sensor_id TEXT NOT NULL,
+          timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+          value REAL NOT NULL,
+          FOREIGN KEY (sensor_id) REFERENCES sensors(id)
+      );
+      CREATE TABLE IF NOT EXISTS alerts (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          location TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          message TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          sensor_id TEXT,
+          threshold REAL,
+          current_value REAL,
+          state TEXT NOT NULL DEFAULT 'active',
+          occurrences INTEGER NOT NULL DEFAULT 1,
+          last_seen INTEGER NOT NULL,
+          acknowledged_at INTEGER,
+          resolved_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS sensor_readings_hourly (
+          sensor_id TEXT NOT NULL,
+          bucket_start TEXT NOT NULL,
+          min REAL NOT NULL,
+          max REAL NOT NULL,
+          avg REAL NOT NULL,
+          count INTEGER NOT NULL,
+          PRIMARY KEY (sensor_id, bucket_start)
+      );
+      CREATE TABLE IF NOT EXISTS sensor_readings_daily (
+          sensor_id TEXT NOT NULL,
+          bucket_start TEXT NOT NULL,
+          min REAL NOT NULL,
+          max REAL NOT NULL,
+          avg REAL NOT NULL,
+          count INTEGER NOT NULL,
+          PRIMARY KEY (sensor_id, bucket_start)
+      );
+      CREATE TABLE IF NOT EXISTS rollup_state (
+          key TEXT PRIMARY KEY,
+          value INTEGER NOT NULL
+      );
+      `),
+  },
+  {
+    version: 2,
+    name: "sensor readings lookup index",
+    up: (db) =>
+      db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_sensor_readings_sensor_time
+        ON sensor_readings (sensor_id, timestamp);
+      `),
+  },
+  {
+    version: 3,
+    name: "actuator schedules",
+    up: (db) =>
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+          id TEXT PRIMARY KEY,
+          actuator TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          definition TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+      );
+      `),
+  },
+  {
+    version: 4,
+    name: "actuator state history",
+    up: (db) =>
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS actuator_states (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          actuator TEXT NOT NULL,
+          node TEXT NOT NULL DEFAULT '',
+          value TEXT NOT NULL,
+          source TEXT NOT NULL,
+          timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_actuator_states_actuator_time
+        ON actuator_states (actuator, node, timestamp);
+      `),
+  },
+  {
+    version: 5,
+    name: "remote sensor nodes",
+    up: (db) =>
+      db.exec(`
+      ALTER TABLE sensors ADD COLUMN node TEXT;
+      `),
+  },
+];
+
+export const getSchemaVersion = (db: Database.Database): number =>
+  db.pragma("user_version", { simple: true }) as number;
+
+/**
+ * Applies every migration newer than the database's `user_version`, each in
+ * its own transaction together with the version bump. Returns the resulting
+ * version. Refuses to touch databases written by a newer schema.
+ */
+export const runMigrations = (
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): number => {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  const latest = ordered.length ? ordered[ordered.length - 1].version : 0;
+  const current = getSchemaVersion(db);
+
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than the supported version ${latest}; refusing to start`
+    );
+  }
+
+  for (const migration of ordered) {
+    if (migration.version <= current) continue;
+    const apply = db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    });
+    try {
+      apply();
+    } catch (err) {
+      throw new Error(
+        `Database migration ${migration.version} (${migration.name}) failed: ${
+          (err as Error).message
+        }`
+      );
+    }
+    console.log(
+      `Applied database migration ${migration.version} (${migration.name})`
+    );
+  }
+
+  return getSchemaVersion(db);
+};
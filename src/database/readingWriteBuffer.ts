@@ -0,0 +1,129 @@
+import type { SensorReading } from "../types";
+import type { DatabaseHandler } from "./database";
+
+interface ReadingWriteBufferOptions {
+  maxBatchSize?: number;
+  flushIntervalMs?: number;
+  // readings kept for retry when the database keeps failing
+  maxBufferedReadings?: number;
+}
+
+export interface ReadingWriteStats {
+  buffered: number;
+  flushed: number;
+  failed: number;
+  dropped: number;
+  // readings without a number or boolean value, which the table refuses
+  skipped: number;
+  flushes: number;
+  lastFlushAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Collects sensor readings in memory and writes them in a single transaction
+ * once `maxBatchSize` readings are queued or `flushIntervalMs` has passed.
+ */
+export class ReadingWriteBuffer {
+  private readonly database: DatabaseHandler;
+  private readonly maxBatchSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly maxBufferedReadings: number;
+  private buffer: SensorReading[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private retryAfter = 0;
+  private stats: Omit<ReadingWriteStats, "buffered"> = {
+    flushed: 0,
+    failed: 0,
+    dropped: 0,
+    skipped: 0,
+    flushes: 0,
+  };
+
+  constructor(
+    database: DatabaseHandler,
+    options: ReadingWriteBufferOptions = {}
+  ) {
+    this.database = database;
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 200);
+    this.flushIntervalMs = Math.max(0, options.flushIntervalMs ?? 5000);
+    this.maxBufferedReadings = Math.max(
+      this.maxBatchSize,
+      options.maxBufferedReadings ?? 20_000
+    );
+  }
+
+  public start() {
+    if (this.flushTimer || this.flushIntervalMs <= 0) return;
+    this.flushTimer = setInterval(() => this.flush(), this.flushIntervalMs);
+  }
+
+  public stop() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.flush();
+  }
+
+  public add(reading: SensorReading) {
+    // one unstorable value would otherwise fail and retry every batch it is in
+    if (
+      typeof reading.value !== "boolean" &&
+      (typeof reading.value !== "number" || !Number.isFinite(reading.value))
+    ) {
+      this.stats.skipped += 1;
+      return;
+    }
+    this.buffer.push(reading);
+    if (this.buffer.length > this.maxBufferedReadings) {
+      const overflow = this.buffer.length - this.maxBufferedReadings;
+      this.buffer.splice(0, overflow);
+      this.stats.dropped += overflow;
+    }
+    // after a failed write, leave retries to the interval instead of every add
+    if (
+      this.buffer.length >= this.maxBatchSize &&
+      Date.now() >= this.retryAfter
+    ) {
+      this.flush();
+    }
+  }
+
+  /** Writes everything buffered so far; returns the number of rows written. */
+  public flush(): number {
+    if (!this.buffer.length) return 0;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    try {
+      this.database.saveSensorReadings(batch);
+      this.stats.flushed += batch.length;
+      this.stats.flushes += 1;
+      this.stats.lastFlushAt = Date.now();
+      this.stats.lastError = undefined;
+      this.retryAfter = 0;
+      return batch.length;
+    } catch (err) {
+      this.stats.failed += batch.length;
+      this.stats.lastError = (err as Error).message;
+      this.retryAfter = Date.now() + this.flushIntervalMs;
+      console.error(
+        `[Database] Failed to write ${batch.length} buffered readings`,
+        err
+      );
+      // keep the batch for the next attempt, oldest readings first
+      this.buffer = batch.concat(this.buffer);
+      const overflow = this.buffer.length - this.maxBufferedReadings;
+      if (overflow > 0) {
+        this.buffer.splice(0, overflow);
+        this.stats.dropped += overflow;
+      }
+      return 0;
+    }
+  }
+
+  public getStats(): ReadingWriteStats {
+    return { ...this.stats, buffered: this.buffer.length };
+  }
+}
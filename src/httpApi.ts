@@ -0,0 +1,300 @@
+import http from "node:http";
+import { uuid } from "uuidv4";
+import { AccessTokens, authenticate } from "./accessTokens";
+import { CommandContext, CommandError } from "./commandRouter";
+import { OPENAPI_SPEC } from "./httpApiSpec";
+import { PROMETHEUS_CONTENT_TYPE } from "./metrics";
+import { parseReadingsQuery } from "./queryParams";
+import type { SessionPermission } from "./socketSession";
+import type { Command, ReadingsQuery } from "./types";
+
+/** What the API serves; returning undefined from `readings` means 404. */
+export interface HttpApiHandlers {
+  status: () => unknown;
+  sensors: () => unknown;
+  readings: (sensorId: string, query: ReadingsQuery) => unknown;
+  alerts: (params: Record<string, unknown>) => unknown;
+  command: (packet: Command, context: CommandContext) => Promise<unknown>;
+  // Prometheus text format
+  metrics: () => string;
+}
+
+export interface HttpApiOptions {
+  port: number;
+  host?: string;
+  // without tokens every request is allowed, so keep the host local
+  tokens?: AccessTokens;
+  maxBodyBytes?: number;
+}
+
+type Route = {
+  method: "GET" | "POST";
+  pattern: RegExp;
+  permission: SessionPermission;
+  // responses are JSON unless a route says otherwise
+  contentType?: string;
+  handle: (
+    match: RegExpExecArray,
+    params: Record<string, unknown>,
+    req: http.IncomingMessage,
+    permission: SessionPermission
+  ) => unknown;
+};
+
+class HttpError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// open alerts only; resolved ones leave the worker's memory
+const ALERT_STATES = ["active", "acknowledged"];
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (err) {
+    throw new HttpError(400, `Malformed path segment ${segment}`);
+  }
+};
+
+// bus failures surface as plain errors; map the ones a client can act on
+const busErrorStatus = (err: Error) => {
+  if (/timed out|expired/.test(err.message)) return 504;
+  if (/queue is full|dropped for/.test(err.message)) return 503;
+  return 502;
+};
+
+/**
+ * Plain JSON over HTTP for integrations that cannot hold a socket open.
+ * Validation errors and refused commands are 400s, bus failures 502-504 and
+ * anything else a 500.
+ */
+export class HttpApi {
+  private readonly options: HttpApiOptions;
+  private readonly handlers: HttpApiHandlers;
+  private readonly routes: Route[];
+  private server?: http.Server;
+
+  constructor(options: HttpApiOptions, handlers: HttpApiHandlers) {
+    this.options = options;
+    this.handlers = handlers;
+    this.routes = [
+      {
+        method: "GET",
+        pattern: /^\/openapi\.json$/,
+        permission: "read",
+        handle: () => OPENAPI_SPEC,
+      },
+      {
+        method: "GET",
+        pattern: /^\/metrics$/,
+        permission: "read",
+        contentType: PROMETHEUS_CONTENT_TYPE,
+        handle: () => handlers.metrics(),
+      },
+      {
+        method: "GET",
+        pattern: /^\/status$/,
+        permission: "read",
+        handle: () => handlers.status(),
+      },
+      {
+        method: "GET",
+        pattern: /^\/sensors$/,
+        permission: "read",
+        handle: () => handlers.sensors(),
+      },
+      {
+        method: "GET",
+        pattern: /^\/sensors\/([^/]+)\/readings$/,
+        permission: "read",
+        handle: (match, params) => {
+          const sensorId = decodeSegment(match[1]);
+          let query: ReadingsQuery;
+          try {
+            query = parseReadingsQuery({ ...params, sensorIds: [sensorId] });
+          } catch (err) {
+            throw new HttpError(400, (err as Error).message);
+          }
+          const result = handlers.readings(sensorId, query);
+          if (result === undefined) {
+            throw new HttpError(404, `Unknown sensor ${sensorId}`);
+          }
+          return result;
+        },
+      },
+      {
+        method: "GET",
+        pattern: /^\/alerts$/,
+        permission: "read",
+        handle: (_match, params) => {
+          if (
+            params.state !== undefined &&
+            !ALERT_STATES.includes(params.state as string)
+          ) {
+            throw new HttpError(
+              400,
+              `state must be one of ${ALERT_STATES.join(", ")}`
+            );
+          }
+          return handlers.alerts(params);
+        },
+      },
+      {
+        method: "POST",
+        pattern: /^\/commands$/,
+        // read tokens may still run the read-only commands
+        permission: "read",
+        handle: (_match, _params, req, permission) =>
+          this.runCommand(req, permission),
+      },
+    ];
+  }
+
+  public async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.removeListener("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  public address() {
+    return this.server?.address();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      const candidates = this.routes.filter((route) =>
+        route.pattern.test(url.pathname)
+      );
+      if (!candidates.length) {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+      }
+      const route = candidates.find((r) => r.method === req.method);
+      if (!route) {
+        res.setHeader(
+          "Allow",
+          candidates.map((candidate) => candidate.method).join(", ")
+        );
+        throw new HttpError(405, `${req.method} is not allowed here`);
+      }
+      const permission = this.authorize(req, route.permission);
+
+      const match = route.pattern.exec(url.pathname)!;
+      const params = Object.fromEntries(url.searchParams);
+      const body = await route.handle(match, params, req, permission);
+      if (route.contentType) {
+        res.writeHead(200, { "Content-Type": route.contentType });
+        res.end(body);
+        return;
+      }
+      this.send(res, 200, body);
+    } catch (err) {
+      const error = err as Error;
+      const statusCode = err instanceof HttpError ? err.statusCode : 500;
+      if (statusCode >= 500) {
+        console.warn(`[HTTP] ${req.method} ${url.pathname}: ${error.message}`);
+      }
+      this.send(res, statusCode, { error: { message: error.message } });
+    }
+  }
+
+  private authorize(
+    req: http.IncomingMessage,
+    required: SessionPermission
+  ): SessionPermission {
+    const tokens = this.options.tokens;
+    if (!tokens?.size) return "control";
+    const permission = authenticate(tokens, req);
+    if (!permission) {
+      console.warn(
+        `[HTTP] Rejected ${req.socket.remoteAddress}: missing or invalid token`
+      );
+      throw new HttpError(401, "Missing or invalid bearer token");
+    }
+    if (required === "control" && permission !== "control") {
+      throw new HttpError(403, "This token is read-only");
+    }
+    return permission;
+  }
+
+  private async runCommand(
+    req: http.IncomingMessage,
+    permission: SessionPermission
+  ) {
+    const body = await this.readJson(req);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      throw new HttpError(400, "Command must be a JSON object");
+    }
+    const { timeoutMs, ...fields } = body as Command & { timeoutMs?: unknown };
+    const packet: Command = { ...fields, id: fields.id ?? uuid() };
+    if (typeof packet.cmd !== "string" || !packet.cmd) {
+      throw new HttpError(400, "Command requires a cmd");
+    }
+    if (
+      timeoutMs !== undefined &&
+      (typeof timeoutMs !== "number" || !(timeoutMs > 0))
+    ) {
+      throw new HttpError(400, "timeoutMs must be a positive number");
+    }
+
+    try {
+      const reply = await this.handlers.command(packet, {
+        permission,
+        timeoutMs,
+      });
+      return { id: packet.id, cmd: packet.cmd, reply };
+    } catch (err) {
+      const error = err as Error;
+      if (err instanceof CommandError) {
+        throw new HttpError(err.forbidden ? 403 : 400, error.message);
+      }
+      throw new HttpError(busErrorStatus(error), error.message);
+    }
+  }
+
+  private readJson(req: http.IncomingMessage): Promise<unknown> {
+    const limit = this.options.maxBodyBytes ?? 64 * 1024;
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          // keep draining so the 413 still reaches the client
+          reject(new HttpError(413, `Body exceeds ${limit} bytes`));
+          chunks.length = 0;
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("error", reject);
+      req.on("end", () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+        } catch (err) {
+          reject(new HttpError(400, "Body is not valid JSON"));
+        }
+      });
+    });
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown) {
+    if (res.headersSent) return;
+    res.writeHead(statusCode, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
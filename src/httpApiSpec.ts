@@ -0,0 +1,258 @@
+// OpenAPI description of src/httpApi.ts, served at /openapi.json
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+});
+
+const jsonResponse = (description: string, schema: unknown) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+export const OPENAPI_SPEC = {
+  openapi: "3.0.3",
+  info: {
+    title: "Greenhouse worker API",
+    version: "1.0.0",
+    description:
+      "Status, sensor data, alerts and bus commands of the greenhouse worker.",
+  },
+  security: [{ bearer: [] }, {}],
+  paths: {
+    "/metrics": {
+      get: {
+        summary: "Prometheus metrics",
+        responses: {
+          200: {
+            description: "Metrics in the Prometheus text format",
+            content: { "text/plain": { schema: { type: "string" } } },
+          },
+        },
+      },
+    },
+    "/status": {
+      get: {
+        summary: "RS485 link and node status",
+        responses: {
+          200: jsonResponse("Current status", {
+            $ref: "#/components/schemas/Status",
+          }),
+        },
+      },
+    },
+    "/sensors": {
+      get: {
+        summary: "Known sensors with their latest reading",
+        responses: {
+          200: jsonResponse("Sensors", {
+            type: "array",
+            items: { $ref: "#/components/schemas/Sensor" },
+          }),
+        },
+      },
+    },
+    "/sensors/{id}/readings": {
+      get: {
+        summary: "Aggregated readings of one sensor",
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "from",
+            in: "query",
+            description: "Epoch milliseconds or ISO date, default to - 24h",
+            schema: { type: "string" },
+          },
+          {
+            name: "to",
+            in: "query",
+            description: "Epoch milliseconds or ISO date, default now",
+            schema: { type: "string" },
+          },
+          {
+            name: "bucket",
+            in: "query",
+            description: 'Bucket size in milliseconds or e.g. "5m"',
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          200: jsonResponse("Readings", {
+            $ref: "#/components/schemas/Readings",
+          }),
+          400: errorResponse("Invalid range, bucket or sensor id"),
+          404: errorResponse("Unknown sensor"),
+        },
+      },
+    },
+    "/alerts": {
+      get: {
+        summary: "Open alerts",
+        parameters: [
+          {
+            name: "state",
+            in: "query",
+            schema: { type: "string", enum: ["active", "acknowledged"] },
+          },
+        ],
+        responses: {
+          200: jsonResponse("Alerts", {
+            type: "array",
+            items: { $ref: "#/components/schemas/Alert" },
+          }),
+          400: errorResponse("Unknown state"),
+        },
+      },
+    },
+    "/commands": {
+      post: {
+        summary: "Run a worker command or send one to the bus",
+        description:
+          "Takes the same commands as the local socket. The worker answers " +
+          "its own commands (alerts, automation, schedules, sensors) and " +
+          "forwards the rest to the bus, waiting for the node's reply. A " +
+          "read token may only run the read-only commands.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Command" },
+            },
+          },
+        },
+        responses: {
+          200: jsonResponse("The worker or the node replied", {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              cmd: { type: "string" },
+              reply: {},
+            },
+          }),
+          400: errorResponse("Malformed command or the worker refused it"),
+          401: errorResponse("Missing or invalid token"),
+          403: errorResponse("The command needs a control token"),
+          502: errorResponse("The bus rejected the command"),
+          503: errorResponse("The bus queue is full"),
+          504: errorResponse("The node did not reply in time"),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearer: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: {
+          error: {
+            type: "object",
+            properties: { message: { type: "string" } },
+          },
+        },
+      },
+      Status: {
+        type: "object",
+        properties: {
+          status: {
+            type: "string",
+            enum: ["connected", "disconnected", "fail"],
+          },
+          error: { type: "string" },
+          remote: { type: "object" },
+          nodes: { type: "array", items: { type: "object" } },
+        },
+      },
+      Reading: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          type: { type: "string" },
+          value: { oneOf: [{ type: "number" }, { type: "boolean" }] },
+          timestamp: { type: "string", format: "date-time" },
+          location: { type: "string" },
+          node: { type: "string" },
+        },
+      },
+      Sensor: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          type: { type: "string" },
+          location: { type: "string" },
+          node: { type: "string" },
+          latest: { $ref: "#/components/schemas/Reading" },
+        },
+      },
+      Readings: {
+        type: "object",
+        properties: {
+          sensorIds: { type: "array", items: { type: "string" } },
+          from: { type: "number" },
+          to: { type: "number" },
+          bucketMs: { type: "number" },
+          buckets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                sensorId: { type: "string" },
+                bucketStart: { type: "string", format: "date-time" },
+                min: { type: "number" },
+                max: { type: "number" },
+                avg: { type: "number" },
+                count: { type: "integer" },
+              },
+            },
+          },
+        },
+      },
+      Alert: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          type: { type: "string" },
+          location: { type: "string" },
+          severity: {
+            type: "string",
+            enum: ["low", "medium", "high", "informative"],
+          },
+          message: { type: "string" },
+          timestamp: { type: "number" },
+          sensorId: { type: "string" },
+          state: {
+            type: "string",
+            enum: ["active", "acknowledged", "resolved"],
+          },
+          occurrences: { type: "integer" },
+        },
+      },
+      Command: {
+        type: "object",
+        required: ["cmd"],
+        properties: {
+          cmd: { type: "string", example: "manual_override" },
+          id: { type: "string" },
+          node: { type: "string" },
+          stage: { type: "number" },
+          actuator: {
+            type: "string",
+            enum: ["fan", "pump", "light", "climate"],
+          },
+          value: { oneOf: [{ type: "boolean" }, { type: "number" }] },
+          payload: { type: "object" },
+          timeoutMs: { type: "number" },
+          retry: { type: "boolean" },
+        },
+      },
+    },
+  },
+};
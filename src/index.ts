@@ -1,126 +1,193 @@
 import net from "node:net";
 import fs from "node:fs";
+import path from "node:path";
 import type types = require("./types");
 import { DatabaseHandler } from "./database/database";
+import { ReadingWriteBuffer } from "./database/readingWriteBuffer";
 import { SensorHandler } from "./sensorHandler";
 import { WarningHandler } from "./warningHandler";
 import { uuid } from "uuidv4";
-import { RS485Handler, RS485Options } from "./rs485Hanlder";
+import { RS485Handler, RS485Options, RS485Stats } from "./rs485Hanlder";
+import type { FrameError } from "./rs485Framing";
+import type { BusTransport } from "./transports/busTransport";
+import { LoopbackTransport } from "./transports/loopbackTransport";
+import { TcpTransport } from "./transports/tcpTransport";
+import { NodeSimulator } from "./simulator/nodeSimulator";
+import { SocketSession } from "./socketSession";
+import { WebSocketGateway } from "./webSocketGateway";
+import { HttpApi } from "./httpApi";
+import { MqttBridge } from "./mqttBridge";
+import { MetricsWriter } from "./metrics";
+import { AccessTokens, loadTokenFile } from "./accessTokens";
+import {
+  ConfigSection,
+  ConfigStore,
+  DEFAULT_CONFIG_PATH,
+  GhwConfig,
+} from "./config";
+import { ModbusClient } from "./modbus/modbusClient";
+import { ModbusSensor } from "./modbus/modbusSensor";
+import { loadRegisterMap } from "./modbus/registerMap";
 import { BusManager } from "./busManager";
-
-const SOCKET_PATH = "/tmp/greenhouse.sock";
-type RemoteStatus = {
-  connected: boolean;
-  device?: string;
-  speed?: number;
-  lastHeartbeat?: number;
-  connectedAt?: number;
-  disconnectedAt?: number;
-  reason?: string;
-};
+import { CommandError, CommandRouter } from "./commandRouter";
+import {
+  DEFAULT_THRESHOLD_RULES,
+  ThresholdClearedEvent,
+  ThresholdMonitor,
+} from "./thresholdMonitor";
+import {
+  AutomationController,
+  DEFAULT_AUTOMATION_RULES,
+} from "./automationController";
+import { Scheduler } from "./scheduler";
+import { ActuatorStateTracker } from "./actuatorStateTracker";
+import { NodeRegistry } from "./nodeRegistry";
+import { parseRemoteReadings, RemoteSensorPoller } from "./remoteSensors";
+import { ALERT_SEVERITIES } from "./types";
 
 const RS485_STATUS: {
   status: types.Status;
   error?: string;
-  remote: RemoteStatus;
 } = {
   status: "disconnected",
-  remote: {
-    connected: false,
-  },
 };
 
-const parseNumber = (value?: string) => {
-  if (!value) return undefined;
-  const num = Number(value);
-  return Number.isFinite(num) ? num : undefined;
+const loadStartupConfig = (): ConfigStore => {
+  const configPath = process.env.GHW_CONFIG ?? DEFAULT_CONFIG_PATH;
+  try {
+    const store = new ConfigStore(configPath);
+    console.log(
+      fs.existsSync(configPath)
+        ? `[Config] Loaded ${configPath}`
+        : `[Config] No ${configPath}, using defaults`
+    );
+    return store;
+  } catch (err) {
+    console.error(`[Config] ${configPath}: ${(err as Error).message}`);
+    process.exit(1);
+  }
 };
 
-const HEARTBEAT_TIMEOUT_MS =
-  parseNumber(process.env.RS485_HEARTBEAT_TIMEOUT_MS) ?? 15000;
+const configStore = loadStartupConfig();
+const config = configStore.get();
 
-const RS485_DEBUG = process.env.RS485_DEBUG ?? "";
+const SOCKET_PATH = config.socket.path;
+const HEARTBEAT_TIMEOUT_MS = config.rs485.heartbeatTimeoutMs;
+const DISCOVERY_INTERVAL_MS = config.rs485.discoveryIntervalMs;
+const DISCOVERY_WINDOW_MS = config.rs485.discoveryWindowMs;
+const CLIENT_RETRIES = config.rs485.clientRetries;
+const SENSOR_POLL_MS = config.rs485.sensorPollMs;
+const AUTOMATION_OVERRIDE_MS = config.automation.overrideMs;
 
 const rs485Options: RS485Options = {
-  logTraffic: RS485_DEBUG !== "" && RS485_DEBUG !== "0",
-  driverEnablePin: 18, // Pi GPIO18 ↔ MAX485 DE
-  receiverEnablePin: 23, // Pi GPIO23 ↔ MAX485 RE
-  receiverEnableActiveLow: true,
+  protocol: config.rs485.protocol,
+  logTraffic: config.logging.rs485Traffic,
+  enablePin: config.rs485.enablePin,
+  driverEnablePin: config.rs485.driverEnablePin,
+  receiverEnablePin: config.rs485.receiverEnablePin,
+  receiverEnableActiveLow: config.rs485.receiverEnableActiveLow,
 };
 
-if (process.env.RS485_PORT) rs485Options.path = process.env.RS485_PORT;
-const baudOverride = parseNumber(process.env.RS485_BAUD);
-if (typeof baudOverride === "number") rs485Options.baudRate = baudOverride;
+// left unset, the handler falls back to its own port and baud rate
+if (config.rs485.port) rs485Options.path = config.rs485.port;
+if (config.rs485.baudRate) rs485Options.baudRate = config.rs485.baudRate;
+
+const createTransport = (): BusTransport => {
+  const kind = config.rs485.transport;
+  switch (kind) {
+    case "serial":
+      return new RS485Handler(rs485Options);
+    case "tcp":
+      // the config check guarantees host and port for this transport
+      return new TcpTransport({
+        ...config.rs485.tcp!,
+        protocol: config.rs485.protocol,
+        logTraffic: rs485Options.logTraffic,
+      });
+    case "loopback":
+      return new LoopbackTransport();
+    case "simulator": {
+      const loopback = new LoopbackTransport();
+      const { nodes, seed, ...faults } = config.simulator;
+      for (let i = 1; i <= nodes; i++) {
+        new NodeSimulator({
+          node: `sim-${i}`,
+          seed: seed + i,
+          faults,
+        }).attach(loopback);
+      }
+      return loopback;
+    }
+    default:
+      throw new Error(
+        `Unknown RS485_TRANSPORT "${kind}" (serial, tcp, loopback or simulator)`
+      );
+  }
+};
 
-const legacyEnablePin = parseNumber(process.env.RS485_ENABLE_PIN);
-const driverPinOverride = parseNumber(
-  process.env.RS485_DRIVER_PIN ?? process.env.RS485_DE_PIN
-);
-const receiverPinOverride = parseNumber(
-  process.env.RS485_RECEIVER_PIN ?? process.env.RS485_RE_PIN
-);
+const busTransport = createTransport();
+console.log(`[Bus] Using ${config.rs485.transport} transport`);
 
-if (typeof legacyEnablePin === "number") {
-  rs485Options.enablePin = legacyEnablePin;
-  rs485Options.driverEnablePin = undefined;
-  rs485Options.receiverEnablePin = undefined;
-} else {
-  if (typeof driverPinOverride === "number") {
-    rs485Options.driverEnablePin = driverPinOverride;
-  }
+// Modbus devices sit on the RS485 bus next to the nodes; without a register
+// map nothing is polled
+const MODBUS_MAP_PATH = config.modbus.mapPath;
 
-  if (typeof receiverPinOverride === "number") {
-    rs485Options.receiverEnablePin = receiverPinOverride;
+const createModbusSensors = (): ModbusSensor[] => {
+  if (!fs.existsSync(MODBUS_MAP_PATH)) return [];
+  if (!(busTransport instanceof RS485Handler)) {
+    console.error(
+      `[Modbus] Cannot use ${MODBUS_MAP_PATH}: Modbus needs the serial ` +
+        `transport, not ${config.rs485.transport}`
+    );
+    return [];
   }
-}
 
-if (process.env.RS485_RE_ACTIVE_LOW) {
-  rs485Options.receiverEnableActiveLow =
-    process.env.RS485_RE_ACTIVE_LOW !== "0";
-}
+  try {
+    const entries = loadRegisterMap(MODBUS_MAP_PATH);
+    const serial = busTransport;
+    // each transaction holds the bus like a node request and reads raw bytes
+    const client = new ModbusClient(serial, {
+      baudRate: serial.getBaudRate(),
+      timeoutMs: config.modbus.timeoutMs,
+      exclusive: (task) =>
+        busManager.exclusive("modbus", () => serial.withRawTraffic(task)),
+    });
+    return entries.map((entry) => new ModbusSensor(client, entry));
+  } catch (err) {
+    console.error(`[Modbus] Failed to load ${MODBUS_MAP_PATH}`, err);
+    return [];
+  }
+};
 
-const rs485Handler = new RS485Handler(rs485Options);
-const busManager = new BusManager(rs485Handler);
+const busManager = new BusManager(busTransport, {
+  maxQueueSize: config.rs485.queueSize,
+});
 busManager.init().catch((err) => {
   console.error("Failed to initialize RS485 bus manager", err);
 });
-let heartbeatMonitorTimer: NodeJS.Timeout | undefined;
-
-const markRemoteDisconnected = (
-  reason?: string,
-  overrideError = true
-): boolean => {
-  const remote = RS485_STATUS.remote;
-  if (!remote.connected) {
-    if (reason) remote.reason = reason;
-    return false;
-  }
-  remote.connected = false;
-  remote.disconnectedAt = Date.now();
-  remote.reason = reason;
-  if (RS485_STATUS.status === "connected") {
-    RS485_STATUS.status = "disconnected";
-  }
-  if (reason && (overrideError || !RS485_STATUS.error)) {
-    RS485_STATUS.error = reason;
-  }
-  return true;
+const nodeRegistry = new NodeRegistry({
+  heartbeatTimeoutMs: HEARTBEAT_TIMEOUT_MS,
+});
+let discoveryTimer: NodeJS.Timeout | undefined;
+
+const discoverNodes = async (): Promise<types.NodeStatus[]> => {
+  const startedAt = Date.now();
+  await busManager.broadcast({ cmd: "who" }, DISCOVERY_WINDOW_MS, {
+    priority: "low",
+  });
+  return nodeRegistry
+    .list()
+    .filter((status) => (status.lastSeen ?? 0) >= startedAt);
 };
 
-const startHeartbeatMonitor = () => {
-  if (heartbeatMonitorTimer || HEARTBEAT_TIMEOUT_MS <= 0) return;
-  const interval = Math.max(1000, Math.floor(HEARTBEAT_TIMEOUT_MS / 2));
-  heartbeatMonitorTimer = setInterval(() => {
-    const remote = RS485_STATUS.remote;
-    if (!remote.lastHeartbeat) return;
-    if (!remote.connected) return;
-    const age = Date.now() - remote.lastHeartbeat;
-    if (age > HEARTBEAT_TIMEOUT_MS) {
-      if (markRemoteDisconnected("Remote heartbeat timeout")) {
-        broadcastStatusUpdate();
-      }
-    }
-  }, interval);
+const startDiscovery = () => {
+  if (discoveryTimer || DISCOVERY_INTERVAL_MS <= 0) return;
+  const sweep = () =>
+    discoverNodes().catch((err) =>
+      console.error("[RS485] Node discovery failed", err)
+    );
+  sweep();
+  discoveryTimer = setInterval(sweep, DISCOVERY_INTERVAL_MS);
 };
 
 try {
@@ -131,11 +198,150 @@ process.stdin.setRawMode(true);
 process.stdin.resume();
 process.stdin.setEncoding("utf8");
 
-const databaseHanlder = new DatabaseHandler();
+const databaseHanlder = new DatabaseHandler({
+  path: config.database.path,
+  retentionDays: config.database.retentionDays,
+});
+const readingBuffer = new ReadingWriteBuffer(databaseHanlder);
+readingBuffer.start();
+databaseHanlder.startMaintenance(undefined, () => readingBuffer.flush());
 const sensorHandler = new SensorHandler();
-const warningHandler = new WarningHandler();
+sensorHandler.applySettings(config.sensors);
+const warningHandler = new WarningHandler(databaseHanlder);
+const thresholdMonitor = new ThresholdMonitor(sensorHandler, warningHandler, {
+  rules: config.thresholds,
+});
+thresholdMonitor.start();
+const automationController = new AutomationController(
+  sensorHandler,
+  busManager,
+  { rules: config.automation.rules, overrideDurationMs: AUTOMATION_OVERRIDE_MS }
+);
+automationController.start();
+const scheduler = new Scheduler(databaseHanlder, busManager, {
+  isSuspended: (actuator) =>
+    automationController.getState(actuator).mode !== "manual",
+});
+scheduler.start();
+const actuatorStateTracker = new ActuatorStateTracker(
+  databaseHanlder,
+  busManager
+);
+const remoteSensorPoller = new RemoteSensorPoller(busManager, nodeRegistry, {
+  intervalMs: SENSOR_POLL_MS,
+});
+remoteSensorPoller.start();
+
+const ingestRemoteReadings = (payload: unknown, node?: string) => {
+  for (const reading of parseRemoteReadings(payload, node)) {
+    sensorHandler.ingestReading(reading);
+  }
+};
+
+const clients = new Set<SocketSession>();
+
+// a tokens file replaces the tokens given in the config; like a bad config
+// file, a bad tokens file stops the worker before anything is listening
+const accessTokens = (
+  settings: Pick<GhwConfig["http"], "tokens" | "tokensFile">
+): AccessTokens => {
+  if (!settings.tokensFile) return new Map(Object.entries(settings.tokens));
+  try {
+    return loadTokenFile(settings.tokensFile);
+  } catch (err) {
+    console.error(`[Config] ${settings.tokensFile}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+};
+
+const createWebSocketGateway = (): WebSocketGateway | undefined => {
+  const settings = config.websocket;
+  if (settings.port === undefined) return undefined;
+  return new WebSocketGateway({
+    port: settings.port,
+    host: settings.host,
+    path: settings.path,
+    tokens: accessTokens(settings),
+    tlsCertPath: settings.tlsCert,
+    tlsKeyPath: settings.tlsKey,
+  });
+};
+
+const webSocketGateway = createWebSocketGateway();
+
+const commandRouter = new CommandRouter({
+  warningHandler,
+  automationController,
+  scheduler,
+  sensorHandler,
+  configStore,
+  database: databaseHanlder,
+  readingBuffer,
+  nodeRegistry,
+  busManager,
+  webSocketGateway,
+  discoverNodes,
+  sendSnapshot: (session) => sendSnapshot(session),
+  forward: (packet, timeoutMs) => forwardCommand(packet, timeoutMs),
+});
+
+// stored sensors plus any that have reported but not been written yet
+const knownSensors = (): types.SensorInfo[] => {
+  const sensors = new Map(
+    databaseHanlder.listSensors().map((sensor) => [sensor.id, sensor])
+  );
+  for (const reading of sensorHandler.getCachedReadings()) {
+    const { id, type, location, node } = sensors.get(reading.id) ?? reading;
+    sensors.set(id, { id, type, location, node, latest: reading });
+  }
+  return Array.from(sensors.values());
+};
+
+const createHttpApi = (): HttpApi | undefined => {
+  const settings = config.http;
+  if (settings.port === undefined) return undefined;
+  const tokens = accessTokens(settings);
+  return new HttpApi(
+    {
+      port: settings.port,
+      // an API without tokens is only reachable from the Pi itself
+      host: settings.host ?? (tokens.size ? undefined : "127.0.0.1"),
+      tokens,
+    },
+    {
+      status: () => statusSnapshot(),
+      sensors: () => knownSensors(),
+      readings: (sensorId, query) => {
+        if (!knownSensors().some((sensor) => sensor.id === sensorId)) {
+          return undefined;
+        }
+        readingBuffer.flush();
+        return { ...query, buckets: databaseHanlder.queryReadings(query) };
+      },
+      alerts: (params) => {
+        const warnings = warningHandler.getWarnings();
+        return params.state === undefined
+          ? warnings
+          : warnings.filter((warning) => warning.state === params.state);
+      },
+      command: (packet, context) => commandRouter.dispatch(packet, context),
+      metrics: () => collectMetrics(),
+    }
+  );
+};
+
+const httpApi = createHttpApi();
+
+const createMqttBridge = (): MqttBridge | undefined => {
+  const { url, bufferSize, ...settings } = config.mqtt;
+  if (!url) return undefined;
+  return new MqttBridge(
+    { ...settings, url, maxBufferedMessages: bufferSize },
+    (packet) => commandRouter.dispatch(packet, { permission: "control" })
+  );
+};
 
-const clients = new Set<net.Socket>();
+const mqttBridge = createMqttBridge();
 
 const isCommandMessage = (payload: unknown): payload is types.Command => {
   if (!payload || typeof payload !== "object") return false;
@@ -143,153 +349,370 @@ const isCommandMessage = (payload: unknown): payload is types.Command => {
   return typeof candidate.cmd === "string";
 };
 
-const broadcast = (payload: string) => {
+const broadcast = (event: string, data: unknown) => {
   for (const client of clients) {
-    if (client.destroyed || !client.writable) {
+    if (!client.open) {
       clients.delete(client);
       continue;
     }
 
-    client.write(payload);
+    client.sendEvent(event, data);
   }
 };
 
+// `remote` mirrors the most recently heard node for single-node clients
+const statusSnapshot = () => {
+  const nodes = nodeRegistry.list();
+  const latest = nodes.reduce<types.NodeStatus | undefined>(
+    (best, status) =>
+      !best || (status.lastSeen ?? 0) > (best.lastSeen ?? 0) ? status : best,
+    undefined
+  );
+  const { node: _node, ...remote } = latest ?? { connected: false };
+  return { ...RS485_STATUS, remote, nodes };
+};
+
 const broadcastStatusUpdate = () => {
-  const payload =
-    JSON.stringify({ event: "status_update", data: RS485_STATUS }) + "\n";
-  broadcast(payload);
+  const snapshot = statusSnapshot();
+  broadcast("status_update", snapshot);
+  mqttBridge?.publishStatus(snapshot);
 };
 
-const handleRemotePayload = (payload: unknown) => {
-  if (!payload || typeof payload !== "object") return;
-  const data = payload as Record<string, unknown>;
-  const now = Date.now();
-  const remote = RS485_STATUS.remote;
-  let dirty = false;
-
-  if (typeof data.hello === "string") {
-    if (remote.device !== data.hello) {
-      remote.device = data.hello;
-      dirty = true;
-    }
-    if (typeof data.speed === "number" && remote.speed !== data.speed) {
-      remote.speed = data.speed;
-      dirty = true;
-    }
-    if (!remote.connected) {
-      remote.connected = true;
-      remote.connectedAt = now;
-      dirty = true;
-    }
-    remote.lastHeartbeat = now;
-    remote.disconnectedAt = undefined;
-    remote.reason = undefined;
-    RS485_STATUS.status = "connected";
-    delete RS485_STATUS.error;
-    dirty = true;
-  } else if (typeof data.heartbeat === "string") {
-    if (!remote.connected) {
-      remote.connected = true;
-      remote.connectedAt = now;
-      dirty = true;
-    }
-    if (!remote.device) {
-      remote.device = data.heartbeat;
-      dirty = true;
+const collectMetrics = (): string => {
+  const metrics = new MetricsWriter();
+
+  for (const reading of sensorHandler.getCachedReadings()) {
+    const value =
+      typeof reading.value === "boolean"
+        ? Number(reading.value)
+        : reading.value;
+    if (typeof value !== "number") continue;
+    const labels = {
+      sensor: reading.id,
+      type: reading.type,
+      node: reading.node,
+      location: reading.location,
+    };
+    metrics.gauge("ghw_sensor_value", "Latest sensor reading", value, labels);
+    metrics.gauge(
+      "ghw_sensor_last_reading_timestamp_seconds",
+      "When the latest reading was taken",
+      Date.parse(reading.timestamp) / 1000,
+      { sensor: reading.id }
+    );
+  }
+
+  for (const status of ["connected", "disconnected", "fail"]) {
+    metrics.gauge(
+      "ghw_rs485_link_status",
+      "RS485 link state, 1 for the current one",
+      RS485_STATUS.status === status ? 1 : 0,
+      { status }
+    );
+  }
+  for (const node of nodeRegistry.list()) {
+    metrics.gauge(
+      "ghw_node_connected",
+      "Whether a remote node is heard from",
+      node.connected ? 1 : 0,
+      { node: node.node }
+    );
+    if (node.lastSeen) {
+      metrics.gauge(
+        "ghw_node_last_seen_timestamp_seconds",
+        "Last message from a remote node",
+        node.lastSeen / 1000,
+        { node: node.node }
+      );
     }
-    remote.lastHeartbeat = now;
-    remote.disconnectedAt = undefined;
-    remote.reason = undefined;
-    RS485_STATUS.status = "connected";
-    delete RS485_STATUS.error;
-    dirty = true;
   }
 
-  if (dirty) {
-    broadcastStatusUpdate();
+  const bus = busManager.getStats();
+  metrics.gauge(
+    "ghw_bus_queue_depth",
+    "Requests waiting for the bus",
+    busManager.getQueueLength()
+  );
+  metrics.counter("ghw_bus_requests_total", "Bus requests", bus.requests);
+  metrics.counter(
+    "ghw_bus_attempts_total",
+    "Bus transmissions including retries",
+    bus.sent
+  );
+  metrics.counter("ghw_bus_replies_total", "Answered requests", bus.replies);
+  metrics.counter("ghw_bus_failures_total", "Failed requests", bus.failures);
+  metrics.counter("ghw_bus_timeouts_total", "Attempts timed out", bus.timeouts);
+  metrics.counter("ghw_bus_retries_total", "Attempts retried", bus.retries);
+  metrics.counter(
+    "ghw_bus_reply_mismatches_total",
+    "Replies that matched no pending request",
+    bus.idMismatches,
+    { kind: "id" }
+  );
+  metrics.counter(
+    "ghw_bus_reply_mismatches_total",
+    "Replies that matched no pending request",
+    bus.nodeMismatches,
+    { kind: "node" }
+  );
+
+  for (const [table, stats] of Object.entries(
+    databaseHanlder.getWriteStats()
+  )) {
+    metrics.counter(
+      "ghw_db_rows_written_total",
+      "Rows written to the database",
+      stats.rows,
+      { table }
+    );
+    metrics.counter(
+      "ghw_db_write_failures_total",
+      "Failed database writes",
+      stats.failures,
+      { table }
+    );
   }
-};
+  const buffer = readingBuffer.getStats();
+  metrics.gauge(
+    "ghw_db_buffered_readings",
+    "Readings waiting to be written",
+    buffer.buffered
+  );
+  metrics.counter(
+    "ghw_db_dropped_readings_total",
+    "Readings dropped because the write buffer overflowed",
+    buffer.dropped
+  );
+  metrics.counter(
+    "ghw_db_skipped_readings_total",
+    "Readings not stored because they carried no number or boolean",
+    buffer.skipped
+  );
 
-const sendAck = (
-  socket: net.Socket | undefined,
-  data: Record<string, unknown>
-) => {
-  if (!socket || socket.destroyed || !socket.writable) return;
-  socket.write(JSON.stringify({ event: "ack", data }) + "\n");
-};
+  const active = warningHandler
+    .getWarnings()
+    .filter((warning) => warning.state === "active");
+  for (const severity of ALERT_SEVERITIES) {
+    metrics.gauge(
+      "ghw_alerts_active",
+      "Active alerts",
+      active.filter((warning) => warning.severity === severity).length,
+      { severity }
+    );
+  }
 
-const sendErrorEvent = (
-  socket: net.Socket | undefined,
-  error: Error,
-  context: Record<string, unknown>
-) => {
-  const payload =
-    JSON.stringify({
-      event: "rs485_error",
-      data: { ...context, message: error.message },
-    }) + "\n";
-  if (socket && socket.writable && !socket.destroyed) {
-    socket.write(payload);
-  } else {
-    console.error("RS485 command error", context, error);
+  metrics.gauge(
+    "ghw_socket_clients",
+    "Connected socket and WebSocket clients",
+    Array.from(clients).filter((client) => client.open).length
+  );
+  if (webSocketGateway) {
+    metrics.counter(
+      "ghw_websocket_auth_failures_total",
+      "Rejected WebSocket tokens",
+      webSocketGateway.getStats().authFailures
+    );
+  }
+  if (mqttBridge) {
+    metrics.gauge(
+      "ghw_mqtt_connected",
+      "Whether the MQTT broker is connected",
+      mqttBridge.getStats().connected ? 1 : 0
+    );
   }
+
+  return metrics.toString();
 };
 
-rs485Handler.on("status", (status) => {
+nodeRegistry.on("changed", (status: types.NodeStatus) => {
+  if (status.connected) {
+    RS485_STATUS.status = "connected";
+    delete RS485_STATUS.error;
+  } else if (
+    status.reason &&
+    RS485_STATUS.status === "connected" &&
+    !nodeRegistry.hasConnectedNodes()
+  ) {
+    RS485_STATUS.status = "disconnected";
+    RS485_STATUS.error = status.reason;
+  }
+  broadcastStatusUpdate();
+});
+
+// replies reach the registry only here, where the request's node is known
+busManager.on("reply", (packet: types.Command, reply: unknown) => {
+  // a who broadcast collects the hello of every node that answered
+  if (Array.isArray(reply)) {
+    for (const hello of reply) nodeRegistry.handlePayload(hello);
+    return;
+  }
+  nodeRegistry.handlePayload(
+    packet.node ? { from: packet.node, ...(reply as object) } : reply
+  );
+  ingestRemoteReadings(reply, packet.node);
+});
+
+busManager.on("failure", (packet: types.Command, err: Error) => {
+  if (packet.node) nodeRegistry.recordError(packet.node, err.message);
+});
+
+busTransport.on("status", (status) => {
   RS485_STATUS.status = status;
   if (status === "connected") {
     delete RS485_STATUS.error;
-    startHeartbeatMonitor();
+    nodeRegistry.start();
+    startDiscovery();
   }
   if (status !== "connected") {
-    markRemoteDisconnected(`RS485 link ${status}`, false);
+    nodeRegistry.markAllDisconnected(`RS485 link ${status}`);
   }
   broadcastStatusUpdate();
 });
 
-rs485Handler.on("error", (err: Error) => {
+busTransport.on("error", (err: Error) => {
+  nodeRegistry.markAllDisconnected(err.message);
   RS485_STATUS.status = "fail";
   RS485_STATUS.error = err.message;
-  markRemoteDisconnected(err.message);
   broadcastStatusUpdate();
 });
 
-rs485Handler.on("message", (payload: unknown) => {
-  const packet =
-    JSON.stringify({ event: "rs485_message", data: payload }) + "\n";
-  broadcast(packet);
-  handleRemotePayload(payload);
+busTransport.on("frame_error", (error: FrameError, stats: RS485Stats) => {
+  console.warn(
+    `[RS485] Dropped frame (${error.reason}): ${error.message}; ` +
+      `${stats.crcErrors} CRC / ${stats.framingErrors} framing errors so far`
+  );
+});
+
+busTransport.on("message", (payload: unknown) => {
+  broadcast("rs485_message", payload);
+  // replies reach the registry, the tracker and the readings through the
+  // bus manager, together with their request's node
+  if (busManager.isReply(payload)) return;
+  nodeRegistry.handlePayload(payload);
+  actuatorStateTracker.handleRemotePayload(payload);
+  ingestRemoteReadings(payload);
 });
 
-rs485Handler.init().catch((err) => {
+busTransport.init().catch((err) => {
   console.error("Failed to initialize RS485 handler", err);
   RS485_STATUS.status = "fail";
   RS485_STATUS.error = err.message;
 });
 
-startHeartbeatMonitor();
+nodeRegistry.start();
+
+sensorHandler.on("changed", (details: types.SensorDetails) => {
+  broadcast("sensor_config_updated", details);
+});
+
+sensorHandler.on("removed", (removed: { id: string }) => {
+  broadcast("sensor_removed", removed);
+});
 
 sensorHandler.on("reading", (reading: types.SensorReading) => {
-  try {
-    databaseHanlder.saveSensorReading(reading);
-  } catch (err) {
-    console.error("Failed to persist sensor reading", err);
-  }
+  readingBuffer.add(reading);
 
-  const payload =
-    JSON.stringify({ event: "sensor_update", data: reading }) + "\n";
-  broadcast(payload);
+  broadcast("sensor_update", reading);
+  mqttBridge?.publishReading(reading);
 });
 
 warningHandler.on("warning", (alert: types.IAlert) => {
-  const payload =
-    JSON.stringify({ event: "warning_issued", data: alert }) + "\n";
-  broadcast(payload);
+  broadcast("warning_issued", alert);
+  mqttBridge?.publishAlerts(warningHandler.getWarnings());
+});
+
+warningHandler.on("updated", (alert: types.IAlert) => {
+  // a breach that outlasts a manual resolve has to raise a new alert
+  if (alert.state === "resolved" && alert.sensorId) {
+    thresholdMonitor.reset(alert.sensorId, alert.type);
+  }
+  broadcast("warning_updated", alert);
+  mqttBridge?.publishAlerts(warningHandler.getWarnings());
+});
+
+automationController.on("mode", (state: types.AutomationState) => {
+  broadcast("automation_mode", state);
+});
+
+automationController.on("decision", (decision: types.AutomationDecision) => {
+  broadcast("automation_decision", decision);
+});
+
+scheduler.on("changed", (schedule: types.Schedule) => {
+  broadcast("schedule_updated", schedule);
+});
+
+scheduler.on("transition", (transition: types.ScheduleTransition) => {
+  broadcast("schedule_transition", transition);
+});
+
+actuatorStateTracker.on("state", (state: types.ActuatorState) => {
+  broadcast("actuator_state", state);
+  mqttBridge?.publishActuatorState(state);
+});
+
+thresholdMonitor.on("cleared", (cleared: ThresholdClearedEvent) => {
+  warningHandler.resolveMatching({
+    type: cleared.rule.alertType,
+    location: cleared.location,
+    sensorId: cleared.sensorId,
+  });
+});
+
+configStore.on("reloaded", (next: GhwConfig, sections: ConfigSection[]) => {
+  if (sections.includes("sensors")) sensorHandler.applySettings(next.sensors);
+  if (sections.includes("thresholds")) {
+    thresholdMonitor.setRules(next.thresholds ?? DEFAULT_THRESHOLD_RULES);
+  }
+  if (sections.includes("automation")) {
+    automationController.setRules(
+      next.automation.rules ?? DEFAULT_AUTOMATION_RULES
+    );
+    automationController.setOverrideDuration(next.automation.overrideMs);
+  }
+  if (sections.includes("logging")) {
+    busTransport.setLogTraffic?.(next.logging.rs485Traffic);
+  }
 });
+configStore.watch();
+
+const MQTT_STOP_TIMEOUT_MS = 2000;
+
+let shuttingDown = false;
+const shutdown = async () => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  configStore.unwatch();
+  sensorHandler.stopAllPolling();
+  scheduler.stop();
+  nodeRegistry.stop();
+  remoteSensorPoller.stop();
+  webSocketGateway?.stop();
+  httpApi?.stop();
+  try {
+    readingBuffer.stop();
+    databaseHanlder.close();
+  } catch (err) {
+    console.error("Failed to flush database on shutdown", err);
+  }
+  // the retained offline status has to reach the broker before we exit
+  if (mqttBridge) {
+    await Promise.race([
+      mqttBridge
+        .stop()
+        .catch((err) => console.error("[MQTT] Failed to disconnect", err)),
+      new Promise((resolve) => setTimeout(resolve, MQTT_STOP_TIMEOUT_MS)),
+    ]);
+  }
+  process.exit();
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
 
 process.stdin.on("data", (input: string | Buffer) => {
   const str = typeof input === "string" ? input : input.toString("utf8");
-  if (str === "\u0003") process.exit(); // Ctrl+C
+  if (str === "\u0003") shutdown(); // Ctrl+C
   const key = str.trim();
 
   if (key === "c") {
@@ -307,10 +730,9 @@ process.stdin.on("data", (input: string | Buffer) => {
     warningHandler.issueWarning(warning);
   }
   if (key === "w") {
-    busManager
-      .request({ cmd: "who" }, 3000)
-      .then((reply) =>
-        console.log("[RS485] who response", JSON.stringify(reply))
+    discoverNodes()
+      .then((nodes) =>
+        console.log("[RS485] discovered nodes", JSON.stringify(nodes))
       )
       .catch((err) => console.error("Failed to send RS485 who command", err));
   }
@@ -324,70 +746,178 @@ process.stdin.on("data", (input: string | Buffer) => {
   }
 });
 
-const server = net.createServer((socket) => {
-  console.log("Client connected");
-  clients.add(socket);
-
-  socket.write(
-    JSON.stringify({ event: "status_update", data: RS485_STATUS }) + "\n"
-  );
+// current state for a client that just connected or changed subscriptions
+const sendSnapshot = (session: SocketSession) => {
+  session.sendEvent("status_update", statusSnapshot());
 
   for (const reading of sensorHandler.getCachedReadings()) {
-    socket.write(
-      JSON.stringify({ event: "sensor_update", data: reading }) + "\n"
-    );
+    session.sendEvent("sensor_update", reading);
+  }
+
+  for (const state of automationController.getStates()) {
+    session.sendEvent("automation_mode", state);
+  }
+
+  for (const state of actuatorStateTracker.getStates()) {
+    session.sendEvent("actuator_state", state);
+  }
+
+  for (const warning of warningHandler.getActiveWarnings()) {
+    session.sendEvent("warning_issued", warning);
   }
+};
+
+const isCompleteJson = (raw: string) => {
+  try {
+    JSON.parse(raw);
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
 
-  for (const warning of warningHandler.getWarnings()) {
-    // console.log("Sending warning to new client", warning);
-    socket.write(
-      JSON.stringify({ event: "warning_issued", data: warning }) + "\n"
+// sends a client command to the bus; overrides also pause automation
+const forwardCommand = async (packet: types.Command, timeoutMs?: number) => {
+  const { retry, ...command } = packet;
+  const reply = await busManager.request(command, {
+    priority: "high",
+    // a resent command may run twice on the node, so clients opt in
+    retries: retry === true ? CLIENT_RETRIES : 0,
+    timeoutMs,
+  });
+  if (packet.cmd === "manual_override" && packet.actuator) {
+    const durationMs = Number(packet.payload?.durationMs);
+    automationController.registerManualOverride(
+      packet.actuator,
+      typeof packet.value === "undefined" ? undefined : Boolean(packet.value),
+      durationMs > 0 ? durationMs : undefined
     );
   }
+  return reply;
+};
 
-  socket.on("data", (data) => {
-    const messages = data.toString().split("\n").filter(Boolean);
-
-    messages.forEach((raw) => {
-      try {
-        const msg = JSON.parse(raw);
-        if (isCommandMessage(msg)) {
-          const packet: types.Command = {
-            ...msg,
-            id: (msg as any).id ?? (msg as any).uuid ?? uuid(),
-          };
-          busManager
-            .request(packet)
-            .then((reply) =>
-              sendAck(socket, { cmd: packet.cmd, id: packet.id, reply })
-            )
-            .catch((err) =>
-              sendErrorEvent(socket, err as Error, {
-                cmd: packet.cmd,
-                id: packet.id,
-              })
-            );
-        }
-      } catch (err) {
-        console.error("Invalid message", err);
+const handleClientMessage = (session: SocketSession, raw: string) => {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch (err) {
+    console.error("Invalid message", err);
+    if (session.protocol >= 2) {
+      session.fail({ cmd: "" }, new Error("Invalid JSON"), "command_error");
+    }
+    return;
+  }
+  if (!isCommandMessage(msg)) return;
+
+  const packet: types.Command = {
+    ...msg,
+    id: (msg as any).id ?? (msg as any).uuid ?? uuid(),
+  };
+  commandRouter
+    .dispatch(packet, { permission: session.permission, session })
+    .then((reply) => session.respond(packet, reply))
+    .catch((err) => {
+      if (err instanceof CommandError) {
+        session.fail(packet, err, "command_error");
+        return;
       }
+      if (!session.open) {
+        console.error("RS485 command error", packet, err);
+        return;
+      }
+      session.fail(packet, err as Error, "rs485_error");
     });
+};
+
+const server = net.createServer((socket) => {
+  console.log("Client connected");
+  const session = new SocketSession(
+    (line) => socket.write(line),
+    () => !socket.destroyed && socket.writable
+  );
+  clients.add(session);
+  sendSnapshot(session);
+
+  let pending = "";
+  socket.on("data", (data) => {
+    // commands can be split across chunks; keep an unterminated tail unless
+    // it is already a complete message (older clients skip the newline)
+    const lines = (pending + data.toString()).split("\n");
+    pending = lines.pop() ?? "";
+    if (pending.trim() && isCompleteJson(pending)) {
+      lines.push(pending);
+      pending = "";
+    }
+    for (const raw of lines) {
+      if (raw.trim()) handleClientMessage(session, raw);
+    }
   });
 
   socket.on("error", (err) => {
     console.error("Client error", err);
-    clients.delete(socket);
+    clients.delete(session);
   });
 
   socket.on("close", () => {
-    clients.delete(socket);
+    clients.delete(session);
     console.log("Client disconnected");
   });
 });
 
 server.listen(SOCKET_PATH, async () => {
-  await sensorHandler.loadSensors();
+  await sensorHandler.loadSensors({
+    ...config.plugins,
+    searchPaths: [path.dirname(configStore.path)],
+  });
+  for (const sensor of createModbusSensors()) {
+    await sensorHandler
+      .addSensor(sensor)
+      .catch((err) => console.error(`[Modbus] Skipping ${sensor.id}`, err));
+  }
   await sensorHandler.runAll();
   sensorHandler.startPolling();
   console.log(`Worker listening on ${SOCKET_PATH}, ${server.address()}`);
 });
+
+if (webSocketGateway) {
+  webSocketGateway.on("session", (session: SocketSession) => {
+    clients.add(session);
+    sendSnapshot(session);
+  });
+  webSocketGateway.on("message", handleClientMessage);
+  webSocketGateway.on("close", (session: SocketSession) =>
+    clients.delete(session)
+  );
+  webSocketGateway
+    .start()
+    .then(() =>
+      console.log(
+        `[WS] Gateway listening on ${
+          webSocketGateway.secure ? "wss" : "ws"
+        }://` + `${config.websocket.host ?? "0.0.0.0"}:${config.websocket.port}`
+      )
+    )
+    .catch((err) => console.error("[WS] Failed to start gateway", err));
+}
+
+if (httpApi) {
+  httpApi
+    .start()
+    .then(() =>
+      console.log(
+        `[HTTP] API listening on port ${config.http.port}, ` +
+          "spec at /openapi.json"
+      )
+    )
+    .catch((err) => console.error("[HTTP] Failed to start API", err));
+}
+
+if (mqttBridge) {
+  // retained topics start out with the current state
+  mqttBridge.publishStatus(statusSnapshot());
+  mqttBridge.publishAlerts(warningHandler.getWarnings());
+  for (const state of actuatorStateTracker.getStates()) {
+    mqttBridge.publishActuatorState(state);
+  }
+  mqttBridge.start();
+}
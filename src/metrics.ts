@@ -0,0 +1,76 @@
+export type MetricType = "gauge" | "counter";
+
+export type MetricLabels = Record<string, string | undefined>;
+
+type Metric = {
+  type: MetricType;
+  help: string;
+  samples: { labels: MetricLabels; value: number }[];
+};
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4";
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels) => {
+  const pairs = Object.entries(labels)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+};
+
+const formatValue = (value: number) => {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+};
+
+/**
+ * Collects samples for one scrape and renders the Prometheus text format.
+ * Samples of the same metric are grouped no matter the order they arrive in.
+ */
+export class MetricsWriter {
+  private metrics = new Map<string, Metric>();
+
+  public gauge(name: string, help: string, value: number, labels = {}) {
+    this.add(name, "gauge", help, value, labels);
+  }
+
+  public counter(name: string, help: string, value: number, labels = {}) {
+    this.add(name, "counter", help, value, labels);
+  }
+
+  public toString(): string {
+    const lines: string[] = [];
+    for (const [name, metric] of this.metrics) {
+      lines.push(`# HELP ${name} ${metric.help}`);
+      lines.push(`# TYPE ${name} ${metric.type}`);
+      for (const sample of metric.samples) {
+        lines.push(
+          `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+        );
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  private add(
+    name: string,
+    type: MetricType,
+    help: string,
+    value: number,
+    labels: MetricLabels
+  ) {
+    let metric = this.metrics.get(name);
+    if (!metric) {
+      metric = { type, help, samples: [] };
+      this.metrics.set(name, metric);
+    }
+    if (metric.type !== type) {
+      throw new Error(`Metric ${name} is a ${metric.type}, not a ${type}`);
+    }
+    metric.samples.push({ labels, value });
+  }
+}
@@ -0,0 +1,61 @@
+const EXCEPTION_NAMES: Record<number, string> = {
+  0x01: "illegal function",
+  0x02: "illegal data address",
+  0x03: "illegal data value",
+  0x04: "server device failure",
+  0x05: "acknowledge",
+  0x06: "server device busy",
+  0x08: "memory parity error",
+  0x0a: "gateway path unavailable",
+  0x0b: "gateway target device failed to respond",
+};
+
+export class ModbusError extends Error {
+  readonly unit: number;
+  readonly functionCode: number;
+
+  constructor(message: string, unit: number, functionCode: number) {
+    super(message);
+    this.name = "ModbusError";
+    this.unit = unit;
+    this.functionCode = functionCode;
+  }
+}
+
+/** The device answered with an exception response. */
+export class ModbusExceptionError extends ModbusError {
+  readonly code: number;
+
+  constructor(unit: number, functionCode: number, code: number) {
+    const name = EXCEPTION_NAMES[code] ?? "unknown exception";
+    super(
+      `Modbus unit ${unit} function 0x${functionCode.toString(16)}: ` +
+        `${name} (0x${code.toString(16).padStart(2, "0")})`,
+      unit,
+      functionCode
+    );
+    this.name = "ModbusExceptionError";
+    this.code = code;
+  }
+}
+
+export class ModbusTimeoutError extends ModbusError {
+  constructor(unit: number, functionCode: number, timeoutMs: number) {
+    super(
+      `Modbus unit ${unit} did not answer function 0x${functionCode.toString(
+        16
+      )} within ${timeoutMs}ms`,
+      unit,
+      functionCode
+    );
+    this.name = "ModbusTimeoutError";
+  }
+}
+
+/** The reply was received but is corrupt or does not match the request. */
+export class ModbusFrameError extends ModbusError {
+  constructor(message: string, unit: number, functionCode: number) {
+    super(message, unit, functionCode);
+    this.name = "ModbusFrameError";
+  }
+}
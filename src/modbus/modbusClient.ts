@@ -0,0 +1,369 @@
+import { crc16 } from "../crc16";
+import type { RS485Handler } from "../rs485Hanlder";
+import {
+  ModbusExceptionError,
+  ModbusFrameError,
+  ModbusTimeoutError,
+} from "./errors";
+
+const READ_COILS = 0x01;
+const READ_DISCRETE_INPUTS = 0x02;
+const READ_HOLDING_REGISTERS = 0x03;
+const READ_INPUT_REGISTERS = 0x04;
+const WRITE_SINGLE_COIL = 0x05;
+const WRITE_SINGLE_REGISTER = 0x06;
+const WRITE_MULTIPLE_COILS = 0x0f;
+const WRITE_MULTIPLE_REGISTERS = 0x10;
+
+const BROADCAST_UNIT = 0;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+interface ModbusClientOptions {
+  baudRate?: number;
+  timeoutMs?: number;
+  // defaults to 3.5 character times, or 1.75ms above 19200 baud
+  interFrameDelayMs?: number;
+  // holds a shared bus for one transaction; a dedicated port needs none
+  exclusive?: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+type PendingResponse = {
+  unit: number;
+  functionCode: number;
+  buffer: Buffer;
+  resolve: (pdu: Buffer) => void;
+  reject: (reason: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+const checkRange = (value: number, min: number, max: number, label: string) => {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Modbus ${label} must be an integer ${min}-${max}`);
+  }
+};
+
+/**
+ * Modbus RTU master on top of an RS485Handler, either a dedicated one opened
+ * with the "modbus" protocol or the JSON bus port shared through
+ * `exclusive`. Requests are strictly sequential, separated by the
+ * inter-frame silence the RTU spec requires.
+ */
+export class ModbusClient {
+  private readonly transport: RS485Handler;
+  private readonly timeoutMs: number;
+  private readonly silenceMs: number;
+  private readonly exclusive: <T>(task: () => Promise<T>) => Promise<T>;
+  private chain: Promise<unknown> = Promise.resolve();
+  private pending?: PendingResponse;
+  private lastActivityAt = 0;
+
+  constructor(transport: RS485Handler, options: ModbusClientOptions = {}) {
+    this.transport = transport;
+    this.timeoutMs = options.timeoutMs ?? 1000;
+    const baudRate = options.baudRate ?? 9600;
+    this.silenceMs =
+      options.interFrameDelayMs ??
+      (baudRate > 19200 ? 1.75 : (3.5 * 11 * 1000) / baudRate);
+    this.exclusive = options.exclusive ?? ((task) => task());
+    this.handleData = this.handleData.bind(this);
+    this.transport.on("data", this.handleData);
+  }
+
+  public destroy() {
+    this.transport.removeListener("data", this.handleData);
+  }
+
+  public async readCoils(unit: number, address: number, quantity: number) {
+    checkRange(quantity, 1, 2000, "coil quantity");
+    const pdu = await this.execute(
+      unit,
+      READ_COILS,
+      this.addressQuantity(address, quantity)
+    );
+    return this.unpackBits(pdu, unit, READ_COILS, quantity);
+  }
+
+  public async readDiscreteInputs(
+    unit: number,
+    address: number,
+    quantity: number
+  ) {
+    checkRange(quantity, 1, 2000, "input quantity");
+    const pdu = await this.execute(
+      unit,
+      READ_DISCRETE_INPUTS,
+      this.addressQuantity(address, quantity)
+    );
+    return this.unpackBits(pdu, unit, READ_DISCRETE_INPUTS, quantity);
+  }
+
+  public readHoldingRegisters(unit: number, address: number, quantity: number) {
+    return this.readRegisters(unit, READ_HOLDING_REGISTERS, address, quantity);
+  }
+
+  public readInputRegisters(unit: number, address: number, quantity: number) {
+    return this.readRegisters(unit, READ_INPUT_REGISTERS, address, quantity);
+  }
+
+  public async writeSingleCoil(unit: number, address: number, value: boolean) {
+    checkRange(address, 0, 0xffff, "address");
+    const data = Buffer.alloc(4);
+    data.writeUInt16BE(address, 0);
+    data.writeUInt16BE(value ? 0xff00 : 0x0000, 2);
+    await this.execute(unit, WRITE_SINGLE_COIL, data);
+  }
+
+  public async writeSingleRegister(
+    unit: number,
+    address: number,
+    value: number
+  ) {
+    checkRange(address, 0, 0xffff, "address");
+    checkRange(value, 0, 0xffff, "register value");
+    const data = Buffer.alloc(4);
+    data.writeUInt16BE(address, 0);
+    data.writeUInt16BE(value, 2);
+    await this.execute(unit, WRITE_SINGLE_REGISTER, data);
+  }
+
+  public async writeMultipleCoils(
+    unit: number,
+    address: number,
+    values: boolean[]
+  ) {
+    checkRange(values.length, 1, 1968, "coil quantity");
+    const packed = Buffer.alloc(Math.ceil(values.length / 8));
+    values.forEach((value, index) => {
+      if (value) packed[index >> 3] |= 1 << (index & 7);
+    });
+    const data = Buffer.concat([
+      this.addressQuantity(address, values.length),
+      Buffer.from([packed.length]),
+      packed,
+    ]);
+    await this.execute(unit, WRITE_MULTIPLE_COILS, data);
+  }
+
+  public async writeMultipleRegisters(
+    unit: number,
+    address: number,
+    values: number[]
+  ) {
+    checkRange(values.length, 1, 123, "register quantity");
+    const registers = Buffer.alloc(values.length * 2);
+    values.forEach((value, index) => {
+      checkRange(value, 0, 0xffff, "register value");
+      registers.writeUInt16BE(value, index * 2);
+    });
+    const data = Buffer.concat([
+      this.addressQuantity(address, values.length),
+      Buffer.from([registers.length]),
+      registers,
+    ]);
+    await this.execute(unit, WRITE_MULTIPLE_REGISTERS, data);
+  }
+
+  private async readRegisters(
+    unit: number,
+    functionCode: number,
+    address: number,
+    quantity: number
+  ): Promise<number[]> {
+    checkRange(quantity, 1, 125, "register quantity");
+    const pdu = await this.execute(
+      unit,
+      functionCode,
+      this.addressQuantity(address, quantity)
+    );
+    this.checkByteCount(
+      pdu,
+      unit,
+      functionCode,
+      quantity * 2,
+      `${quantity} registers`
+    );
+    const values: number[] = [];
+    for (let i = 0; i < quantity; i++) values.push(pdu.readUInt16BE(1 + i * 2));
+    return values;
+  }
+
+  private addressQuantity(address: number, quantity: number): Buffer {
+    checkRange(address, 0, 0xffff, "address");
+    if (address + quantity > 0x10000) {
+      throw new Error("Modbus request runs past address 0xFFFF");
+    }
+    const data = Buffer.alloc(4);
+    data.writeUInt16BE(address, 0);
+    data.writeUInt16BE(quantity, 2);
+    return data;
+  }
+
+  private checkByteCount(
+    pdu: Buffer,
+    unit: number,
+    functionCode: number,
+    expected: number,
+    label: string
+  ) {
+    if (pdu[0] === expected) return;
+    throw new ModbusFrameError(
+      `Modbus unit ${unit} returned ${pdu[0]} bytes for ${label}`,
+      unit,
+      functionCode
+    );
+  }
+
+  private unpackBits(
+    pdu: Buffer,
+    unit: number,
+    functionCode: number,
+    quantity: number
+  ): boolean[] {
+    this.checkByteCount(
+      pdu,
+      unit,
+      functionCode,
+      Math.ceil(quantity / 8),
+      `${quantity} ${functionCode === READ_COILS ? "coils" : "inputs"}`
+    );
+    const bits: boolean[] = [];
+    for (let i = 0; i < quantity; i++) {
+      bits.push(((pdu[1 + (i >> 3)] >> (i & 7)) & 1) === 1);
+    }
+    return bits;
+  }
+
+  /** Resolves with the response PDU after the function code. */
+  private execute(
+    unit: number,
+    functionCode: number,
+    data: Buffer
+  ): Promise<Buffer> {
+    checkRange(unit, 0, 247, "unit id");
+    if (unit === BROADCAST_UNIT && functionCode <= READ_INPUT_REGISTERS) {
+      return Promise.reject(new Error("Modbus reads cannot be broadcast"));
+    }
+
+    const run = () =>
+      this.exclusive(() => this.transact(unit, functionCode, data));
+    const result = this.chain.then(run, run);
+    this.chain = result.catch(() => undefined);
+    return result;
+  }
+
+  private async transact(
+    unit: number,
+    functionCode: number,
+    data: Buffer
+  ): Promise<Buffer> {
+    const frame = Buffer.alloc(data.length + 4);
+    frame[0] = unit;
+    frame[1] = functionCode;
+    data.copy(frame, 2);
+    frame.writeUInt16LE(crc16(frame, 0, data.length + 2), data.length + 2);
+
+    const quietFor = this.lastActivityAt + this.silenceMs - Date.now();
+    if (quietFor > 0) await sleep(quietFor);
+
+    if (unit === BROADCAST_UNIT) {
+      await this.transport.sendRaw(frame);
+      this.lastActivityAt = Date.now();
+      return Buffer.alloc(0);
+    }
+
+    const response = new Promise<Buffer>((resolve, reject) => {
+      this.pending = {
+        unit,
+        functionCode,
+        buffer: Buffer.alloc(0),
+        resolve,
+        reject,
+        timer: setTimeout(
+          () =>
+            this.finish(
+              new ModbusTimeoutError(unit, functionCode, this.timeoutMs)
+            ),
+          this.timeoutMs
+        ),
+      };
+    });
+
+    try {
+      await this.transport.sendRaw(frame);
+    } catch (err) {
+      this.finish(err as Error);
+    }
+    this.lastActivityAt = Date.now();
+    return response;
+  }
+
+  private handleData(chunk: Buffer) {
+    this.lastActivityAt = Date.now();
+    const pending = this.pending;
+    // bytes outside a transaction are echoes or other masters; ignore them
+    if (!pending) return;
+
+    pending.buffer = this.resync(
+      Buffer.concat([pending.buffer, chunk]),
+      pending
+    );
+    const expected = this.expectedLength(pending.buffer);
+    if (expected === undefined || pending.buffer.length < expected) return;
+
+    const frame = pending.buffer.subarray(0, expected);
+    const { unit, functionCode } = pending;
+    if (crc16(frame, 0, expected - 2) !== frame.readUInt16LE(expected - 2)) {
+      this.finish(
+        new ModbusFrameError(
+          `Modbus unit ${unit} reply failed CRC check`,
+          unit,
+          functionCode
+        )
+      );
+      return;
+    }
+    if (frame[1] & 0x80) {
+      this.finish(new ModbusExceptionError(unit, functionCode, frame[2]));
+      return;
+    }
+    this.finish(undefined, frame.subarray(2, expected - 2));
+  }
+
+  // Line noise ahead of the reply would otherwise shift every length and CRC
+  // offset; drop bytes until the buffer starts with the unit and function.
+  private resync(buffer: Buffer, pending: PendingResponse): Buffer {
+    let start = 0;
+    while (start < buffer.length) {
+      if (
+        buffer[start] === pending.unit &&
+        (start + 1 === buffer.length ||
+          (buffer[start + 1] & 0x7f) === pending.functionCode)
+      ) {
+        break;
+      }
+      start++;
+    }
+    return start === 0 ? buffer : buffer.subarray(start);
+  }
+
+  private expectedLength(buffer: Buffer): number | undefined {
+    if (buffer.length < 2) return undefined;
+    const functionCode = buffer[1];
+    if (functionCode & 0x80) return 5;
+    if (functionCode <= READ_INPUT_REGISTERS) {
+      return buffer.length < 3 ? undefined : 5 + buffer[2];
+    }
+    return 8;
+  }
+
+  private finish(error?: Error, pdu?: Buffer) {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = undefined;
+    clearTimeout(pending.timer);
+    if (error) pending.reject(error);
+    else pending.resolve(pdu!);
+  }
+}
@@ -0,0 +1,58 @@
+import { Sensor } from "../sensors/Sensor";
+import { SensorType } from "../types";
+import type { ModbusClient } from "./modbusClient";
+import {
+  decodeRegisters,
+  ModbusRegisterMapEntry,
+  registerCount,
+} from "./registerMap";
+
+export class ModbusSensor extends Sensor {
+  id: string;
+  type: SensorType;
+  pollingTime: number;
+  pollingWaitTime: number = 0;
+  log: boolean;
+
+  private readonly client: ModbusClient;
+  private readonly entry: ModbusRegisterMapEntry;
+
+  constructor(client: ModbusClient, entry: ModbusRegisterMapEntry) {
+    super();
+    this.client = client;
+    this.entry = entry;
+    this.id = entry.id;
+    this.type = entry.type;
+    this.pollingTime = entry.pollingTime ?? 10000;
+    this.log = entry.log ?? false;
+    if (entry.location) this.location = entry.location;
+  }
+
+  async readValue(): Promise<number | boolean> {
+    const { unit, address } = this.entry;
+    switch (this.entry.register) {
+      case "coil":
+        return (await this.client.readCoils(unit, address, 1))[0];
+      case "discrete":
+        return (await this.client.readDiscreteInputs(unit, address, 1))[0];
+      case "holding":
+        return decodeRegisters(
+          await this.client.readHoldingRegisters(
+            unit,
+            address,
+            registerCount(this.entry)
+          ),
+          this.entry
+        );
+      case "input":
+        return decodeRegisters(
+          await this.client.readInputRegisters(
+            unit,
+            address,
+            registerCount(this.entry)
+          ),
+          this.entry
+        );
+    }
+  }
+}
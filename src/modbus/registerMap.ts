@@ -0,0 +1,146 @@
+import fs from "node:fs";
+import { SENSOR_TYPES, SensorType } from "../types";
+
+export type ModbusRegisterKind = "holding" | "input" | "coil" | "discrete";
+
+export type ModbusDataType =
+  | "uint16"
+  | "int16"
+  | "uint32"
+  | "int32"
+  | "float32";
+
+/** One sensor value read from a Modbus device. */
+export interface ModbusRegisterMapEntry {
+  id: string;
+  type: SensorType;
+  unit: number;
+  register: ModbusRegisterKind;
+  address: number;
+  dataType?: ModbusDataType;
+  // order of the 16-bit words in 32-bit values; devices disagree on this
+  wordOrder?: "big" | "little";
+  scale?: number;
+  offset?: number;
+  pollingTime?: number;
+  location?: string;
+  log?: boolean;
+}
+
+const REGISTER_KINDS: ModbusRegisterKind[] = [
+  "holding",
+  "input",
+  "coil",
+  "discrete",
+];
+const DATA_TYPES: ModbusDataType[] = [
+  "uint16",
+  "int16",
+  "uint32",
+  "int32",
+  "float32",
+];
+
+export const registerCount = (entry: ModbusRegisterMapEntry): number =>
+  entry.register === "coil" || entry.register === "discrete"
+    ? 1
+    : entry.dataType && entry.dataType.endsWith("32")
+    ? 2
+    : 1;
+
+export const decodeRegisters = (
+  words: number[],
+  entry: ModbusRegisterMapEntry
+): number => {
+  const dataType = entry.dataType ?? "uint16";
+  const buffer = Buffer.alloc(words.length * 2);
+  const ordered = entry.wordOrder === "little" ? [...words].reverse() : words;
+  ordered.forEach((word, index) => buffer.writeUInt16BE(word, index * 2));
+
+  let raw: number;
+  switch (dataType) {
+    case "uint16":
+      raw = buffer.readUInt16BE(0);
+      break;
+    case "int16":
+      raw = buffer.readInt16BE(0);
+      break;
+    case "uint32":
+      raw = buffer.readUInt32BE(0);
+      break;
+    case "int32":
+      raw = buffer.readInt32BE(0);
+      break;
+    case "float32":
+      raw = buffer.readFloatBE(0);
+      break;
+  }
+  return raw * (entry.scale ?? 1) + (entry.offset ?? 0);
+};
+
+const validateEntry = (raw: unknown, index: number): ModbusRegisterMapEntry => {
+  const entry = raw as ModbusRegisterMapEntry;
+  const where = `Modbus register map entry ${index}`;
+  if (!entry || typeof entry !== "object") {
+    throw new Error(`${where} must be an object`);
+  }
+  if (typeof entry.id !== "string" || !entry.id) {
+    throw new Error(`${where} requires an id`);
+  }
+  if (!SENSOR_TYPES.includes(entry.type)) {
+    throw new Error(
+      `${where} (${entry.id}) type must be one of ${SENSOR_TYPES.join(", ")}`
+    );
+  }
+  if (!Number.isInteger(entry.unit) || entry.unit < 1 || entry.unit > 247) {
+    throw new Error(`${where} (${entry.id}) unit must be 1-247`);
+  }
+  if (!REGISTER_KINDS.includes(entry.register)) {
+    throw new Error(
+      `${where} (${entry.id}) register must be one of ${REGISTER_KINDS.join(
+        ", "
+      )}`
+    );
+  }
+  if (
+    !Number.isInteger(entry.address) ||
+    entry.address < 0 ||
+    entry.address > 0xffff
+  ) {
+    throw new Error(`${where} (${entry.id}) address must be 0-65535`);
+  }
+  if (entry.dataType !== undefined && !DATA_TYPES.includes(entry.dataType)) {
+    throw new Error(
+      `${where} (${entry.id}) dataType must be one of ${DATA_TYPES.join(", ")}`
+    );
+  }
+  for (const field of ["scale", "offset", "pollingTime"] as const) {
+    const value = entry[field];
+    if (value !== undefined && !Number.isFinite(value)) {
+      throw new Error(`${where} (${entry.id}) ${field} must be a number`);
+    }
+  }
+  return entry;
+};
+
+/** Accepts a list of entries or `{ "sensors": [...] }`. */
+export const parseRegisterMap = (raw: unknown): ModbusRegisterMapEntry[] => {
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw as { sensors?: unknown })?.sensors;
+  if (!Array.isArray(list)) {
+    throw new Error("Modbus register map must be a list of sensors");
+  }
+  const entries = list.map(validateEntry);
+  const ids = new Set<string>();
+  for (const entry of entries) {
+    if (ids.has(entry.id)) {
+      throw new Error(`Duplicate Modbus sensor id ${entry.id}`);
+    }
+    ids.add(entry.id);
+  }
+  return entries;
+};
+
+export const loadRegisterMap = (path: string): ModbusRegisterMapEntry[] =>
+  parseRegisterMap(JSON.parse(fs.readFileSync(path, "utf8")));
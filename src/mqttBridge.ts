@@ -0,0 +1,400 @@
+import { EventEmitter } from "node:events";
+import os from "node:os";
+import mqtt, { MqttClient } from "mqtt";
+import { uuid } from "uuidv4";
+import {
+  Actuator,
+  ACTUATORS,
+  ActuatorState,
+  Command,
+  IAlert,
+  SensorReading,
+  SensorType,
+} from "./types";
+
+export interface MqttBridgeOptions {
+  url: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  // every topic lives below this, e.g. greenhouse/sensors/<id>/state
+  baseTopic?: string;
+  discoveryPrefix?: string;
+  // false skips Home Assistant discovery entirely
+  discovery?: boolean;
+  // identifies this worker in Home Assistant; defaults to the hostname
+  deviceId?: string;
+  // node the four actuator switches control; node-less states match too
+  actuatorNode?: string;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  maxBufferedMessages?: number;
+  // commands the command topic accepts; it refuses everything without them
+  commands?: string[];
+}
+
+export interface MqttBridgeStats {
+  connected: boolean;
+  published: number;
+  buffered: number;
+  dropped: number;
+  reconnects: number;
+  commands: number;
+}
+
+type OutgoingMessage = { topic: string; payload: string; retain: boolean };
+
+type CommandHandler = (packet: Command) => Promise<unknown>;
+
+const DEVICE_CLASSES: Partial<
+  Record<SensorType, { deviceClass?: string; unit?: string }>
+> = {
+  temperature: { deviceClass: "temperature", unit: "°C" },
+  air_temperature: { deviceClass: "temperature", unit: "°C" },
+  humidity: { deviceClass: "humidity", unit: "%" },
+  soil_moisture: { deviceClass: "moisture", unit: "%" },
+  co2: { deviceClass: "carbon_dioxide", unit: "ppm" },
+  TVOC: { deviceClass: "volatile_organic_compounds_parts", unit: "ppb" },
+  water_flow: { deviceClass: "volume_flow_rate", unit: "L/min" },
+  utitlization: { unit: "%" },
+};
+
+// Home Assistant object ids only allow [a-zA-Z0-9_-]
+const objectId = (id: string) => id.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+const parseSwitchPayload = (raw: string): boolean | undefined => {
+  const text = raw.trim().toUpperCase();
+  if (["ON", "TRUE", "1"].includes(text)) return true;
+  if (["OFF", "FALSE", "0"].includes(text)) return false;
+  return undefined;
+};
+
+/**
+ * Mirrors the worker onto an MQTT broker: readings, status, alerts and
+ * actuator states go out, commands come in and run like socket commands.
+ * Everything published while the broker is away is buffered; retained
+ * topics only keep their latest value.
+ */
+export class MqttBridge extends EventEmitter {
+  private readonly options: MqttBridgeOptions;
+  private readonly handleCommand: CommandHandler;
+  private readonly baseTopic: string;
+  private readonly discoveryPrefix: string;
+  private readonly deviceId: string;
+  private client?: MqttClient;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectDelayMs: number;
+  private stopped = false;
+  private retained = new Map<string, OutgoingMessage>();
+  private queue: OutgoingMessage[] = [];
+  // sensor ids with a discovery config on the broker
+  private announced = new Map<string, SensorReading>();
+  private stats: MqttBridgeStats = {
+    connected: false,
+    published: 0,
+    buffered: 0,
+    dropped: 0,
+    reconnects: 0,
+    commands: 0,
+  };
+
+  constructor(options: MqttBridgeOptions, handleCommand: CommandHandler) {
+    super();
+    this.options = options;
+    this.handleCommand = handleCommand;
+    this.baseTopic = options.baseTopic ?? "greenhouse";
+    this.discoveryPrefix = options.discoveryPrefix ?? "homeassistant";
+    this.deviceId = objectId(options.deviceId ?? os.hostname());
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+  }
+
+  public getStats(): MqttBridgeStats {
+    return {
+      ...this.stats,
+      buffered: this.retained.size + this.queue.length,
+    };
+  }
+
+  public start() {
+    this.stopped = false;
+    this.connect();
+  }
+
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    const client = this.client;
+    this.client = undefined;
+    if (!client) return;
+    if (client.connected) {
+      // a clean disconnect skips the will, so say goodbye ourselves
+      await client.publishAsync(this.topic("availability"), "offline", {
+        qos: 1,
+        retain: true,
+      });
+    }
+    await client.endAsync();
+  }
+
+  public publishReading(reading: SensorReading) {
+    if (this.options.discovery !== false && !this.announced.has(reading.id)) {
+      this.announced.set(reading.id, reading);
+      // otherwise it goes out with the rest once connected
+      if (this.client?.connected) this.announceSensor(reading);
+    }
+    this.publish(this.sensorTopic(reading.id), JSON.stringify(reading), false);
+  }
+
+  public publishStatus(status: unknown) {
+    this.publish(this.topic("status"), JSON.stringify(status), true);
+  }
+
+  public publishAlerts(alerts: IAlert[]) {
+    this.publish(this.topic("alerts"), JSON.stringify(alerts), true);
+  }
+
+  public publishActuatorState(state: ActuatorState) {
+    if (state.node && state.node !== this.options.actuatorNode) return;
+    this.publish(
+      this.topic(`actuators/${state.actuator}/state`),
+      state.value ? "ON" : "OFF",
+      true
+    );
+  }
+
+  private topic(suffix: string) {
+    return `${this.baseTopic}/${suffix}`;
+  }
+
+  private sensorTopic(sensorId: string) {
+    return this.topic(`sensors/${sensorId}/state`);
+  }
+
+  private connect() {
+    const client = mqtt.connect(this.options.url, {
+      username: this.options.username,
+      password: this.options.password,
+      clientId: this.options.clientId ?? `greenhouse-${this.deviceId}`,
+      // reconnects are scheduled here so they can back off
+      reconnectPeriod: 0,
+      connectTimeout: 10000,
+      will: {
+        topic: this.topic("availability"),
+        payload: Buffer.from("offline"),
+        qos: 1,
+        retain: true,
+      },
+    });
+    this.client = client;
+
+    client.on("connect", () => {
+      this.stats.connected = true;
+      this.reconnectDelayMs = this.options.reconnectDelayMs ?? 1000;
+      console.log(`[MQTT] Connected to ${this.options.url}`);
+      client.subscribe([
+        this.topic("command"),
+        this.topic("actuators/+/set"),
+        `${this.discoveryPrefix}/status`,
+      ]);
+      client.publish(this.topic("availability"), "online", {
+        qos: 1,
+        retain: true,
+      });
+      if (this.options.discovery !== false) this.announceAll();
+      this.flush();
+      this.emit("connected");
+    });
+    client.on("message", (topic: string, payload: Buffer) =>
+      this.handleMessage(topic, payload.toString("utf8"))
+    );
+    client.on("error", (err: Error) => {
+      console.warn(`[MQTT] ${err.message}`);
+    });
+    client.on("close", () => {
+      if (this.client !== client) return;
+      const wasConnected = this.stats.connected;
+      this.stats.connected = false;
+      if (wasConnected) this.emit("disconnected");
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(
+      delay * 2,
+      this.options.maxReconnectDelayMs ?? 60000
+    );
+    console.warn(`[MQTT] Broker unavailable, retrying in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.stats.reconnects += 1;
+      const previous = this.client;
+      previous?.removeAllListeners();
+      previous?.on("error", () => undefined);
+      previous?.end(true);
+      this.connect();
+    }, delay);
+  }
+
+  private publish(topic: string, payload: string, retain: boolean) {
+    const message = { topic, payload, retain };
+    if (this.client?.connected) {
+      this.send(message);
+      return;
+    }
+    if (retain) {
+      this.retained.set(topic, message);
+      return;
+    }
+    this.queue.push(message);
+    const limit = this.options.maxBufferedMessages ?? 1000;
+    if (this.queue.length > limit) {
+      this.queue.shift();
+      this.stats.dropped += 1;
+    }
+  }
+
+  private send(message: OutgoingMessage) {
+    this.client!.publish(message.topic, message.payload, {
+      qos: message.retain ? 1 : 0,
+      retain: message.retain,
+    });
+    this.stats.published += 1;
+  }
+
+  private flush() {
+    const pending = [...this.retained.values(), ...this.queue];
+    this.retained.clear();
+    this.queue = [];
+    for (const message of pending) this.send(message);
+  }
+
+  private handleMessage(topic: string, payload: string) {
+    if (topic === `${this.discoveryPrefix}/status`) {
+      // Home Assistant restarted and forgot non-retained state
+      if (payload === "online" && this.options.discovery !== false) {
+        this.announceAll();
+      }
+      return;
+    }
+
+    if (topic === this.topic("command")) {
+      let packet: Command;
+      try {
+        packet = JSON.parse(payload);
+      } catch (err) {
+        console.warn(`[MQTT] Ignoring invalid command on ${topic}`);
+        return;
+      }
+      if (
+        typeof packet?.cmd === "string" &&
+        !this.options.commands?.includes(packet.cmd)
+      ) {
+        console.warn(
+          `[MQTT] Refusing ${packet.cmd}, it is not an MQTT command`
+        );
+        this.publishReply(packet, {
+          ok: false,
+          error: { message: `${packet.cmd} is not allowed over MQTT` },
+        });
+        return;
+      }
+      this.runCommand(packet);
+      return;
+    }
+
+    const match = /\/actuators\/([^/]+)\/set$/.exec(topic);
+    if (match) {
+      const actuator = match[1] as Actuator;
+      const value = parseSwitchPayload(payload);
+      if (!ACTUATORS.includes(actuator) || value === undefined) {
+        console.warn(`[MQTT] Ignoring ${payload} on ${topic}`);
+        return;
+      }
+      this.runCommand({
+        cmd: "manual_override",
+        actuator,
+        value,
+        node: this.options.actuatorNode,
+      });
+    }
+  }
+
+  private runCommand(message: Command) {
+    if (!message || typeof message.cmd !== "string") {
+      console.warn("[MQTT] Ignoring command without cmd");
+      return;
+    }
+    const packet = { ...message, id: message.id ?? uuid() };
+    this.stats.commands += 1;
+    this.handleCommand(packet)
+      .then((reply) => this.publishReply(packet, { ok: true, data: reply }))
+      .catch((err: Error) =>
+        this.publishReply(packet, {
+          ok: false,
+          error: { message: err.message },
+        })
+      );
+  }
+
+  private publishReply(packet: Command, result: Record<string, unknown>) {
+    this.publish(
+      this.topic("command/reply"),
+      JSON.stringify({ id: packet.id, cmd: packet.cmd, ...result }),
+      false
+    );
+  }
+
+  private device() {
+    return {
+      identifiers: [`greenhouse_${this.deviceId}`],
+      name: `Greenhouse ${this.deviceId}`,
+      manufacturer: "greenhouse-worker",
+    };
+  }
+
+  private announceAll() {
+    for (const reading of this.announced.values()) this.announceSensor(reading);
+    for (const actuator of ACTUATORS) this.announceActuator(actuator);
+  }
+
+  private announceSensor(reading: SensorReading) {
+    const id = objectId(reading.id);
+    const meta = DEVICE_CLASSES[reading.type] ?? {};
+    this.publish(
+      `${this.discoveryPrefix}/sensor/${this.deviceId}/${id}/config`,
+      JSON.stringify({
+        name: reading.id,
+        unique_id: `greenhouse_${this.deviceId}_${id}`,
+        state_topic: this.sensorTopic(reading.id),
+        value_template: "{{ value_json.value }}",
+        device_class: meta.deviceClass,
+        unit_of_measurement: meta.unit,
+        state_class: "measurement",
+        availability_topic: this.topic("availability"),
+        device: this.device(),
+      }),
+      true
+    );
+  }
+
+  private announceActuator(actuator: Actuator) {
+    this.publish(
+      `${this.discoveryPrefix}/switch/${this.deviceId}/${actuator}/config`,
+      JSON.stringify({
+        name: actuator,
+        unique_id: `greenhouse_${this.deviceId}_${actuator}`,
+        command_topic: this.topic(`actuators/${actuator}/set`),
+        state_topic: this.topic(`actuators/${actuator}/state`),
+        payload_on: "ON",
+        payload_off: "OFF",
+        availability_topic: this.topic("availability"),
+        device: this.device(),
+      }),
+      true
+    );
+  }
+}
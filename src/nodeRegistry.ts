@@ -0,0 +1,124 @@
+import { EventEmitter } from "node:events";
+import type { NodeStatus } from "./types";
+
+interface NodeRegistryOptions {
+  heartbeatTimeoutMs?: number;
+}
+
+/**
+ * Address of the node a bus message came from. Boards that predate
+ * addressing only announce a device name, which then doubles as the address.
+ */
+export const messageNodeId = (message: unknown): string | undefined => {
+  if (!message || typeof message !== "object") return undefined;
+  const data = message as Record<string, unknown>;
+  for (const value of [data.from, data.node, data.hello, data.heartbeat]) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+export class NodeRegistry extends EventEmitter {
+  private readonly heartbeatTimeoutMs: number;
+  private nodes = new Map<string, NodeStatus>();
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(options: NodeRegistryOptions = {}) {
+    super();
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 15000;
+  }
+
+  public start() {
+    if (this.heartbeatTimer || this.heartbeatTimeoutMs <= 0) return;
+    const interval = Math.max(1000, Math.floor(this.heartbeatTimeoutMs / 2));
+    this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), interval);
+  }
+
+  public stop() {
+    if (!this.heartbeatTimer) return;
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+  }
+
+  public list(): NodeStatus[] {
+    return Array.from(this.nodes.values());
+  }
+
+  public get(node: string): NodeStatus | undefined {
+    return this.nodes.get(node);
+  }
+
+  public hasConnectedNodes(): boolean {
+    return this.list().some((status) => status.connected);
+  }
+
+  /** Updates the registry from any inbound bus message. */
+  public handlePayload(payload: unknown) {
+    const node = messageNodeId(payload);
+    if (!node) return;
+    const data = payload as Record<string, unknown>;
+    const now = Date.now();
+    const isHello = typeof data.hello === "string";
+    const isHeartbeat = typeof data.heartbeat === "string";
+
+    const existing = this.nodes.get(node);
+    // unannounced nodes only enter the registry once they say hello
+    if (!existing && !isHello && !isHeartbeat) return;
+
+    const status: NodeStatus = existing ?? { node, connected: false };
+    status.lastSeen = now;
+    if (!isHello && !isHeartbeat) {
+      this.nodes.set(node, status);
+      return;
+    }
+
+    if (isHello) status.device = data.hello as string;
+    else if (!status.device) status.device = data.heartbeat as string;
+    if (typeof data.speed === "number") status.speed = data.speed;
+    if (!status.connected) {
+      status.connected = true;
+      status.connectedAt = now;
+    }
+    status.lastHeartbeat = now;
+    status.disconnectedAt = undefined;
+    status.reason = undefined;
+
+    this.nodes.set(node, status);
+    this.emit("changed", status);
+  }
+
+  public recordError(node: string, message: string) {
+    const status = this.nodes.get(node) ?? { node, connected: false };
+    status.lastError = message;
+    status.lastErrorAt = Date.now();
+    this.nodes.set(node, status);
+    this.emit("changed", status);
+  }
+
+  public markDisconnected(node: string, reason: string): boolean {
+    const status = this.nodes.get(node);
+    if (!status) return false;
+    if (!status.connected) {
+      status.reason = reason;
+      return false;
+    }
+    status.connected = false;
+    status.disconnectedAt = Date.now();
+    status.reason = reason;
+    this.emit("changed", status);
+    return true;
+  }
+
+  public markAllDisconnected(reason: string) {
+    for (const node of this.nodes.keys()) this.markDisconnected(node, reason);
+  }
+
+  public checkHeartbeats(now = Date.now()) {
+    for (const status of this.nodes.values()) {
+      if (!status.connected || !status.lastHeartbeat) continue;
+      if (now - status.lastHeartbeat > this.heartbeatTimeoutMs) {
+        this.markDisconnected(status.node, "Remote heartbeat timeout");
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  ACTUATORS,
+  Actuator,
+  ActuatorHistoryQuery,
+  ReadingsQuery,
+} from "./types";
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_BUCKETS = 10_000;
+const DEFAULT_POINTS = 500;
+const DEFAULT_HISTORY_LIMIT = 500;
+const MAX_HISTORY_LIMIT = 5000;
+
+export const parseDuration = (value: unknown, label: string): number => {
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    return Math.floor(value);
+  }
+  if (typeof value === "string") {
+    const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/.exec(value.trim());
+    if (match) {
+      const ms = Number(match[1]) * DURATION_UNITS[match[2] ?? "ms"];
+      if (ms > 0) return Math.floor(ms);
+    }
+  }
+  throw new Error(`Invalid ${label}: expected milliseconds or e.g. "5m"`);
+};
+
+export const parseTimestamp = (value: unknown, label: string): number => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    const asNumber = Number(value);
+    if (Number.isFinite(asNumber)) return asNumber;
+    const parsed = Date.parse(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  throw new Error(`Invalid ${label}: expected epoch milliseconds or ISO date`);
+};
+
+const parseSensorIds = (params: Record<string, unknown>): string[] => {
+  const raw = params.sensorIds ?? params.sensors ?? params.sensorId;
+  if (raw === undefined) return [];
+  const list = Array.isArray(raw)
+    ? raw
+    : typeof raw === "string"
+    ? raw.split(",")
+    : null;
+  if (!list || list.some((id) => typeof id !== "string")) {
+    throw new Error("Invalid sensorIds: expected a list of sensor ids");
+  }
+  return (list as string[]).map((id) => id.trim()).filter(Boolean);
+};
+
+/**
+ * Builds a readings query from loosely typed client input. `to` defaults to
+ * now, `from` to 24h before `to` and the bucket to roughly 500 points.
+ */
+export const parseReadingsQuery = (
+  params: Record<string, unknown>
+): ReadingsQuery => {
+  const to =
+    params.to === undefined ? Date.now() : parseTimestamp(params.to, "to");
+  const from =
+    params.from === undefined
+      ? to - DEFAULT_RANGE_MS
+      : parseTimestamp(params.from, "from");
+  if (from >= to) throw new Error("Invalid range: from must be before to");
+
+  const bucketMs =
+    params.bucket === undefined
+      ? Math.max(60 * 1000, Math.ceil((to - from) / DEFAULT_POINTS))
+      : parseDuration(params.bucket, "bucket");
+  if ((to - from) / bucketMs > MAX_BUCKETS) {
+    throw new Error(
+      `Bucket too small: range would produce more than ${MAX_BUCKETS} buckets`
+    );
+  }
+
+  return { sensorIds: parseSensorIds(params), from, to, bucketMs };
+};
+
+/** Actuator history defaults to the last 24h, newest first. */
+export const parseActuatorHistoryQuery = (
+  params: Record<string, unknown>
+): ActuatorHistoryQuery => {
+  const to =
+    params.to === undefined ? Date.now() : parseTimestamp(params.to, "to");
+  const from =
+    params.from === undefined
+      ? to - DEFAULT_RANGE_MS
+      : parseTimestamp(params.from, "from");
+  if (from >= to) throw new Error("Invalid range: from must be before to");
+
+  if (
+    params.actuator !== undefined &&
+    !ACTUATORS.includes(params.actuator as Actuator)
+  ) {
+    throw new Error(
+      `Invalid actuator: expected one of ${ACTUATORS.join(", ")}`
+    );
+  }
+  if (params.node !== undefined && typeof params.node !== "string") {
+    throw new Error("Invalid node: expected a node id");
+  }
+
+  const limit =
+    params.limit === undefined ? DEFAULT_HISTORY_LIMIT : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    throw new Error(`Invalid limit: expected 1-${MAX_HISTORY_LIMIT}`);
+  }
+
+  return {
+    actuator: params.actuator as Actuator | undefined,
+    node: params.node as string | undefined,
+    from,
+    to,
+    limit,
+  };
+};
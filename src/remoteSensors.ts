@@ -0,0 +1,125 @@
+import type { BusManager } from "./busManager";
+import { messageNodeId, NodeRegistry } from "./nodeRegistry";
+import { SENSOR_TYPES, SensorReading, SensorType } from "./types";
+
+interface RemoteSensorPollerOptions {
+  intervalMs?: number;
+  requestTimeoutMs?: number;
+}
+
+const isSensorType = (value: unknown): value is SensorType =>
+  SENSOR_TYPES.includes(value as SensorType);
+
+const toReading = (
+  raw: unknown,
+  node: string,
+  fallbackLocation: unknown,
+  timestamp: string
+): SensorReading | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  if (!isSensorType(data.type)) return null;
+  if (
+    typeof data.value !== "boolean" &&
+    !(typeof data.value === "number" && Number.isFinite(data.value))
+  ) {
+    return null;
+  }
+
+  const localId = data.id ?? data.sensor ?? data.sensorId ?? data.type;
+  if (typeof localId !== "string" || !localId) return null;
+
+  const reading: SensorReading = {
+    id: `${node}:${localId}`,
+    type: data.type,
+    value: data.value,
+    timestamp,
+    node,
+  };
+  const location = data.location ?? fallbackLocation;
+  if (typeof location === "string") reading.location = location;
+  return reading;
+};
+
+/**
+ * Maps a node report into readings with node-qualified ids. Accepts a single
+ * `{ sensor, type, value }` or a `readings` / `sensors` list of those. Node
+ * clocks are not trusted, so readings are stamped on arrival.
+ */
+export const parseRemoteReadings = (
+  payload: unknown,
+  fallbackNode?: string
+): SensorReading[] => {
+  if (!payload || typeof payload !== "object") return [];
+  const data = payload as Record<string, unknown>;
+  const node = messageNodeId(payload) ?? fallbackNode;
+  if (!node) return [];
+
+  const timestamp = new Date().toISOString();
+  const list = Array.isArray(data.readings)
+    ? data.readings
+    : Array.isArray(data.sensors)
+    ? data.sensors
+    : data.type !== undefined && data.value !== undefined
+    ? [data]
+    : [];
+
+  return list
+    .map((raw) => toReading(raw, node, data.location, timestamp))
+    .filter((reading): reading is SensorReading => reading !== null);
+};
+
+/**
+ * Asks every connected node for its sensors on a fixed interval. Replies are
+ * ingested like any other command reply.
+ */
+export class RemoteSensorPoller {
+  private readonly busManager: BusManager;
+  private readonly nodeRegistry: NodeRegistry;
+  private readonly intervalMs: number;
+  private readonly requestTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    busManager: BusManager,
+    nodeRegistry: NodeRegistry,
+    options: RemoteSensorPollerOptions = {}
+  ) {
+    this.busManager = busManager;
+    this.nodeRegistry = nodeRegistry;
+    this.intervalMs = options.intervalMs ?? 30000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 1000;
+  }
+
+  public start() {
+    if (this.timer || this.intervalMs <= 0) return;
+    this.timer = setInterval(() => this.pollAll(), this.intervalMs);
+  }
+
+  public stop() {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  public async pollAll() {
+    for (const status of this.nodeRegistry.list()) {
+      if (!status.connected) continue;
+      await this.poll(status.node).catch((err: Error) =>
+        console.error(`[Sensors] Failed to poll node ${status.node}`, err)
+      );
+    }
+  }
+
+  public poll(node: string): Promise<unknown> {
+    // routine polling yields to control traffic and is dropped once stale
+    return this.busManager.request(
+      { cmd: "read_sensors", node },
+      {
+        timeoutMs: this.requestTimeoutMs,
+        priority: "low",
+        expiresAt: Date.now() + this.intervalMs,
+      }
+    );
+  }
+}
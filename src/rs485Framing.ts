@@ -0,0 +1,144 @@
+import { EventEmitter } from "node:events";
+import { crc16 } from "./crc16";
+
+// byte stuffing as in HDLC: START and ESCAPE never appear inside a frame body
+export const FRAME_START = 0x7e;
+export const FRAME_ESCAPE = 0x7d;
+const ESCAPE_XOR = 0x20;
+
+export const MAX_FRAME_PAYLOAD = 4096;
+
+// "payload" is raised by consumers for intact frames they cannot interpret
+export type FrameErrorReason = "crc" | "length" | "truncated" | "payload";
+
+export interface FrameError {
+  reason: FrameErrorReason;
+  message: string;
+}
+
+const stuff = (body: Buffer): Buffer => {
+  const out: number[] = [];
+  for (const byte of body) {
+    if (byte === FRAME_START || byte === FRAME_ESCAPE) {
+      out.push(FRAME_ESCAPE, byte ^ ESCAPE_XOR);
+    } else {
+      out.push(byte);
+    }
+  }
+  return Buffer.from(out);
+};
+
+/**
+ * Frame layout before stuffing: length (uint16 BE), payload, CRC-16/MODBUS
+ * (uint16 BE) over length and payload. Each frame is prefixed by FRAME_START.
+ */
+export const encodeFrame = (payload: Buffer): Buffer => {
+  if (payload.length > MAX_FRAME_PAYLOAD) {
+    throw new Error(
+      `Frame payload of ${payload.length} bytes exceeds ${MAX_FRAME_PAYLOAD}`
+    );
+  }
+  const body = Buffer.alloc(payload.length + 4);
+  body.writeUInt16BE(payload.length, 0);
+  payload.copy(body, 2);
+  body.writeUInt16BE(crc16(body, 0, payload.length + 2), payload.length + 2);
+  return Buffer.concat([Buffer.from([FRAME_START]), stuff(body)]);
+};
+
+/**
+ * Incremental decoder for a byte stream. Bytes outside a frame are skipped
+ * and any broken frame is abandoned at the next start byte, so the decoder
+ * resynchronises on its own after line noise.
+ */
+export class FrameDecoder extends EventEmitter {
+  private body: number[] = [];
+  private inFrame = false;
+  private escaping = false;
+  private expectedLength?: number;
+  private skipped = 0;
+
+  public push(chunk: Buffer) {
+    for (const byte of chunk) {
+      if (byte === FRAME_START) {
+        if (this.inFrame && this.body.length) {
+          this.fail("truncated", "Frame cut short by a new start byte");
+        }
+        this.reset();
+        this.inFrame = true;
+        continue;
+      }
+
+      if (!this.inFrame) {
+        this.skipped += 1;
+        continue;
+      }
+
+      if (this.escaping) {
+        this.escaping = false;
+        this.accept(byte ^ ESCAPE_XOR);
+      } else if (byte === FRAME_ESCAPE) {
+        this.escaping = true;
+      } else {
+        this.accept(byte);
+      }
+    }
+  }
+
+  /** Returns and clears the number of bytes skipped while hunting a frame. */
+  public takeSkippedBytes(): number {
+    const skipped = this.skipped;
+    this.skipped = 0;
+    return skipped;
+  }
+
+  private accept(byte: number) {
+    this.body.push(byte);
+
+    if (this.expectedLength === undefined && this.body.length === 2) {
+      this.expectedLength = (this.body[0] << 8) | this.body[1];
+      if (this.expectedLength > MAX_FRAME_PAYLOAD) {
+        this.fail(
+          "length",
+          `Frame length ${this.expectedLength} exceeds ${MAX_FRAME_PAYLOAD}`
+        );
+        this.reset();
+      }
+      return;
+    }
+
+    if (
+      this.expectedLength === undefined ||
+      this.body.length < this.expectedLength + 4
+    ) {
+      return;
+    }
+
+    const frame = Buffer.from(this.body);
+    const length = this.expectedLength;
+    this.reset();
+
+    const expected = frame.readUInt16BE(length + 2);
+    const actual = crc16(frame, 0, length + 2);
+    if (expected !== actual) {
+      this.fail(
+        "crc",
+        `CRC mismatch: got 0x${expected.toString(16).padStart(4, "0")}, ` +
+          `computed 0x${actual.toString(16).padStart(4, "0")}`
+      );
+      return;
+    }
+    this.emit("frame", frame.subarray(2, length + 2));
+  }
+
+  private fail(reason: FrameErrorReason, message: string) {
+    const error: FrameError = { reason, message };
+    this.emit("invalid", error);
+  }
+
+  private reset() {
+    this.body = [];
+    this.inFrame = false;
+    this.escaping = false;
+    this.expectedLength = undefined;
+  }
+}
@@ -2,11 +2,25 @@ import { EventEmitter } from "node:events";
 import { SerialPort } from "serialport";
 import { ReadlineParser } from "@serialport/parser-readline";
 import { Gpio } from "onoff";
+import { encodeFrame, FrameDecoder, FrameError } from "./rs485Framing";
 import type { Command, Status } from "./types";
+import type { BusTransport } from "./transports/busTransport";
 
 const sleep = (ms: number) =>
   new Promise<void>((resolve) => setTimeout(resolve, ms));
 
+// "framed" is the binary format from rs485Framing; older firmware speaks
+// newline-delimited JSON. "modbus" only surfaces raw bytes via "data".
+export type RS485Protocol = "json-line" | "framed" | "modbus";
+
+export interface RS485Stats {
+  framesReceived: number;
+  crcErrors: number;
+  framingErrors: number;
+  invalidPayloads: number;
+  skippedBytes: number;
+}
+
 export interface RS485Options {
   path?: string;
   baudRate?: number;
@@ -22,6 +36,7 @@ export interface RS485Options {
   autoReconnect?: boolean;
   reconnectIntervalMs?: number;
   logTraffic?: boolean;
+  protocol?: RS485Protocol;
 }
 
 type InternalRS485Options = Required<
@@ -39,6 +54,7 @@ type InternalRS485Options = Required<
     | "turnaroundDelayMs"
     | "autoReconnect"
     | "reconnectIntervalMs"
+    | "protocol"
   >
 > &
   RS485Options;
@@ -58,18 +74,29 @@ const DEFAULT_OPTIONS: InternalRS485Options = {
   autoReconnect: true,
   reconnectIntervalMs: 5000,
   logTraffic: false,
+  protocol: "json-line",
 };
 
-export class RS485Handler extends EventEmitter {
+export class RS485Handler extends EventEmitter implements BusTransport {
   private port?: SerialPort;
   private parser?: ReadlineParser;
+  private decoder?: FrameDecoder;
   private legacyEnableGpio?: Gpio;
   private driverEnableGpio?: Gpio;
   private receiverEnableGpio?: Gpio;
   private reconnectTimer?: NodeJS.Timeout;
   private destroyed = false;
+  // while set, inbound bytes skip line/frame decoding (see withRawTraffic)
+  private rawTraffic = false;
   private status: Status = "disconnected";
   private readonly options: InternalRS485Options;
+  private stats: RS485Stats = {
+    framesReceived: 0,
+    crcErrors: 0,
+    framingErrors: 0,
+    invalidPayloads: 0,
+    skippedBytes: 0,
+  };
 
   constructor(options: RS485Options = {}) {
     super();
@@ -80,6 +107,21 @@ export class RS485Handler extends EventEmitter {
     return this.status;
   }
 
+  public getBaudRate(): number {
+    return this.options.baudRate;
+  }
+
+  public setLogTraffic(enabled: boolean) {
+    this.options.logTraffic = enabled;
+  }
+
+  public getStats(): RS485Stats {
+    if (this.decoder) {
+      this.stats.skippedBytes += this.decoder.takeSkippedBytes();
+    }
+    return { ...this.stats };
+  }
+
   public async init(): Promise<void> {
     if (this.destroyed) {
       throw new Error("Cannot initialize a destroyed RS485 handler");
@@ -89,6 +131,20 @@ export class RS485Handler extends EventEmitter {
     await this.openPort();
   }
 
+  /**
+   * Routes inbound bytes only to "data" listeners until `task` settles, so a
+   * binary protocol such as Modbus RTU can share the port with JSON nodes.
+   * Callers must hold the bus for the whole exchange.
+   */
+  public async withRawTraffic<T>(task: () => Promise<T>): Promise<T> {
+    this.rawTraffic = true;
+    try {
+      return await task();
+    } finally {
+      this.rawTraffic = false;
+    }
+  }
+
   public async sendRaw(payload: Buffer | string): Promise<void> {
     if (!payload || (Buffer.isBuffer(payload) && payload.length === 0)) return;
     await this.ensurePortReady();
@@ -127,6 +183,14 @@ export class RS485Handler extends EventEmitter {
     command: Command | { cmd: string; id: string }
   ): Promise<void> {
     const serialized = JSON.stringify(command);
+    if (this.options.protocol === "framed") {
+      if (this.options.logTraffic) {
+        console.debug(`[RS485] => (framed) ${serialized}`);
+      }
+      await this.sendRaw(encodeFrame(Buffer.from(serialized, "utf8")));
+      return;
+    }
+
     const delimiterBuffer = Buffer.isBuffer(this.options.delimiter)
       ? this.options.delimiter
       : Buffer.from(this.options.delimiter ?? "\n", "utf8");
@@ -199,15 +263,41 @@ export class RS485Handler extends EventEmitter {
       this.parser = undefined;
     }
 
-    if (this.options.delimiter) {
-      const parser = this.port.pipe(
-        new ReadlineParser({ delimiter: this.options.delimiter })
+    if (this.decoder) {
+      this.stats.skippedBytes += this.decoder.takeSkippedBytes();
+      this.decoder.removeAllListeners();
+      this.decoder = undefined;
+    }
+
+    let decode: (data: Buffer) => void;
+    if (this.options.protocol === "modbus") {
+      decode = (data) => this.handleRaw(data);
+    } else if (this.options.protocol === "framed") {
+      const decoder = new FrameDecoder();
+      decoder.on("frame", (frame: Buffer) => this.handleFrame(frame));
+      decoder.on("invalid", (error: FrameError) =>
+        this.handleFrameError(error)
       );
+      this.decoder = decoder;
+      decode = (data) => decoder.push(data);
+    } else if (this.options.delimiter) {
+      const parser = new ReadlineParser({ delimiter: this.options.delimiter });
       this.parser = parser;
       parser.on("data", (data: string | Buffer) => this.handleIncoming(data));
+      decode = (data) => parser.write(data);
     } else {
-      this.port.on("data", (data: Buffer) => this.handleIncoming(data));
+      decode = (data) => this.handleIncoming(data);
+    }
+    this.port.on("data", (data: Buffer) =>
+      this.rawTraffic ? this.handleRaw(data) : decode(data)
+    );
+  }
+
+  private handleRaw(data: Buffer) {
+    if (this.options.logTraffic) {
+      console.debug(`[RS485] <= ${data.toString("hex")}`);
     }
+    this.emit("data", data);
   }
 
   private handleIncoming(data: Buffer | string) {
@@ -234,6 +324,36 @@ export class RS485Handler extends EventEmitter {
     }
   }
 
+  private handleFrame(frame: Buffer) {
+    this.stats.framesReceived += 1;
+    this.emit("data", frame);
+
+    const asString = frame.toString("utf8");
+    if (this.options.logTraffic) {
+      console.debug(`[RS485] <= (framed) ${asString}`);
+    }
+    this.emit("line", asString);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(asString);
+    } catch (err) {
+      // the frame arrived intact, so the sender itself produced bad JSON
+      this.handleFrameError({
+        reason: "payload",
+        message: "Frame payload is not valid JSON",
+      });
+      return;
+    }
+    this.emit("message", parsed);
+  }
+
+  private handleFrameError(error: FrameError) {
+    if (error.reason === "crc") this.stats.crcErrors += 1;
+    else if (error.reason === "payload") this.stats.invalidPayloads += 1;
+    else this.stats.framingErrors += 1;
+    this.emit("frame_error", error, this.getStats());
+  }
+
   private ensureControlPins() {
     if (process.platform !== "linux") {
       console.warn(
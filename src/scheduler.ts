@@ -0,0 +1,358 @@
+import { EventEmitter } from "node:events";
+import { uuid } from "uuidv4";
+import type { BusManager } from "./busManager";
+import { CronExpression, cronMatches, parseCron } from "./cron";
+import type { DatabaseHandler } from "./database/database";
+import {
+  ACTUATORS,
+  Actuator,
+  Schedule,
+  ScheduleKind,
+  ScheduleTransition,
+} from "./types";
+
+type ScheduleInput = Partial<Omit<Schedule, "id" | "createdAt" | "updatedAt">>;
+
+interface SchedulerOptions {
+  tickMs?: number;
+  requestTimeoutMs?: number;
+  // actuators under other control (e.g. automation) are left alone
+  isSuspended?: (actuator: Actuator) => boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const SCHEDULE_KINDS: ScheduleKind[] = ["window", "cron", "interval"];
+const SCHEDULE_FIELDS: (keyof ScheduleInput)[] = [
+  "name",
+  "actuator",
+  "node",
+  "kind",
+  "enabled",
+  "start",
+  "end",
+  "days",
+  "cron",
+  "durationMs",
+  "everyMs",
+  "onMs",
+  "anchor",
+];
+
+const pickScheduleFields = (input: ScheduleInput): ScheduleInput => {
+  const picked: Record<string, unknown> = {};
+  for (const field of SCHEDULE_FIELDS) {
+    if (input[field] !== undefined) picked[field] = input[field];
+  }
+  return picked as ScheduleInput;
+};
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const parseTimeOfDay = (value: unknown, label: string): number => {
+  const match =
+    typeof value === "string" ? /^(\d{1,2}):(\d{2})$/.exec(value) : null;
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!match || hours > 23 || minutes > 59) {
+    throw new Error(`Schedule ${label} must be a "HH:MM" time`);
+  }
+  return hours * 60 + minutes;
+};
+
+type ScheduleTarget = { actuator: Actuator; node?: string };
+
+const targetKey = (target: ScheduleTarget) =>
+  `${target.node ?? ""}:${target.actuator}`;
+
+export class Scheduler extends EventEmitter {
+  private readonly database: DatabaseHandler;
+  private readonly busManager: BusManager;
+  private readonly tickMs: number;
+  private readonly requestTimeoutMs: number;
+  private readonly isSuspended: (actuator: Actuator) => boolean;
+  private schedules = new Map<string, Schedule>();
+  private cronCache = new Map<string, CronExpression>();
+  // keyed by node:actuator, the same actuator may sit on several nodes
+  private applied = new Map<
+    string,
+    { target: ScheduleTarget; value: boolean }
+  >();
+  private pending = new Set<string>();
+  private tickTimer?: NodeJS.Timeout;
+
+  constructor(
+    database: DatabaseHandler,
+    busManager: BusManager,
+    options: SchedulerOptions = {}
+  ) {
+    super();
+    this.database = database;
+    this.busManager = busManager;
+    this.tickMs = options.tickMs ?? 5000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 1000;
+    this.isSuspended = options.isSuspended ?? (() => false);
+  }
+
+  /**
+   * Loads persisted schedules and starts ticking. The first tick drives every
+   * scheduled actuator to the state it should be in right now, which also
+   * covers transitions missed while the worker was down.
+   */
+  public start() {
+    if (this.tickTimer) return;
+    for (const schedule of this.database.loadSchedules()) {
+      try {
+        this.schedules.set(schedule.id, this.validate(schedule));
+      } catch (err) {
+        console.error(
+          `[Scheduler] Ignoring invalid schedule ${schedule.id}`,
+          err
+        );
+      }
+    }
+    this.tick();
+    this.tickTimer = setInterval(() => this.tick(), this.tickMs);
+  }
+
+  public stop() {
+    if (!this.tickTimer) return;
+    clearInterval(this.tickTimer);
+    this.tickTimer = undefined;
+  }
+
+  public list(): Schedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  public create(input: ScheduleInput): Schedule {
+    const now = Date.now();
+    const schedule = this.validate({
+      enabled: true,
+      ...pickScheduleFields(input),
+      id: uuid(),
+      createdAt: now,
+      updatedAt: now,
+    } as Schedule);
+    if (schedule.kind === "interval" && schedule.anchor === undefined) {
+      schedule.anchor = now;
+    }
+    return this.store(schedule);
+  }
+
+  public update(id: string, patch: ScheduleInput): Schedule {
+    const existing = this.schedules.get(id);
+    if (!existing) throw new Error(`Unknown schedule ${id}`);
+    const schedule = this.validate({
+      ...existing,
+      ...pickScheduleFields(patch),
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: Date.now(),
+    });
+    return this.store(schedule);
+  }
+
+  public disable(id: string): Schedule {
+    return this.update(id, { enabled: false });
+  }
+
+  public isActive(schedule: Schedule, at = Date.now()): boolean {
+    if (!schedule.enabled) return false;
+
+    switch (schedule.kind) {
+      case "window": {
+        const date = new Date(at);
+        const minute = date.getHours() * 60 + date.getMinutes();
+        const start = parseTimeOfDay(schedule.start, "start");
+        const end = parseTimeOfDay(schedule.end, "end");
+        const onDay = (day: number) =>
+          !schedule.days?.length || schedule.days.includes(day);
+        if (start <= end) {
+          return onDay(date.getDay()) && minute >= start && minute < end;
+        }
+        // window crosses midnight; the early part belongs to the previous day
+        return (
+          (minute >= start && onDay(date.getDay())) ||
+          (minute < end && onDay((date.getDay() + 6) % 7))
+        );
+      }
+      case "cron": {
+        const cron = this.cronFor(schedule.cron!);
+        const durationMs = schedule.durationMs ?? MINUTE_MS;
+        const latest = Math.floor(at / MINUTE_MS) * MINUTE_MS;
+        for (let t = latest; t > at - durationMs; t -= MINUTE_MS) {
+          if (cronMatches(cron, new Date(t))) return true;
+        }
+        return false;
+      }
+      case "interval": {
+        const everyMs = schedule.everyMs!;
+        const offset =
+          (((at - (schedule.anchor ?? schedule.createdAt)) % everyMs) +
+            everyMs) %
+          everyMs;
+        return offset < schedule.onMs!;
+      }
+    }
+  }
+
+  private store(schedule: Schedule): Schedule {
+    this.database.saveSchedule(schedule);
+    this.schedules.set(schedule.id, schedule);
+    this.emit("changed", schedule);
+    this.tick();
+    return schedule;
+  }
+
+  private validate(schedule: Schedule): Schedule {
+    if (!ACTUATORS.includes(schedule.actuator)) {
+      throw new Error(
+        `Schedule actuator must be one of ${ACTUATORS.join(", ")}`
+      );
+    }
+    if (!SCHEDULE_KINDS.includes(schedule.kind)) {
+      throw new Error(
+        `Schedule kind must be one of ${SCHEDULE_KINDS.join(", ")}`
+      );
+    }
+    if (typeof schedule.enabled !== "boolean") {
+      throw new Error("Schedule enabled must be a boolean");
+    }
+
+    switch (schedule.kind) {
+      case "window":
+        parseTimeOfDay(schedule.start, "start");
+        parseTimeOfDay(schedule.end, "end");
+        if (schedule.start === schedule.end) {
+          throw new Error("Schedule start and end must differ");
+        }
+        if (
+          schedule.days !== undefined &&
+          (!Array.isArray(schedule.days) ||
+            schedule.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6))
+        ) {
+          throw new Error("Schedule days must be weekday numbers 0-6");
+        }
+        break;
+      case "cron":
+        if (typeof schedule.cron !== "string") {
+          throw new Error("Cron schedules require a cron expression");
+        }
+        this.cronFor(schedule.cron);
+        if (
+          schedule.durationMs !== undefined &&
+          !(
+            isPositiveNumber(schedule.durationMs) &&
+            schedule.durationMs <= DAY_MS
+          )
+        ) {
+          throw new Error("Schedule durationMs must be between 1ms and 24h");
+        }
+        break;
+      case "interval":
+        if (!isPositiveNumber(schedule.everyMs)) {
+          throw new Error("Interval schedules require a positive everyMs");
+        }
+        if (
+          !isPositiveNumber(schedule.onMs) ||
+          schedule.onMs >= schedule.everyMs
+        ) {
+          throw new Error("Interval schedules require 0 < onMs < everyMs");
+        }
+        if (
+          schedule.anchor !== undefined &&
+          !(
+            typeof schedule.anchor === "number" &&
+            Number.isFinite(schedule.anchor)
+          )
+        ) {
+          throw new Error("Schedule anchor must be a timestamp in ms");
+        }
+        break;
+    }
+
+    return schedule;
+  }
+
+  private cronFor(source: string): CronExpression {
+    let cron = this.cronCache.get(source);
+    if (!cron) {
+      cron = parseCron(source);
+      this.cronCache.set(source, cron);
+    }
+    return cron;
+  }
+
+  private tick() {
+    const now = Date.now();
+    const desired = new Map<
+      string,
+      { target: ScheduleTarget; value: boolean; ids: string[] }
+    >();
+
+    for (const schedule of this.schedules.values()) {
+      if (!schedule.enabled) continue;
+      const target = { actuator: schedule.actuator, node: schedule.node };
+      const key = targetKey(target);
+      const entry = desired.get(key) ?? { target, value: false, ids: [] };
+      if (this.isActive(schedule, now)) {
+        entry.value = true;
+        entry.ids.push(schedule.id);
+      }
+      desired.set(key, entry);
+    }
+
+    // actuators whose last schedule went away are switched off once
+    for (const [key, { target, value }] of this.applied) {
+      if (!desired.has(key) && value) {
+        desired.set(key, { target, value: false, ids: [] });
+      }
+    }
+
+    for (const [key, { target, value, ids }] of desired) {
+      if (this.applied.get(key)?.value === value) continue;
+      if (this.pending.has(key) || this.isSuspended(target.actuator)) continue;
+      this.switch(target, value, ids);
+    }
+  }
+
+  private switch(
+    target: ScheduleTarget,
+    value: boolean,
+    scheduleIds: string[]
+  ) {
+    const { actuator, node } = target;
+    const key = targetKey(target);
+    this.pending.add(key);
+    const transition: ScheduleTransition = {
+      actuator,
+      ...(node ? { node } : {}),
+      value,
+      scheduleIds,
+      timestamp: Date.now(),
+    };
+
+    this.busManager
+      .request(
+        { cmd: "manual_override", actuator, value, ...(node ? { node } : {}) },
+        { timeoutMs: this.requestTimeoutMs, priority: "high", retries: 2 }
+      )
+      .then(() => {
+        this.applied.set(key, { target, value });
+        this.emit("transition", transition);
+      })
+      .catch((err: Error) => {
+        // not recorded as applied, so the next tick retries
+        transition.error = err.message;
+        const where = node ? ` on ${node}` : "";
+        console.error(
+          `[Scheduler] Failed to switch ${actuator}${where} ${value}`,
+          err
+        );
+        this.emit("transition", transition);
+      })
+      .finally(() => this.pending.delete(key));
+  }
+}
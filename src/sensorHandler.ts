@@ -1,77 +1,415 @@
-import fs from "fs";
 import { EventEmitter } from "node:events";
-import { extname } from "path";
 import { Sensor } from "./sensors/Sensor";
-import { SensorReading } from "./types";
+import {
+  BUILTIN_SENSOR_DIR,
+  findPluginFiles,
+  importPlugin,
+  PluginReport,
+  PluginSources,
+  resolvePluginPackage,
+} from "./sensorPlugins";
+import { SensorDetails, SensorReading, SensorSettings } from "./types";
 
 type MaybeSensor = Sensor & {
   id: string;
   init?: (opts?: unknown) => any;
   readValue?: () => any;
+  destroy?: () => any;
 };
 
-export class SensorHandler extends EventEmitter {
-  validExtensions = [".ts", ".js"];
-  ignoreFiles = ["Sensor.ts"];
+// module resolution errors append the whole require stack
+const errorMessage = (err: unknown) => (err as Error).message.split("\n")[0];
+
+const teardown = async (sensor: MaybeSensor) => {
+  try {
+    await sensor.destroy?.();
+  } catch (err) {
+    console.error(`[Handler] Failed to tear down ${sensor.id}`, err);
+  }
+};
+
+const failedPlugin = (source: string, err: unknown): PluginReport => ({
+  source,
+  status: "failed",
+  sensors: [],
+  disabled: [],
+  error: errorMessage(err),
+});
 
-  config: Record<string, unknown> = {
-    cpuTemp: { unit: "°C" },
-  };
+export class SensorHandler extends EventEmitter {
+  // per-sensor overrides from the config file
+  settings: Record<string, SensorSettings> = {};
 
   sensors = new Map<string, MaybeSensor>();
+  // what each sensor declared itself, so removed overrides can be undone
+  private declared = new Map<string, Omit<SensorSettings, "options">>();
   private pollingTimers = new Map<string, NodeJS.Timeout>();
   private latestReadings = new Map<string, SensorReading>();
+  private pluginReports: PluginReport[] = [];
+  // plugin each sensor came from, for reloads
+  private origins = new Map<string, { source: string; modulePath: string }>();
+  // sensors the config turned off, kept so enabling them needs no restart
+  private unloaded = new Map<string, MaybeSensor>();
+  // sensor instances with a poll in flight; a reloaded sensor keeps its id
+  private reading = new Set<MaybeSensor>();
+  private polling = false;
 
-  private isCtor(v: unknown): v is new (...a: any[]) => any {
-    return (
-      typeof v === "function" &&
-      /^class\s/.test(Function.prototype.toString.call(v))
+  /**
+   * Loads the built-in sensors next to this module, then the configured
+   * plugin directories and packages. A broken plugin is reported and
+   * skipped; the others still load.
+   */
+  async loadSensors(sources: PluginSources = {}): Promise<PluginReport[]> {
+    const reports: PluginReport[] = [];
+
+    for (const dir of [BUILTIN_SENSOR_DIR, ...(sources.dirs ?? [])]) {
+      let files: string[];
+      try {
+        files = findPluginFiles(dir);
+      } catch (err) {
+        reports.push(failedPlugin(dir, err));
+        continue;
+      }
+      for (const file of files) {
+        reports.push(await this.loadPlugin(file, file));
+      }
+    }
+
+    for (const name of sources.packages ?? []) {
+      let modulePath: string;
+      try {
+        modulePath = resolvePluginPackage(name, sources.searchPaths);
+      } catch (err) {
+        reports.push(failedPlugin(name, err));
+        continue;
+      }
+      reports.push(await this.loadPlugin(name, modulePath));
+    }
+
+    for (const report of reports) {
+      if (report.status === "failed") {
+        console.error(
+          `[Handler] Failed to load plugin ${report.source}: ${report.error}`
+        );
+      }
+    }
+    this.pluginReports = reports;
+    return reports;
+  }
+
+  getPluginReports(): PluginReport[] {
+    return this.pluginReports;
+  }
+
+  private async loadPlugin(
+    source: string,
+    modulePath: string
+  ): Promise<PluginReport> {
+    let sensors: Sensor[];
+    try {
+      sensors = await importPlugin(modulePath);
+    } catch (err) {
+      return failedPlugin(source, err);
+    }
+    return this.registerPlugin(source, modulePath, sensors);
+  }
+
+  private async registerPlugin(
+    source: string,
+    modulePath: string,
+    sensors: Sensor[]
+  ): Promise<PluginReport> {
+    const report: PluginReport = {
+      source,
+      status: "loaded",
+      sensors: [],
+      disabled: [],
+    };
+    try {
+      for (const sensor of sensors) {
+        this.origins.set(sensor.id, { source, modulePath });
+        if (this.settings[sensor.id]?.enabled === false) {
+          this.unloaded.set(sensor.id, sensor);
+          report.disabled.push(sensor.id);
+          continue;
+        }
+        await this.addSensor(sensor);
+        report.sensors.push(sensor.id);
+      }
+      if (report.disabled.length) {
+        console.log(`[Handler] Skipped disabled ${report.disabled.join(", ")}`);
+        if (!report.sensors.length) report.status = "disabled";
+      }
+    } catch (err) {
+      report.status = "failed";
+      report.error = errorMessage(err);
+    }
+    return report;
+  }
+
+  /** Registers a sensor built elsewhere, e.g. from the Modbus register map. */
+  async addSensor(sensor: MaybeSensor) {
+    if (this.sensors.has(sensor.id) || this.unloaded.has(sensor.id)) {
+      throw new Error(`Sensor ${sensor.id} is already registered`);
+    }
+    if (this.settings[sensor.id]?.enabled === false) {
+      console.log(`[Handler] Skipped disabled ${sensor.id}`);
+      this.unloaded.set(sensor.id, sensor);
+      return;
+    }
+    await this.register(sensor);
+  }
+
+  /**
+   * Applies config overrides. A changed polling interval or pause takes
+   * effect at once; sensors that changed are emitted as "changed", disabled
+   * ones are unloaded and emitted as "removed". Resolves once re-enabled
+   * sensors are initialized.
+   */
+  async applySettings(settings: Record<string, SensorSettings>) {
+    const before = new Map(
+      this.listSensors().map((details) => [details.id, JSON.stringify(details)])
     );
+    this.settings = settings;
+    for (const sensor of [...this.sensors.values()]) {
+      if (settings[sensor.id]?.enabled === false) {
+        await this.unload(sensor);
+        continue;
+      }
+      this.applySensorSettings(sensor);
+      const details = this.describe(sensor);
+      if (JSON.stringify(details) !== before.get(sensor.id)) {
+        this.emit("changed", details);
+      }
+    }
+    for (const sensor of [...this.unloaded.values()]) {
+      if (settings[sensor.id]?.enabled === false) continue;
+      try {
+        await this.enable(sensor);
+      } catch (err) {
+        console.error(`[Handler] Failed to enable ${sensor.id}`, err);
+      }
+    }
   }
 
-  private isSensorInstance(v: unknown): v is MaybeSensor {
-    const s = v as MaybeSensor;
-    return !!s && typeof s.id === "string";
+  private async unload(sensor: MaybeSensor) {
+    this.stopPolling(sensor.id);
+    this.sensors.delete(sensor.id);
+    this.declared.delete(sensor.id);
+    this.unloaded.set(sensor.id, sensor);
+    this.moveInReport(sensor.id, "disabled");
+    await teardown(sensor);
+    console.log(`[Handler] Unloaded disabled ${sensor.id}`);
+    this.emit("removed", { id: sensor.id });
   }
 
-  async loadSensors() {
-    const dir = `${process.cwd()}/src/sensors/`;
-    const files = fs
-      .readdirSync(dir)
-      .filter(
-        (f) =>
-          this.validExtensions.includes(extname(f).toLowerCase()) &&
-          !this.ignoreFiles.includes(f)
-      );
+  private async enable(sensor: MaybeSensor) {
+    await this.register(sensor);
+    this.unloaded.delete(sensor.id);
+    this.moveInReport(sensor.id, "sensors");
+    if (this.polling) this.startSensor(sensor);
+    this.emit("changed", this.describe(sensor));
+  }
 
-    for (const file of files) {
-      const mod = await import(process.cwd() + `/src/sensors/${file}`);
-      const D = mod.default ?? mod;
+  // keeps list_sensors' plugin reports in step with runtime enable/disable
+  private moveInReport(id: string, to: "sensors" | "disabled") {
+    const report = this.pluginReports.find(
+      (r) => r.sensors.includes(id) || r.disabled.includes(id)
+    );
+    if (!report || report.status === "failed") return;
+    const from = to === "sensors" ? "disabled" : "sensors";
+    report[from] = report[from].filter((other) => other !== id);
+    if (!report[to].includes(id)) report[to].push(id);
+    report.status = report.sensors.length ? "loaded" : "disabled";
+  }
 
-      let instance: MaybeSensor | null = null;
-      if (this.isCtor(D)) instance = new D();
-      else if (this.isSensorInstance(D)) instance = D;
+  listSensors(): SensorDetails[] {
+    return Array.from(this.sensors.values(), (sensor) => this.describe(sensor));
+  }
+
+  getSensor(id: string): SensorDetails | undefined {
+    const sensor = this.sensors.get(id);
+    return sensor && this.describe(sensor);
+  }
+
+  /** Reads a sensor right away, outside its polling schedule. */
+  async readNow(id: string): Promise<SensorReading> {
+    const sensor = this.sensors.get(id);
+    if (!sensor) throw new Error(`Unknown sensor ${id}`);
+    return this.takeReading(sensor);
+  }
+
+  /**
+   * Re-imports the plugin a sensor came from and replaces all of its
+   * sensors. If the new code does not load, clashes with another sensor id
+   * or fails to initialize, the old sensors keep running. Sensors the new
+   * code no longer exports are emitted as "removed".
+   */
+  async reloadPlugin(id: string): Promise<PluginReport> {
+    const origin = this.origins.get(id);
+    if (!origin) {
+      throw new Error(
+        this.sensors.has(id)
+          ? `Sensor ${id} was not loaded from a plugin`
+          : `Unknown sensor ${id}`
+      );
+    }
+    const fresh = await importPlugin(origin.modulePath, true);
+    const previous = Array.from(this.origins)
+      .filter(([, other]) => other.modulePath === origin.modulePath)
+      .map(([sensorId]) => sensorId);
+
+    const report: PluginReport = {
+      source: origin.source,
+      status: "loaded",
+      sensors: [],
+      disabled: [],
+    };
+    const incoming: MaybeSensor[] = [];
+    const disabled: MaybeSensor[] = [];
+    for (const sensor of fresh) {
+      if (
+        ((this.sensors.has(sensor.id) || this.unloaded.has(sensor.id)) &&
+          !previous.includes(sensor.id)) ||
+        fresh.some((other) => other !== sensor && other.id === sensor.id)
+      ) {
+        throw new Error(`Sensor ${sensor.id} is already registered`);
+      }
+      if (this.settings[sensor.id]?.enabled === false) {
+        disabled.push(sensor);
+        report.disabled.push(sensor.id);
+      } else {
+        incoming.push(sensor);
+      }
+    }
+    const prepared: MaybeSensor[] = [];
+    try {
+      for (const sensor of incoming) {
+        await this.prepare(sensor);
+        prepared.push(sensor);
+      }
+    } catch (err) {
+      // the old sensors keep running; release what the new code acquired
+      for (const sensor of prepared) await teardown(sensor);
+      throw err;
+    }
 
-      if (this.isSensorInstance(instance)) {
-        await instance.init?.(this.config[instance.id]);
-        this.sensors.set(instance.id, instance);
-        console.log(`[Handler] Loaded sensor: ${instance.id}`);
+    const replaced: MaybeSensor[] = [];
+    for (const sensorId of previous) {
+      const sensor = this.sensors.get(sensorId);
+      if (sensor) replaced.push(sensor);
+      this.stopPolling(sensorId);
+      this.sensors.delete(sensorId);
+      this.unloaded.delete(sensorId);
+      this.declared.delete(sensorId);
+      this.origins.delete(sensorId);
+    }
+    for (const sensor of replaced) await teardown(sensor);
+    for (const sensor of disabled) {
+      this.unloaded.set(sensor.id, sensor);
+      this.origins.set(sensor.id, origin);
+    }
+    for (const sensor of incoming) {
+      this.install(sensor);
+      this.origins.set(sensor.id, origin);
+      report.sensors.push(sensor.id);
+    }
+    if (report.disabled.length && !report.sensors.length) {
+      report.status = "disabled";
+    }
+    this.pluginReports = [
+      ...this.pluginReports.filter((r) => r.source !== origin.source),
+      report,
+    ];
+    console.log(`[Handler] Reloaded plugin ${report.source}`);
+    for (const sensor of replaced) {
+      if (!report.sensors.includes(sensor.id)) {
+        this.emit("removed", { id: sensor.id });
       }
     }
+    for (const sensorId of report.sensors) {
+      const sensor = this.sensors.get(sensorId)!;
+      if (this.polling) this.startSensor(sensor);
+      this.emit("changed", this.describe(sensor));
+    }
+    return report;
+  }
+
+  private async register(sensor: MaybeSensor) {
+    await this.prepare(sensor);
+    this.install(sensor);
+  }
+
+  private async prepare(sensor: MaybeSensor) {
+    await sensor.init?.(this.settings[sensor.id]?.options);
+  }
+
+  private install(sensor: MaybeSensor) {
+    const { pollingTime, pollingWaitTime, location, log } = sensor;
+    this.declared.set(sensor.id, {
+      pollingTime,
+      pollingWaitTime,
+      location,
+      log,
+    });
+    this.applySensorSettings(sensor);
+    this.sensors.set(sensor.id, sensor);
+    console.log(`[Handler] Loaded sensor: ${sensor.id}`);
+  }
+
+  private applySensorSettings(sensor: MaybeSensor) {
+    const {
+      options: _options,
+      enabled: _enabled,
+      paused,
+      ...overrides
+    } = this.settings[sensor.id] ?? {};
+    const previousPollingTime = sensor.pollingTime;
+    Object.assign(sensor, this.declared.get(sensor.id), overrides);
+
+    if (paused) {
+      this.stopPolling(sensor.id);
+    } else if (
+      sensor.pollingTime !== previousPollingTime &&
+      this.pollingTimers.has(sensor.id)
+    ) {
+      // the pending poll would otherwise still wait out the old interval
+      this.stopPolling(sensor.id);
+      this.scheduleNextPoll(sensor, Math.max(sensor.pollingTime ?? 0, 0));
+    } else if (this.polling && this.sensors.get(sensor.id) === sensor) {
+      this.startSensor(sensor);
+    }
+  }
+
+  private describe(sensor: MaybeSensor): SensorDetails {
+    const paused = this.settings[sensor.id]?.paused === true;
+    return {
+      id: sensor.id,
+      type: sensor.type,
+      location: sensor.location,
+      log: sensor.log,
+      pollingTime: sensor.pollingTime,
+      pollingWaitTime: sensor.pollingWaitTime,
+      polling: paused
+        ? "paused"
+        : this.pollingTimers.has(sensor.id) || this.reading.has(sensor)
+        ? "active"
+        : "idle",
+      source: this.origins.get(sensor.id)?.source,
+      latest: this.latestReadings.get(sensor.id),
+    };
   }
 
   async runAll() {
     for (const sensor of this.sensors.values()) {
+      if (this.settings[sensor.id]?.paused) continue;
       await this.readSensor(sensor);
     }
   }
 
   startPolling() {
-    for (const sensor of this.sensors.values()) {
-      if (this.pollingTimers.has(sensor.id)) continue;
-      const initialDelay = Math.max(sensor.pollingWaitTime ?? 0, 0);
-      this.scheduleNextPoll(sensor, initialDelay);
-    }
+    this.polling = true;
+    for (const sensor of this.sensors.values()) this.startSensor(sensor);
   }
 
   stopPolling(id: string) {
@@ -82,15 +420,36 @@ export class SensorHandler extends EventEmitter {
   }
 
   stopAllPolling() {
+    this.polling = false;
     for (const id of this.pollingTimers.keys()) {
       this.stopPolling(id);
     }
   }
 
+  private startSensor(sensor: MaybeSensor) {
+    if (this.pollingTimers.has(sensor.id) || this.reading.has(sensor)) {
+      return;
+    }
+    if (this.settings[sensor.id]?.paused) return;
+    const initialDelay = Math.max(sensor.pollingWaitTime ?? 0, 0);
+    this.scheduleNextPoll(sensor, initialDelay);
+  }
+
   private scheduleNextPoll(sensor: MaybeSensor, delay: number) {
     const timeout = setTimeout(async () => {
       this.pollingTimers.delete(sensor.id);
+      this.reading.add(sensor);
       await this.readSensor(sensor);
+      this.reading.delete(sensor);
+      // paused, stopped or replaced while the read was in flight
+      if (
+        !this.polling ||
+        this.settings[sensor.id]?.paused ||
+        this.sensors.get(sensor.id) !== sensor ||
+        this.pollingTimers.has(sensor.id)
+      ) {
+        return;
+      }
       const nextDelay = Math.max(sensor.pollingTime ?? 0, 0);
       this.scheduleNextPoll(sensor, nextDelay);
     }, delay);
@@ -101,22 +460,35 @@ export class SensorHandler extends EventEmitter {
   private async readSensor(sensor: MaybeSensor) {
     if (!sensor.readValue) return;
     try {
-      const value = await sensor.readValue();
-      const reading: SensorReading = {
-        id: sensor.id,
-        type: sensor.type,
-        value,
-        timestamp: new Date().toISOString(),
-      };
-
-      this.latestReadings.set(sensor.id, reading);
-      if (sensor.log) console.log(`[Handler] Read ${sensor.id}: ${value}`);
-      this.emit("reading", reading);
+      await this.takeReading(sensor);
     } catch (err) {
       console.error(`[Handler] Failed to read ${sensor.id}`, err);
     }
   }
 
+  private async takeReading(sensor: MaybeSensor): Promise<SensorReading> {
+    if (!sensor.readValue) throw new Error(`Sensor ${sensor.id} has no value`);
+    const value = await sensor.readValue();
+    const reading: SensorReading = {
+      id: sensor.id,
+      type: sensor.type,
+      value,
+      timestamp: new Date().toISOString(),
+    };
+    if (sensor.location) reading.location = sensor.location;
+
+    this.latestReadings.set(sensor.id, reading);
+    if (sensor.log) console.log(`[Handler] Read ${sensor.id}: ${value}`);
+    this.emit("reading", reading);
+    return reading;
+  }
+
+  /** Publishes a reading that was taken elsewhere, e.g. on a bus node. */
+  ingestReading(reading: SensorReading) {
+    this.latestReadings.set(reading.id, reading);
+    this.emit("reading", reading);
+  }
+
   getCachedReadings(): SensorReading[] {
     return Array.from(this.latestReadings.values());
   }
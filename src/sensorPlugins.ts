@@ -0,0 +1,91 @@
+import fs from "node:fs";
+import path from "node:path";
+import { isSensor, Sensor } from "./sensors/Sensor";
+
+/** Outcome of loading one plugin file or package. */
+export interface PluginReport {
+  // file path, or package name for npm plugins
+  source: string;
+  status: "loaded" | "disabled" | "failed";
+  sensors: string[];
+  // sensors the config turned off
+  disabled: string[];
+  error?: string;
+}
+
+export interface PluginSources {
+  dirs?: string[];
+  packages?: string[];
+  // where packages are looked up besides the worker's own node_modules
+  searchPaths?: string[];
+}
+
+export const BUILTIN_SENSOR_DIR = path.join(__dirname, "sensors");
+
+// a compiled build only ships .js; under ts-node the sources sit next to it
+const EXTENSIONS =
+  path.extname(__filename) === ".ts" ? [".ts", ".js"] : [".js"];
+
+// the abstract base class lives with the built-in sensors
+const IGNORED_MODULES = ["Sensor"];
+
+export const findPluginFiles = (dir: string): string[] =>
+  fs
+    .readdirSync(dir)
+    .filter((file) => {
+      const ext = path.extname(file);
+      return (
+        EXTENSIONS.includes(ext.toLowerCase()) &&
+        !file.endsWith(".d.ts") &&
+        !IGNORED_MODULES.includes(path.basename(file, ext))
+      );
+    })
+    .sort()
+    .map((file) => path.join(dir, file));
+
+export const resolvePluginPackage = (
+  name: string,
+  searchPaths: string[] = []
+) => require.resolve(name, { paths: [...searchPaths, __dirname] });
+
+type SensorClass = new () => unknown;
+
+const isCtor = (v: unknown): v is SensorClass =>
+  typeof v === "function" &&
+  /^class\s/.test(Function.prototype.toString.call(v));
+
+const defaultExport = (v: unknown): unknown =>
+  typeof v === "object" && v !== null && "default" in v ? v.default : undefined;
+
+/**
+ * A plugin exports, as default or as the module itself, a sensor class, a
+ * sensor instance or a list of either.
+ */
+export const instantiatePlugin = (mod: unknown): Sensor[] => {
+  let exported = mod;
+  // import() of a CommonJS module that sets exports.default nests it twice
+  for (let i = 0; i < 2 && defaultExport(exported) !== undefined; i++) {
+    if (isSensor(exported)) break;
+    exported = defaultExport(exported);
+  }
+  const candidates: unknown[] = Array.isArray(exported) ? exported : [exported];
+  return candidates.map((candidate, index) => {
+    const instance = isCtor(candidate) ? new candidate() : candidate;
+    if (!isSensor(instance)) {
+      const which = Array.isArray(exported) ? `Export ${index}` : "The export";
+      throw new Error(
+        `${which} is not a sensor (needs a string id and readValue())`
+      );
+    }
+    return instance;
+  });
+};
+
+/** `fresh` drops the cached module first so edited code is picked up. */
+export const importPlugin = async (
+  modulePath: string,
+  fresh = false
+): Promise<Sensor[]> => {
+  if (fresh) delete require.cache[require.resolve(modulePath)];
+  return instantiatePlugin(await import(modulePath));
+};
@@ -6,8 +6,11 @@ export abstract class Sensor {
   abstract pollingTime: number;
   abstract pollingWaitTime: number;
   abstract log: boolean;
+  location?: string;
 
   init?(opts: unknown): Promise<void>;
+  // releases what init acquired once the sensor is unloaded or replaced
+  destroy?(): Promise<void> | void;
 
   abstract readValue(): Promise<number | boolean>;
 }
@@ -15,4 +18,4 @@ export abstract class Sensor {
 export const isSensor = (x: unknown): x is Sensor =>
   !!x &&
   typeof (x as any).id === "string" &&
-  typeof (x as any).read === "function";
+  typeof (x as any).readValue === "function";
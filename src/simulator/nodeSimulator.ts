@@ -0,0 +1,281 @@
+import { EventEmitter } from "node:events";
+import type { LoopbackTransport } from "../transports/loopbackTransport";
+import { ACTUATORS, Actuator, Command, Status } from "../types";
+
+export interface SimulatorFaults {
+  // probability (0-1) that a reply is silently dropped
+  dropRate?: number;
+  // probability (0-1) that a line of garbage precedes an outbound message
+  garbageRate?: number;
+  // every reply is held back this long, plus up to jitterMs
+  delayMs?: number;
+  jitterMs?: number;
+}
+
+export interface NodeSimulatorOptions {
+  node?: string;
+  device?: string;
+  speed?: number;
+  // same seed, same sensor noise and fault decisions
+  seed?: number;
+  heartbeatMs?: number;
+  sensorIntervalMs?: number;
+  tickMs?: number;
+  outsideTemperature?: number;
+  faults?: SimulatorFaults;
+}
+
+export interface SimulatedClimate {
+  airTemperature: number;
+  humidity: number;
+  soilMoisture: number;
+  co2: number;
+}
+
+// mulberry32: tiny, fast and reproducible
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Plays a remote greenhouse node on a LoopbackTransport: answers discovery,
+ * pings and actuator commands, sends heartbeats and reports sensor values
+ * from a coarse thermal/humidity model driven by its own actuators.
+ */
+export class NodeSimulator extends EventEmitter {
+  readonly node: string;
+  readonly device: string;
+  private readonly speed: number;
+  private readonly heartbeatMs: number;
+  private readonly sensorIntervalMs: number;
+  private readonly tickMs: number;
+  private readonly outsideTemperature: number;
+  private readonly random: () => number;
+  private faults: SimulatorFaults;
+  private transport?: LoopbackTransport;
+  private timers: NodeJS.Timeout[] = [];
+  private delayedReplies = new Set<NodeJS.Timeout>();
+  private offlineUntil = 0;
+  private dropNext = 0;
+  private stage = 0;
+  private auto = false;
+  private actuators: Record<Actuator, boolean> = {
+    fan: false,
+    pump: false,
+    light: false,
+    climate: false,
+  };
+  private climate: SimulatedClimate;
+
+  constructor(options: NodeSimulatorOptions = {}) {
+    super();
+    this.node = options.node ?? "sim-1";
+    this.device = options.device ?? `simulated-${this.node}`;
+    this.speed = options.speed ?? 115200;
+    this.heartbeatMs = options.heartbeatMs ?? 5000;
+    this.sensorIntervalMs = options.sensorIntervalMs ?? 5000;
+    this.tickMs = options.tickMs ?? 1000;
+    this.outsideTemperature = options.outsideTemperature ?? 14;
+    this.random = createRandom(options.seed ?? 1);
+    this.faults = { ...options.faults };
+    this.climate = {
+      airTemperature: 20,
+      humidity: 60,
+      soilMoisture: 45,
+      co2: 600,
+    };
+    this.handleCommand = this.handleCommand.bind(this);
+    this.handleStatus = this.handleStatus.bind(this);
+  }
+
+  public attach(transport: LoopbackTransport) {
+    this.detach();
+    this.transport = transport;
+    transport.on("tx", this.handleCommand);
+    transport.on("status", this.handleStatus);
+    this.timers.push(
+      setInterval(() => this.step(this.tickMs / 1000), this.tickMs),
+      setInterval(
+        () => this.send({ heartbeat: this.device, from: this.node }),
+        this.heartbeatMs
+      ),
+      setInterval(() => this.send(this.sensorReport()), this.sensorIntervalMs)
+    );
+    if (transport.getStatus() === "connected") this.send(this.hello());
+  }
+
+  public detach() {
+    for (const timer of this.timers) clearInterval(timer);
+    for (const timer of this.delayedReplies) clearTimeout(timer);
+    this.timers = [];
+    this.delayedReplies.clear();
+    this.transport?.removeListener("tx", this.handleCommand);
+    this.transport?.removeListener("status", this.handleStatus);
+    this.transport = undefined;
+  }
+
+  public getClimate(): SimulatedClimate {
+    return { ...this.climate };
+  }
+
+  public getActuators(): Record<Actuator, boolean> {
+    return { ...this.actuators };
+  }
+
+  public setFaults(faults: SimulatorFaults) {
+    this.faults = { ...faults };
+  }
+
+  /** Drops the next `count` replies regardless of the drop rate. */
+  public dropReplies(count = 1) {
+    this.dropNext += count;
+  }
+
+  /** Goes silent (no replies, heartbeats or reports) for `durationMs`. */
+  public disconnect(durationMs: number) {
+    this.offlineUntil = Date.now() + durationMs;
+  }
+
+  public sendGarbage(length = 16) {
+    const bytes = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      bytes[i] = Math.floor(this.random() * 256);
+    }
+    this.transport?.injectRaw(Buffer.concat([bytes, Buffer.from("\n")]));
+  }
+
+  /** Advances the climate model by `seconds`. */
+  public step(seconds: number) {
+    const c = this.climate;
+    const { fan, pump, light, climate } = this.actuators;
+    const noise = () => (this.random() - 0.5) * 0.02;
+
+    let heat = (this.outsideTemperature - c.airTemperature) * 0.001;
+    if (light) heat += 0.004;
+    if (climate) heat += 0.01;
+    if (fan) heat += (this.outsideTemperature - c.airTemperature) * 0.005;
+    c.airTemperature = clamp(
+      c.airTemperature + heat * seconds + noise(),
+      -10,
+      50
+    );
+
+    let moisture = (55 - c.humidity) * 0.0005;
+    if (pump) moisture += 0.03;
+    if (fan) moisture -= 0.02;
+    // warm air holds more water, so relative humidity drops as it heats
+    moisture -= heat * 0.5;
+    c.humidity = clamp(c.humidity + moisture * seconds + noise(), 5, 100);
+
+    c.soilMoisture = clamp(
+      c.soilMoisture + (pump ? 0.08 : -0.002) * seconds,
+      0,
+      100
+    );
+
+    let co2 = light ? -0.15 : 0.1;
+    if (fan) co2 -= (c.co2 - 420) * 0.005;
+    c.co2 = clamp(c.co2 + co2 * seconds + noise() * 50, 350, 5000);
+  }
+
+  private hello() {
+    return { hello: this.device, from: this.node, speed: this.speed };
+  }
+
+  private sensorReport() {
+    const c = this.climate;
+    return {
+      from: this.node,
+      readings: [
+        { id: "air", type: "air_temperature", value: round(c.airTemperature) },
+        { id: "humidity", type: "humidity", value: round(c.humidity) },
+        { id: "soil", type: "soil_moisture", value: round(c.soilMoisture) },
+        { id: "co2", type: "co2", value: Math.round(c.co2) },
+      ],
+    };
+  }
+
+  // a real board announces itself once the bus comes up
+  private handleStatus(status: Status) {
+    if (status === "connected") setImmediate(() => this.send(this.hello()));
+  }
+
+  private handleCommand(command: Command) {
+    // addressed to another node on the same bus
+    if (command.node && command.node !== this.node) return;
+    const reply = this.replyTo(command);
+    if (!reply) return;
+    this.emit("command", command);
+
+    if (this.dropNext > 0) {
+      this.dropNext -= 1;
+      return;
+    }
+    if (this.random() < (this.faults.dropRate ?? 0)) return;
+
+    const delay =
+      (this.faults.delayMs ?? 0) +
+      Math.floor(this.random() * (this.faults.jitterMs ?? 0));
+    const send = () =>
+      this.send({ ...reply, replyTo: command.id, from: this.node });
+    if (delay <= 0) {
+      setImmediate(send);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.delayedReplies.delete(timer);
+      send();
+    }, delay);
+    this.delayedReplies.add(timer);
+  }
+
+  private replyTo(command: Command): Record<string, unknown> | undefined {
+    switch (command.cmd) {
+      case "who":
+        return this.hello();
+      case "ping":
+        return { heartbeat: this.device };
+      case "read_sensors":
+        return this.sensorReport();
+      case "set_stage": {
+        if (typeof command.stage !== "number") {
+          return { ok: false, error: "stage must be a number" };
+        }
+        this.stage = command.stage;
+        return { ok: true, stage: this.stage };
+      }
+      case "enable_auto":
+        this.auto = command.value !== false;
+        return { ok: true, auto: this.auto };
+      case "manual_override": {
+        if (!command.actuator || !ACTUATORS.includes(command.actuator)) {
+          return { ok: false, error: "unknown actuator" };
+        }
+        this.auto = false;
+        const value = Boolean(command.value);
+        this.actuators[command.actuator] = value;
+        return { ok: true, actuator: command.actuator, state: value };
+      }
+      default:
+        return { ok: false, error: `unknown command ${command.cmd}` };
+    }
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (!this.transport || Date.now() < this.offlineUntil) return;
+    if (this.random() < (this.faults.garbageRate ?? 0)) this.sendGarbage();
+    this.transport.inject(message);
+  }
+}
@@ -0,0 +1,190 @@
+// 1 is the original protocol: ack/command_error/rs485_error events and no
+// filtering. 2 adds subscriptions and the uniform "response" envelope.
+export const PROTOCOL_VERSIONS = [1, 2];
+
+export const SOCKET_EVENTS = [
+  "status_update",
+  "sensor_update",
+  "rs485_message",
+  "warning_issued",
+  "warning_updated",
+  "automation_mode",
+  "automation_decision",
+  "schedule_updated",
+  "schedule_transition",
+  "actuator_state",
+  "sensor_config_updated",
+  "sensor_removed",
+];
+
+type CommandRef = { cmd: string; id?: string };
+
+export type LegacyErrorEvent = "command_error" | "rs485_error";
+
+// read sessions may watch and query but not drive actuators or the bus
+export type SessionPermission = "read" | "control";
+
+export interface Subscription {
+  events: string[] | null;
+  sensorIds: string[] | null;
+}
+
+const stringList = (value: unknown, label: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const list = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+    throw new Error(`${label} must be a list of strings`);
+  }
+  return list as string[];
+};
+
+// warnings carry sensorId, the sensor_* events carry id
+const eventSensorId = (event: string, data: unknown): string | undefined => {
+  if (!data || typeof data !== "object") return undefined;
+  const record = data as Record<string, unknown>;
+  const value = event.startsWith("sensor_") ? record.id : record.sensorId;
+  return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * One connected client, independent of how it is connected. Clients that
+ * never send `hello` stay on protocol 1 and receive every event.
+ */
+export class SocketSession {
+  public protocol = 1;
+  public clientName?: string;
+  private events: Set<string> | null = null;
+  private sensorIds: Set<string> | null = null;
+  private readonly write: (line: string) => void;
+  private readonly isOpen: () => boolean;
+  public readonly permission: SessionPermission;
+
+  constructor(
+    write: (line: string) => void,
+    isOpen: () => boolean,
+    permission: SessionPermission = "control"
+  ) {
+    this.write = write;
+    this.isOpen = isOpen;
+    this.permission = permission;
+  }
+
+  public get open(): boolean {
+    return this.isOpen();
+  }
+
+  public handshake(params: Record<string, unknown>) {
+    const offered =
+      params.versions ??
+      (params.protocol === undefined ? [] : [params.protocol]);
+    const versions = Array.isArray(offered)
+      ? offered.map(Number).filter((v) => PROTOCOL_VERSIONS.includes(v))
+      : [];
+    if (!versions.length) {
+      throw new Error(
+        `Unsupported protocol version; this worker speaks ${PROTOCOL_VERSIONS.join(
+          ", "
+        )}`
+      );
+    }
+
+    this.protocol = Math.max(...versions);
+    if (typeof params.client === "string") this.clientName = params.client;
+    return {
+      protocol: this.protocol,
+      supported: PROTOCOL_VERSIONS,
+      events: SOCKET_EVENTS,
+    };
+  }
+
+  public subscribe(params: Record<string, unknown>): Subscription {
+    const events = stringList(params.events, "events");
+    const sensorIds = stringList(params.sensorIds, "sensorIds");
+    if (events) {
+      const unknown = events.filter((event) => !SOCKET_EVENTS.includes(event));
+      if (unknown.length) {
+        throw new Error(`Unknown event types: ${unknown.join(", ")}`);
+      }
+      this.events = new Set([...(this.events ?? []), ...events]);
+    }
+    if (sensorIds) {
+      this.sensorIds = new Set([...(this.sensorIds ?? []), ...sensorIds]);
+    }
+    return this.getSubscription();
+  }
+
+  /** Without arguments this drops every filter and receives everything. */
+  public unsubscribe(params: Record<string, unknown>): Subscription {
+    const events = stringList(params.events, "events");
+    const sensorIds = stringList(params.sensorIds, "sensorIds");
+    if (!events && !sensorIds) {
+      this.events = null;
+      this.sensorIds = null;
+      return this.getSubscription();
+    }
+    if (events) {
+      this.events ??= new Set(SOCKET_EVENTS);
+      for (const event of events) this.events.delete(event);
+    }
+    if (sensorIds && this.sensorIds) {
+      for (const sensorId of sensorIds) this.sensorIds.delete(sensorId);
+      if (!this.sensorIds.size) this.sensorIds = null;
+    }
+    return this.getSubscription();
+  }
+
+  public getSubscription(): Subscription {
+    return {
+      events: this.events ? Array.from(this.events) : null,
+      sensorIds: this.sensorIds ? Array.from(this.sensorIds) : null,
+    };
+  }
+
+  public wants(event: string, data: unknown): boolean {
+    if (this.events && !this.events.has(event)) return false;
+    if (!this.sensorIds) return true;
+    const sensorId = eventSensorId(event, data);
+    return sensorId === undefined || this.sensorIds.has(sensorId);
+  }
+
+  public sendEvent(event: string, data: unknown) {
+    if (!this.wants(event, data)) return;
+    this.send({ event, data });
+  }
+
+  public respond(ref: CommandRef, reply: unknown) {
+    if (this.protocol >= 2) {
+      this.send({
+        event: "response",
+        id: ref.id,
+        cmd: ref.cmd,
+        ok: true,
+        data: reply,
+      });
+      return;
+    }
+    this.send({ event: "ack", data: { cmd: ref.cmd, id: ref.id, reply } });
+  }
+
+  public fail(ref: CommandRef, error: Error, legacyEvent: LegacyErrorEvent) {
+    if (this.protocol >= 2) {
+      this.send({
+        event: "response",
+        id: ref.id,
+        cmd: ref.cmd,
+        ok: false,
+        error: { message: error.message },
+      });
+      return;
+    }
+    this.send({
+      event: legacyEvent,
+      data: { cmd: ref.cmd, id: ref.id, message: error.message },
+    });
+  }
+
+  private send(message: unknown) {
+    if (!this.isOpen()) return;
+    this.write(JSON.stringify(message) + "\n");
+  }
+}
@@ -0,0 +1,277 @@
+import { EventEmitter } from "node:events";
+import { uuid } from "uuidv4";
+import type { SensorHandler } from "./sensorHandler";
+import type { WarningHandler } from "./warningHandler";
+import type { AltertType, IAlert, SensorReading, ThresholdRule } from "./types";
+
+type RuleState = {
+  breachSince?: number;
+  active: boolean;
+};
+
+export type ThresholdClearedEvent = {
+  rule: ThresholdRule;
+  sensorId: string;
+  location: string;
+  value: number;
+};
+
+interface ThresholdMonitorOptions {
+  rules?: ThresholdRule[];
+  defaultLocation?: string;
+}
+
+export const DEFAULT_THRESHOLD_RULES: ThresholdRule[] = [
+  {
+    id: "air-overtemp",
+    alertType: "overtemp",
+    severity: "high",
+    sensorType: "air_temperature",
+    excludeSensorIds: ["cpuTemp"],
+    direction: "above",
+    threshold: 35,
+    hysteresis: 2,
+    minDurationMs: 30_000,
+  },
+  {
+    // cpuTemp reports as air_temperature; the greenhouse limits exclude it
+    id: "cpu-overtemp",
+    alertType: "overtemp",
+    severity: "medium",
+    sensorId: "cpuTemp",
+    direction: "above",
+    threshold: 80,
+    hysteresis: 5,
+    minDurationMs: 60_000,
+  },
+  {
+    id: "air-undertemp",
+    alertType: "undertemp",
+    severity: "high",
+    sensorType: "air_temperature",
+    excludeSensorIds: ["cpuTemp"],
+    direction: "below",
+    threshold: 5,
+    hysteresis: 2,
+    minDurationMs: 30_000,
+  },
+  {
+    id: "high-humidity",
+    alertType: "high_humidity",
+    severity: "medium",
+    sensorType: "humidity",
+    direction: "above",
+    threshold: 90,
+    hysteresis: 5,
+    minDurationMs: 60_000,
+  },
+  {
+    id: "high-co2",
+    alertType: "high_co2",
+    severity: "medium",
+    sensorType: "co2",
+    direction: "above",
+    threshold: 1500,
+    clearThreshold: 1200,
+    minDurationMs: 60_000,
+  },
+];
+
+export class ThresholdMonitor extends EventEmitter {
+  private rules: ThresholdRule[];
+  private readonly defaultLocation: string;
+  private readonly sensorHandler: SensorHandler;
+  private readonly warningHandler: WarningHandler;
+  private states = new Map<string, RuleState>();
+  private attached = false;
+
+  constructor(
+    sensorHandler: SensorHandler,
+    warningHandler: WarningHandler,
+    options: ThresholdMonitorOptions = {}
+  ) {
+    super();
+    this.sensorHandler = sensorHandler;
+    this.warningHandler = warningHandler;
+    this.rules = options.rules ?? DEFAULT_THRESHOLD_RULES;
+    this.defaultLocation = options.defaultLocation ?? "greenhouse-1";
+    this.handleReading = this.handleReading.bind(this);
+  }
+
+  public start() {
+    if (this.attached) return;
+    this.sensorHandler.on("reading", this.handleReading);
+    this.attached = true;
+  }
+
+  public stop() {
+    if (!this.attached) return;
+    this.sensorHandler.off("reading", this.handleReading);
+    this.attached = false;
+  }
+
+  public getRules(): ThresholdRule[] {
+    return this.rules;
+  }
+
+  public setRules(rules: ThresholdRule[]) {
+    this.rules = rules;
+    // drop state for rules that no longer exist so a re-added rule starts fresh
+    const ruleIds = new Set(rules.map((rule) => rule.id));
+    for (const key of this.states.keys()) {
+      if (!ruleIds.has(key.slice(0, key.indexOf("|")))) this.states.delete(key);
+    }
+  }
+
+  /**
+   * Forgets the breach state a sensor holds for an alert type, e.g. once its
+   * alert was resolved by hand, so a lasting breach raises a fresh alert.
+   */
+  public reset(sensorId: string, alertType?: AltertType) {
+    const ruleIds = new Set(
+      this.rules
+        .filter((rule) => !alertType || rule.alertType === alertType)
+        .map((rule) => rule.id)
+    );
+    for (const key of this.states.keys()) {
+      const split = key.indexOf("|");
+      if (key.slice(split + 1) !== sensorId) continue;
+      if (ruleIds.has(key.slice(0, split))) this.states.delete(key);
+    }
+  }
+
+  public handleReading(reading: SensorReading) {
+    if (typeof reading.value !== "number" || !Number.isFinite(reading.value)) {
+      return;
+    }
+
+    const now = Date.parse(reading.timestamp) || Date.now();
+    for (const rule of this.selectRules(reading)) {
+      this.evaluate(rule, reading, reading.value, now);
+    }
+  }
+
+  // For every alert type only the most specific matching rule applies, so a
+  // location or sensor specific rule replaces the generic per-type limits.
+  private selectRules(reading: SensorReading): ThresholdRule[] {
+    const location = reading.location ?? this.defaultLocation;
+    const best = new Map<string, { rule: ThresholdRule; score: number }>();
+
+    for (const rule of this.rules) {
+      if (rule.sensorId && rule.sensorId !== reading.id) continue;
+      if (rule.excludeSensorIds?.includes(reading.id)) continue;
+      if (rule.sensorType && rule.sensorType !== reading.type) continue;
+      if (rule.location && rule.location !== location) continue;
+      if (!rule.sensorId && !rule.sensorType) continue;
+
+      const score =
+        (rule.sensorId ? 4 : 0) +
+        (rule.location ? 2 : 0) +
+        (rule.sensorType ? 1 : 0);
+      const key = `${rule.alertType}:${rule.direction}`;
+      const current = best.get(key);
+      if (!current || score > current.score) best.set(key, { rule, score });
+    }
+
+    return Array.from(best.values(), (entry) => entry.rule);
+  }
+
+  private evaluate(
+    rule: ThresholdRule,
+    reading: SensorReading,
+    value: number,
+    now: number
+  ) {
+    const key = `${rule.id}|${reading.id}`;
+    const location = rule.location ?? reading.location ?? this.defaultLocation;
+    let state = this.states.get(key);
+    if (!state) {
+      // an alert restored from the database still has to clear on recovery
+      state = { active: this.hasOpenAlert(rule, reading.id, location) };
+      this.states.set(key, state);
+    }
+
+    const breached =
+      rule.direction === "above"
+        ? value > rule.threshold
+        : value < rule.threshold;
+
+    if (!state.active) {
+      if (!breached) {
+        state.breachSince = undefined;
+        return;
+      }
+      state.breachSince ??= now;
+      if (now - state.breachSince < (rule.minDurationMs ?? 0)) return;
+
+      state.active = true;
+      state.breachSince = undefined;
+      this.raise(rule, reading, value, now);
+      return;
+    }
+
+    const clearAt = this.clearLevel(rule);
+    const cleared =
+      rule.direction === "above" ? value <= clearAt : value >= clearAt;
+    if (!cleared) return;
+
+    state.active = false;
+    const event: ThresholdClearedEvent = {
+      rule,
+      sensorId: reading.id,
+      location,
+      value,
+    };
+    this.emit("cleared", event);
+  }
+
+  private hasOpenAlert(
+    rule: ThresholdRule,
+    sensorId: string,
+    location: string
+  ) {
+    return this.warningHandler
+      .getWarnings()
+      .some(
+        (w) =>
+          w.type === rule.alertType &&
+          w.location === location &&
+          w.sensorId === sensorId
+      );
+  }
+
+  private clearLevel(rule: ThresholdRule): number {
+    if (typeof rule.clearThreshold === "number") return rule.clearThreshold;
+    const hysteresis = Math.abs(rule.hysteresis ?? 0);
+    return rule.direction === "above"
+      ? rule.threshold - hysteresis
+      : rule.threshold + hysteresis;
+  }
+
+  private raise(
+    rule: ThresholdRule,
+    reading: SensorReading,
+    value: number,
+    now: number
+  ) {
+    const location = rule.location ?? reading.location ?? this.defaultLocation;
+    const comparison = rule.direction === "above" ? "above" : "below";
+    const alert: IAlert = {
+      id: uuid(),
+      type: rule.alertType,
+      location,
+      severity: rule.severity,
+      message:
+        rule.message ??
+        `${reading.id} reading ${value} is ${comparison} ${rule.threshold}`,
+      timestamp: now,
+      sensorId: reading.id,
+      threshold: rule.threshold,
+      currentValue: value,
+    };
+
+    const warning = this.warningHandler.addWarning(alert);
+    this.warningHandler.issueWarning(warning);
+    this.emit("raised", { rule, alert: warning });
+  }
+}
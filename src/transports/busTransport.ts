@@ -0,0 +1,19 @@
+import type { EventEmitter } from "node:events";
+import type { Command, Status } from "../types";
+
+// "simulator" is a loopback bus with simulated nodes attached
+export type TransportKind = "serial" | "tcp" | "loopback" | "simulator";
+
+/**
+ * What BusManager needs from the wire. Implementations emit "message" for
+ * every decoded inbound object, "status" on link changes and "error" for
+ * link failures.
+ */
+export interface BusTransport extends EventEmitter {
+  init(): Promise<void>;
+  destroy(): Promise<void>;
+  sendCommand(command: Command | { cmd: string; id: string }): Promise<void>;
+  getStatus(): Status;
+  // transports without traffic logging leave this out
+  setLogTraffic?(enabled: boolean): void;
+}
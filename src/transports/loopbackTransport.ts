@@ -0,0 +1,98 @@
+import { EventEmitter } from "node:events";
+import type { Command, Status } from "../types";
+import type { BusTransport } from "./busTransport";
+
+type SentCommand = Command | { cmd: string; id: string };
+
+/** Produces the bus traffic a command would cause; may be async. */
+export type LoopbackResponder = (
+  command: SentCommand
+) => unknown | unknown[] | Promise<unknown | unknown[]>;
+
+export interface LoopbackTransportOptions {
+  responder?: LoopbackResponder;
+  // simulated line latency before replies are delivered
+  replyDelayMs?: number;
+}
+
+/**
+ * In-memory bus for tests and development without hardware. Commands are
+ * recorded and handed to an optional responder; anything it returns is
+ * delivered back as inbound messages.
+ */
+export class LoopbackTransport extends EventEmitter implements BusTransport {
+  public readonly sent: SentCommand[] = [];
+  private responder?: LoopbackResponder;
+  private readonly replyDelayMs: number;
+  private status: Status = "disconnected";
+
+  constructor(options: LoopbackTransportOptions = {}) {
+    super();
+    this.responder = options.responder;
+    this.replyDelayMs = Math.max(0, options.replyDelayMs ?? 0);
+  }
+
+  public getStatus(): Status {
+    return this.status;
+  }
+
+  public setResponder(responder?: LoopbackResponder) {
+    this.responder = responder;
+  }
+
+  public async init(): Promise<void> {
+    this.setStatus("connected");
+  }
+
+  public async destroy(): Promise<void> {
+    this.setStatus("disconnected");
+  }
+
+  public async sendCommand(command: SentCommand): Promise<void> {
+    if (this.status !== "connected") {
+      throw new Error("Loopback transport is not connected");
+    }
+    this.sent.push(command);
+    this.emit("tx", command);
+    if (!this.responder) return;
+
+    const replies = await this.responder(command);
+    if (replies === undefined) return;
+    const list = Array.isArray(replies) ? replies : [replies];
+    setTimeout(() => {
+      for (const reply of list) this.inject(reply);
+    }, this.replyDelayMs);
+  }
+
+  /** Delivers a message as if a node had sent it. */
+  public inject(message: unknown) {
+    this.emit("message", message);
+  }
+
+  /**
+   * Delivers raw bytes the way the JSON-line serial handler would: each line
+   * that parses becomes a message, anything else is only seen as "line".
+   */
+  public injectRaw(data: Buffer) {
+    this.emit("data", data);
+    for (const line of data.toString("utf8").split("\n")) {
+      const text = line.trim();
+      if (!text) continue;
+      this.emit("line", text);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch (err) {
+        continue;
+      }
+      this.emit("message", parsed);
+    }
+  }
+
+  /** Simulates the link dropping or coming back. */
+  public setStatus(status: Status) {
+    if (this.status === status) return;
+    this.status = status;
+    this.emit("status", status);
+  }
+}
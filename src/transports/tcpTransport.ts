@@ -0,0 +1,207 @@
+import { EventEmitter } from "node:events";
+import net from "node:net";
+import { encodeFrame, FrameDecoder, FrameError } from "../rs485Framing";
+import type { RS485Protocol, RS485Stats } from "../rs485Hanlder";
+import type { Command, Status } from "../types";
+import type { BusTransport } from "./busTransport";
+
+export interface TcpTransportOptions {
+  host: string;
+  port: number;
+  protocol?: Exclude<RS485Protocol, "modbus">;
+  connectTimeoutMs?: number;
+  autoReconnect?: boolean;
+  reconnectIntervalMs?: number;
+  logTraffic?: boolean;
+}
+
+/**
+ * Talks to the bus through an RS485-to-Ethernet converter running as a TCP
+ * serial server. The converter handles the transceiver direction itself, so
+ * no GPIO is involved.
+ */
+export class TcpTransport extends EventEmitter implements BusTransport {
+  private readonly options: Required<Omit<TcpTransportOptions, "logTraffic">> &
+    TcpTransportOptions;
+  private socket?: net.Socket;
+  private decoder?: FrameDecoder;
+  private lineBuffer = "";
+  private reconnectTimer?: NodeJS.Timeout;
+  private destroyed = false;
+  private status: Status = "disconnected";
+  private stats: RS485Stats = {
+    framesReceived: 0,
+    crcErrors: 0,
+    framingErrors: 0,
+    invalidPayloads: 0,
+    skippedBytes: 0,
+  };
+
+  constructor(options: TcpTransportOptions) {
+    super();
+    this.options = {
+      protocol: "json-line",
+      connectTimeoutMs: 5000,
+      autoReconnect: true,
+      reconnectIntervalMs: 5000,
+      ...options,
+    };
+  }
+
+  public getStatus(): Status {
+    return this.status;
+  }
+
+  public setLogTraffic(enabled: boolean) {
+    this.options.logTraffic = enabled;
+  }
+
+  public getStats(): RS485Stats {
+    if (this.decoder) {
+      this.stats.skippedBytes += this.decoder.takeSkippedBytes();
+    }
+    return { ...this.stats };
+  }
+
+  public async init(): Promise<void> {
+    if (this.destroyed) {
+      throw new Error("Cannot initialize a destroyed TCP transport");
+    }
+    await this.connect();
+  }
+
+  public async sendCommand(
+    command: Command | { cmd: string; id: string }
+  ): Promise<void> {
+    if (!this.socket || this.status !== "connected") await this.connect();
+    const serialized = JSON.stringify(command);
+    const payload =
+      this.options.protocol === "framed"
+        ? encodeFrame(Buffer.from(serialized, "utf8"))
+        : Buffer.from(serialized + "\n", "utf8");
+
+    if (this.options.logTraffic) {
+      console.debug(`[TCP] => ${serialized}`);
+    }
+
+    await new Promise<void>((resolve, reject) =>
+      this.socket!.write(payload, (err?: Error | null) =>
+        err ? reject(err) : resolve()
+      )
+    );
+    this.emit("tx", payload);
+  }
+
+  public async destroy(): Promise<void> {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.socket?.destroy();
+    this.socket = undefined;
+    this.setStatus("disconnected");
+  }
+
+  private connect(): Promise<void> {
+    if (this.socket && this.status === "connected") return Promise.resolve();
+    this.socket?.destroy();
+
+    return new Promise<void>((resolve, reject) => {
+      const { host, port } = this.options;
+      const socket = net.createConnection({ host, port });
+      this.socket = socket;
+      this.lineBuffer = "";
+      if (this.decoder) {
+        this.stats.skippedBytes += this.decoder.takeSkippedBytes();
+        this.decoder = undefined;
+      }
+
+      socket.setTimeout(this.options.connectTimeoutMs);
+      socket.once("timeout", () =>
+        socket.destroy(new Error(`TCP connect to ${host}:${port} timed out`))
+      );
+      socket.once("connect", () => {
+        socket.setTimeout(0);
+        socket.setNoDelay(true);
+        this.attachDecoder(socket);
+        this.setStatus("connected");
+        resolve();
+      });
+      socket.on("error", (err: Error) => {
+        if (this.socket !== socket) return;
+        this.setStatus("fail", err);
+        reject(err);
+      });
+      socket.on("close", () => {
+        if (this.socket !== socket) return;
+        this.socket = undefined;
+        if (this.status === "connected") this.setStatus("disconnected");
+        this.scheduleReconnect();
+      });
+    });
+  }
+
+  private attachDecoder(socket: net.Socket) {
+    if (this.options.protocol === "framed") {
+      const decoder = new FrameDecoder();
+      decoder.on("frame", (frame: Buffer) => {
+        this.stats.framesReceived += 1;
+        this.handleText(frame.toString("utf8"), true);
+      });
+      decoder.on("invalid", (error: FrameError) =>
+        this.handleFrameError(error)
+      );
+      this.decoder = decoder;
+      socket.on("data", (data: Buffer) => decoder.push(data));
+      return;
+    }
+
+    socket.on("data", (data: Buffer) => {
+      this.lineBuffer += data.toString("utf8");
+      const lines = this.lineBuffer.split("\n");
+      this.lineBuffer = lines.pop() ?? "";
+      for (const line of lines) this.handleText(line.trim(), false);
+    });
+  }
+
+  private handleText(text: string, framed: boolean) {
+    if (!text) return;
+    if (this.options.logTraffic) console.debug(`[TCP] <= ${text}`);
+    this.emit("line", text);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      if (framed) {
+        this.handleFrameError({
+          reason: "payload",
+          message: "Frame payload is not valid JSON",
+        });
+      }
+      return;
+    }
+    this.emit("message", parsed);
+  }
+
+  private handleFrameError(error: FrameError) {
+    if (error.reason === "crc") this.stats.crcErrors += 1;
+    else if (error.reason === "payload") this.stats.invalidPayloads += 1;
+    else this.stats.framingErrors += 1;
+    this.emit("frame_error", error, this.getStats());
+  }
+
+  private setStatus(status: Status, error?: Error) {
+    if (this.status === status && !error) return;
+    this.status = status;
+    this.emit("status", status);
+    if (error) this.emit("error", error);
+  }
+
+  private scheduleReconnect() {
+    if (this.destroyed || !this.options.autoReconnect) return;
+    if (this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch(() => this.scheduleReconnect());
+    }, this.options.reconnectIntervalMs);
+  }
+}
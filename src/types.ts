@@ -1,5 +1,7 @@
 export type Actuator = "fan" | "pump" | "light" | "climate";
 
+export const ACTUATORS: Actuator[] = ["fan", "pump", "light", "climate"];
+
 export interface Command {
   cmd:
     | "set_stage"
@@ -15,6 +17,9 @@ export interface Command {
   value?: boolean | number;
   payload?: Record<string, unknown>;
   node?: string;
+  alertId?: string;
+  // resend on timeout; only safe for commands that can be repeated
+  retry?: boolean;
 }
 
 export interface EventMessage {
@@ -36,11 +41,62 @@ export type SensorType =
   | "switch_position"
   | "utitlization";
 
+export const SENSOR_TYPES: SensorType[] = [
+  "temperature",
+  "humidity",
+  "soil_moisture",
+  "co2",
+  "TVOC",
+  "air_temperature",
+  "water_flow",
+  "switch_position",
+  "utitlization",
+];
+
 export interface SensorReading {
   id: string;
   type: SensorType;
   value: number | boolean;
   timestamp: string;
+  location?: string;
+  node?: string;
+}
+
+/** Per-sensor overrides from the config file, keyed by sensor id. */
+export interface SensorSettings {
+  // false skips the sensor when plugins are loaded
+  enabled?: boolean;
+  // loaded but not polled
+  paused?: boolean;
+  pollingTime?: number;
+  pollingWaitTime?: number;
+  location?: string;
+  log?: boolean;
+  // handed to the sensor's init() when it is loaded
+  options?: unknown;
+}
+
+/** A sensor run by this worker, with its effective settings. */
+export interface SensorDetails {
+  id: string;
+  type: SensorType;
+  location?: string;
+  log: boolean;
+  pollingTime: number;
+  pollingWaitTime: number;
+  polling: "active" | "paused" | "idle";
+  // plugin file or package the sensor came from
+  source?: string;
+  latest?: SensorReading;
+}
+
+/** A sensor the worker has seen, with its most recent reading if any. */
+export interface SensorInfo {
+  id: string;
+  type: SensorType;
+  location?: string;
+  node?: string;
+  latest?: SensorReading;
 }
 
 export type AltertType =
@@ -51,6 +107,17 @@ export type AltertType =
   | "high_co2"
   | "power_failure";
 
+export const ALERT_TYPES: AltertType[] = [
+  "overtemp",
+  "undertemp",
+  "fan_failure",
+  "high_humidity",
+  "high_co2",
+  "power_failure",
+];
+
+export type AlertState = "active" | "acknowledged" | "resolved";
+
 export interface IAlert {
   id: string;
   type: AltertType;
@@ -58,7 +125,150 @@ export interface IAlert {
   severity: "low" | "medium" | "high" | "informative";
   message: string;
   timestamp: number;
-  sensorId?: number;
+  sensorId?: string;
   threshold?: number;
   currentValue?: number;
+  state?: AlertState;
+  occurrences?: number;
+  lastSeen?: number;
+  acknowledgedAt?: number;
+  resolvedAt?: number;
+}
+
+export const ALERT_SEVERITIES: IAlert["severity"][] = [
+  "low",
+  "medium",
+  "high",
+  "informative",
+];
+
+export interface ThresholdRule {
+  id: string;
+  alertType: AltertType;
+  severity: IAlert["severity"];
+  direction: "above" | "below";
+  threshold: number;
+  // value at which an active alert is considered cleared; defaults to
+  // threshold -/+ hysteresis
+  clearThreshold?: number;
+  hysteresis?: number;
+  minDurationMs?: number;
+  sensorType?: SensorType;
+  sensorId?: string;
+  excludeSensorIds?: string[];
+  location?: string;
+  message?: string;
+}
+
+export interface ReadingsQuery {
+  sensorIds: string[];
+  from: number;
+  to: number;
+  bucketMs: number;
+}
+
+export interface ReadingBucket {
+  sensorId: string;
+  bucketStart: string;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+}
+
+export type ActuatorMode = "manual" | "auto" | "override";
+
+export interface AutomationRule {
+  actuator: Actuator;
+  sensorId?: string;
+  sensorType?: SensorType;
+  excludeSensorIds?: string[];
+  // "above" switches on over onAt and off again at offAt (e.g. cooling fan),
+  // "below" switches on under onAt and off again at offAt (e.g. heater)
+  direction: "above" | "below";
+  onAt: number;
+  offAt: number;
+  node?: string;
+  minSwitchIntervalMs?: number;
+}
+
+export interface AutomationState {
+  actuator: Actuator;
+  mode: ActuatorMode;
+  output?: boolean;
+  overrideUntil?: number;
+  lastValue?: number;
+  lastSwitchAt?: number;
+}
+
+export interface AutomationDecision {
+  actuator: Actuator;
+  value: boolean;
+  reason: string;
+  sensorValue: number;
+  timestamp: number;
+  error?: string;
+}
+
+export type ScheduleKind = "window" | "cron" | "interval";
+
+export interface Schedule {
+  id: string;
+  name?: string;
+  actuator: Actuator;
+  node?: string;
+  kind: ScheduleKind;
+  enabled: boolean;
+  // window: local "HH:MM" times, optionally limited to weekdays (0 = Sunday)
+  start?: string;
+  end?: string;
+  days?: number[];
+  // cron: five-field expression, on for durationMs after every match
+  cron?: string;
+  durationMs?: number;
+  // interval: on for onMs out of every everyMs, counted from anchor
+  everyMs?: number;
+  onMs?: number;
+  anchor?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScheduleTransition {
+  actuator: Actuator;
+  node?: string;
+  value: boolean;
+  scheduleIds: string[];
+  timestamp: number;
+  error?: string;
+}
+
+export interface ActuatorState {
+  actuator: Actuator;
+  node?: string;
+  value: boolean | number;
+  source: "command" | "report";
+  updatedAt: number;
+}
+
+export interface ActuatorHistoryQuery {
+  actuator?: Actuator;
+  node?: string;
+  from: number;
+  to: number;
+  limit: number;
+}
+
+export interface NodeStatus {
+  node: string;
+  connected: boolean;
+  device?: string;
+  speed?: number;
+  lastHeartbeat?: number;
+  lastSeen?: number;
+  connectedAt?: number;
+  disconnectedAt?: number;
+  reason?: string;
+  lastError?: string;
+  lastErrorAt?: number;
 }
@@ -1,31 +1,125 @@
 import { EventEmitter } from "stream";
+import type { DatabaseHandler } from "./database/database";
 import { IAlert } from "./types";
 
+type AlertMatch = Pick<IAlert, "type" | "location" | "sensorId">;
+
 export class WarningHandler extends EventEmitter {
   private warnings: IAlert[] = [];
+  private readonly database?: DatabaseHandler;
 
-  constructor() {
+  constructor(database?: DatabaseHandler) {
     super();
+    this.database = database;
+
+    if (this.database) {
+      try {
+        this.warnings = this.database.loadOpenAlerts();
+      } catch (err) {
+        console.error("[Warnings] Failed to load persisted alerts", err);
+      }
+    }
   }
 
+  /**
+   * Registers an alert. Repeats of an open alert with the same type, location
+   * and sensor are folded into the existing entry, which is returned instead.
+   */
   public addWarning(warning: IAlert): IAlert {
-    this.warnings.push(warning);
-    return warning;
+    const existing = this.findOpen(warning);
+    if (existing) {
+      existing.occurrences = (existing.occurrences ?? 1) + 1;
+      existing.lastSeen = warning.timestamp;
+      existing.severity = warning.severity;
+      existing.message = warning.message;
+      if (warning.currentValue !== undefined) {
+        existing.currentValue = warning.currentValue;
+      }
+      this.persist(existing);
+      this.emit("updated", existing);
+      return existing;
+    }
+
+    const alert: IAlert = {
+      ...warning,
+      state: "active",
+      occurrences: 1,
+      lastSeen: warning.timestamp,
+    };
+    this.warnings.push(alert);
+    this.persist(alert);
+    return alert;
   }
 
   public issueWarning(warning: IAlert): void {
+    // deduplicated repeats were already announced through "updated"
+    if ((warning.occurrences ?? 1) > 1) return;
     this.emit("warning", warning);
   }
 
+  public acknowledgeWarning(id: string): IAlert | undefined {
+    const alert = this.warnings.find((w) => w.id === id);
+    if (!alert) return undefined;
+    if (alert.state === "acknowledged") return alert;
+
+    alert.state = "acknowledged";
+    alert.acknowledgedAt = Date.now();
+    this.persist(alert);
+    this.emit("updated", alert);
+    return alert;
+  }
+
+  public resolveWarning(id: string): IAlert | undefined {
+    const alert = this.warnings.find((w) => w.id === id);
+    if (!alert) return undefined;
+
+    alert.state = "resolved";
+    alert.resolvedAt = Date.now();
+    this.warnings = this.warnings.filter((w) => w !== alert);
+    this.persist(alert);
+    this.emit("updated", alert);
+    return alert;
+  }
+
+  public resolveMatching(match: AlertMatch): IAlert | undefined {
+    const alert = this.findOpen(match);
+    return alert ? this.resolveWarning(alert.id) : undefined;
+  }
+
+  /** Open alerts, i.e. everything that has not been resolved yet. */
   public getWarnings(): IAlert[] {
     return this.warnings;
   }
 
+  public getActiveWarnings(): IAlert[] {
+    return this.warnings.filter((w) => w.state === "active");
+  }
+
   public clearWarnings(): void {
-    this.warnings = [];
+    for (const alert of [...this.warnings]) {
+      this.resolveWarning(alert.id);
+    }
   }
 
   public hasWarnings(): boolean {
     return this.warnings.length > 0;
   }
+
+  private findOpen(match: AlertMatch): IAlert | undefined {
+    return this.warnings.find(
+      (w) =>
+        w.type === match.type &&
+        w.location === match.location &&
+        w.sensorId === match.sensorId
+    );
+  }
+
+  private persist(alert: IAlert) {
+    if (!this.database) return;
+    try {
+      this.database.saveAlert(alert);
+    } catch (err) {
+      console.error(`[Warnings] Failed to persist alert ${alert.id}`, err);
+    }
+  }
 }
@@ -0,0 +1,214 @@
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import type { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { AccessTokens, authenticate } from "./accessTokens";
+import { SessionPermission, SocketSession } from "./socketSession";
+
+export interface WebSocketGatewayOptions {
+  port: number;
+  host?: string;
+  // only upgrades on this path are accepted
+  path?: string;
+  tokens: AccessTokens;
+  tlsCertPath?: string;
+  tlsKeyPath?: string;
+  pingIntervalMs?: number;
+  maxPayloadBytes?: number;
+}
+
+export interface WebSocketGatewayStats {
+  activeConnections: number;
+  connectionsAccepted: number;
+  authFailures: number;
+  connectionErrors: number;
+}
+
+const rejectUpgrade = (socket: Duplex, status: number, reason: string) => {
+  socket.end(
+    `HTTP/1.1 ${status} ${reason}\r\n` +
+      "Connection: close\r\n" +
+      (status === 401
+        ? 'WWW-Authenticate: Bearer realm="greenhouse"\r\n'
+        : "") +
+      "\r\n"
+  );
+};
+
+/**
+ * Serves the socket event stream and command set over WebSocket for
+ * dashboards that do not run on the Pi. Each connection becomes a
+ * SocketSession with the permission of the token it presented; the worker
+ * handles sessions exactly like Unix socket clients.
+ */
+export class WebSocketGateway extends EventEmitter {
+  private readonly options: WebSocketGatewayOptions;
+  private server?: http.Server | https.Server;
+  private wss?: WebSocketServer;
+  private pingTimer?: NodeJS.Timeout;
+  private readonly alive = new WeakSet<WebSocket>();
+  private stats: WebSocketGatewayStats = {
+    activeConnections: 0,
+    connectionsAccepted: 0,
+    authFailures: 0,
+    connectionErrors: 0,
+  };
+
+  constructor(options: WebSocketGatewayOptions) {
+    super();
+    this.options = options;
+  }
+
+  public get secure(): boolean {
+    return Boolean(this.options.tlsCertPath);
+  }
+
+  public getStats(): WebSocketGatewayStats {
+    return { ...this.stats };
+  }
+
+  public async start(): Promise<void> {
+    const { tlsCertPath, tlsKeyPath } = this.options;
+    if (Boolean(tlsCertPath) !== Boolean(tlsKeyPath)) {
+      throw new Error("WebSocket TLS needs both a certificate and a key");
+    }
+    if (!this.options.tokens.size) {
+      throw new Error("WebSocket gateway needs at least one token");
+    }
+
+    this.server =
+      tlsCertPath && tlsKeyPath
+        ? https.createServer({
+            cert: fs.readFileSync(tlsCertPath),
+            key: fs.readFileSync(tlsKeyPath),
+          })
+        : http.createServer();
+    this.server.on("request", (_req, res) => {
+      res.writeHead(426, { Connection: "close" }).end("Upgrade Required\n");
+    });
+    this.server.on("upgrade", (req, socket, head) =>
+      this.handleUpgrade(req, socket, head)
+    );
+    // malformed requests and TLS handshake failures never reach the upgrade
+    const onClientError = (err: Error, socket: Duplex) => {
+      this.stats.connectionErrors += 1;
+      console.warn(`[WS] Connection error: ${err.message}`);
+      socket.destroy();
+    };
+    this.server.on("clientError", onClientError);
+    this.server.on("tlsClientError", onClientError);
+
+    this.wss = new WebSocketServer({
+      noServer: true,
+      maxPayload: this.options.maxPayloadBytes ?? 64 * 1024,
+    });
+
+    const pingIntervalMs = this.options.pingIntervalMs ?? 30000;
+    this.pingTimer = setInterval(() => this.pingClients(), pingIntervalMs);
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.removeListener("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  public async stop(): Promise<void> {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = undefined;
+    for (const ws of this.wss?.clients ?? []) ws.terminate();
+    this.wss?.close();
+    this.wss = undefined;
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  public address() {
+    return this.server?.address();
+  }
+
+  private handleUpgrade(
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ) {
+    const remote = req.socket.remoteAddress ?? "unknown";
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (this.options.path && pathname !== this.options.path) {
+      this.stats.connectionErrors += 1;
+      console.warn(`[WS] Rejected ${remote}: unknown path ${pathname}`);
+      rejectUpgrade(socket, 404, "Not Found");
+      return;
+    }
+
+    const permission = authenticate(this.options.tokens, req);
+    if (!permission) {
+      this.stats.authFailures += 1;
+      console.warn(
+        `[WS] Rejected ${remote}: missing or invalid token ` +
+          `(${this.stats.authFailures} auth failures so far)`
+      );
+      rejectUpgrade(socket, 401, "Unauthorized");
+      return;
+    }
+
+    socket.on("error", (err: Error) => {
+      this.stats.connectionErrors += 1;
+      console.warn(`[WS] Connection error from ${remote}: ${err.message}`);
+    });
+    this.wss!.handleUpgrade(req, socket, head, (ws) =>
+      this.handleConnection(ws, permission, remote)
+    );
+  }
+
+  private handleConnection(
+    ws: WebSocket,
+    permission: SessionPermission,
+    remote: string
+  ) {
+    this.stats.connectionsAccepted += 1;
+    this.stats.activeConnections += 1;
+    this.alive.add(ws);
+    console.log(`[WS] Client connected from ${remote} (${permission})`);
+
+    const session = new SocketSession(
+      (line) => ws.send(line.trimEnd()),
+      () => ws.readyState === WebSocket.OPEN,
+      permission
+    );
+    this.emit("session", session);
+
+    ws.on("pong", () => this.alive.add(ws));
+    ws.on("message", (data, isBinary) => {
+      if (isBinary) return;
+      this.emit("message", session, data.toString());
+    });
+    ws.on("error", (err: Error) => {
+      this.stats.connectionErrors += 1;
+      console.warn(`[WS] Client ${remote} error: ${err.message}`);
+    });
+    ws.on("close", () => {
+      this.stats.activeConnections -= 1;
+      console.log(`[WS] Client ${remote} disconnected`);
+      this.emit("close", session);
+    });
+  }
+
+  // drops connections that did not answer the previous ping
+  private pingClients() {
+    for (const ws of this.wss?.clients ?? []) {
+      if (!this.alive.has(ws)) {
+        ws.terminate();
+        continue;
+      }
+      this.alive.delete(ws);
+      ws.ping();
+    }
+  }
+}